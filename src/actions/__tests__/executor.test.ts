@@ -0,0 +1,114 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Tests for executing multi-action rules
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { executeAction } from '../executor.js';
+import { ModerationAction, RuleEvaluationResult } from '../../types/rules.js';
+
+/**
+ * Create a minimal Devvit context recording the Reddit calls
+ */
+function createContext(): any {
+  return {
+    settings: { get: async () => undefined },
+    reddit: {
+      submitComment: jest.fn(async () => ({ id: 't1_reply', distinguish: async () => {} })),
+      remove: jest.fn(async () => {}),
+      getCommentById: jest.fn(async () => ({ id: 't1_def', postId: 't3_parent' })),
+      setPostFlair: jest.fn(async () => {}),
+    },
+    redis: { set: async () => {} },
+  };
+}
+
+/**
+ * Rule result running the given steps
+ */
+function createRuleResult(actions: ModerationAction[]): RuleEvaluationResult {
+  return {
+    action: 'REMOVE',
+    actions: actions.map((action) => ({ action, reason: `${action} reason` })),
+    reason: 'Spam domain',
+    matchedRule: 'spam-links',
+    confidence: 100,
+    dryRun: false,
+  };
+}
+
+const post: any = { id: 't3_abc', authorName: 'spammer', subredditName: 'testsubreddit' };
+
+describe('executeAction', () => {
+  it('should leave the removal comment to a later COMMENT step', async () => {
+    const context = createContext();
+
+    const result = await executeAction({
+      post,
+      ruleResult: createRuleResult(['REMOVE', 'COMMENT']),
+      profile: {} as any,
+      context,
+      dryRun: false,
+    });
+
+    expect(result.subActions!.map((step) => step.success)).toEqual([true, true]);
+    expect(context.reddit.remove).toHaveBeenCalledTimes(1);
+    expect(context.reddit.submitComment).toHaveBeenCalledTimes(1);
+    expect(context.reddit.submitComment.mock.calls[0][0].text).toContain('COMMENT reason');
+  });
+
+  it('should still post the removal comment without a COMMENT step', async () => {
+    const context = createContext();
+
+    await executeAction({
+      post,
+      ruleResult: createRuleResult(['COMMENT', 'REMOVE']),
+      profile: {} as any,
+      context,
+      dryRun: false,
+    });
+
+    expect(context.reddit.submitComment).toHaveBeenCalledTimes(2);
+    expect(context.reddit.submitComment.mock.calls[1][0].text).toContain('REMOVE reason');
+  });
+
+  it('should flair the parent post of a comment', async () => {
+    const context = createContext();
+
+    const result = await executeAction({
+      post: { ...post, id: 't1_def' },
+      ruleResult: {
+        ...createRuleResult(['SET_FLAIR']),
+        action: 'SET_FLAIR',
+        actions: undefined,
+        flair: { text: 'Needs review', target: 'post' },
+      },
+      profile: {} as any,
+      context,
+      dryRun: false,
+    });
+
+    expect(result.success).toBe(true);
+    expect(context.reddit.getCommentById).toHaveBeenCalledWith('t1_def');
+    expect(context.reddit.setPostFlair).toHaveBeenCalledWith(
+      expect.objectContaining({ postId: 't3_parent', text: 'Needs review' })
+    );
+  });
+});
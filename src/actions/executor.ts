@@ -30,7 +30,12 @@
  */
 
 import { TriggerContext, Post } from '@devvit/public-api';
-import { RuleEvaluationResult, ActionExecutionResult } from '../types/rules.js';
+import {
+  RuleEvaluationResult,
+  ActionExecutionResult,
+  ModerationAction,
+  ResolvedActionStep,
+} from '../types/rules.js';
 import { UserProfile } from '../types/profile.js';
 import { DEFAULT_REMOVE_TEMPLATE, DEFAULT_COMMENT_TEMPLATE, formatTemplate } from './templates.js';
 import { saveAnalysisHistory as saveToRedis } from '../storage/analysisHistory.js';
@@ -41,6 +46,8 @@ import { AIQuestionBatchResult } from '../types/ai.js';
  */
 const MAX_COMMENT_LENGTH = 10000;
 const MAX_REPORT_REASON_LENGTH = 100;
+const MAX_BAN_REASON_LENGTH = 100;
+const MAX_MOD_NOTE_LENGTH = 300;
 
 /**
  * Validate and truncate comment text to Reddit's character limit
@@ -60,6 +67,67 @@ function validateCommentLength(text: string, correlationId: string): string {
   return text;
 }
 
+/**
+ * Truncate text to a Reddit API field limit
+ *
+ * @param text - Text to truncate
+ * @param maxLength - Maximum allowed length
+ * @returns Text, shortened with an ellipsis if over the limit
+ */
+function truncateText(text: string, maxLength: number): string {
+  return text.length > maxLength ? text.substring(0, maxLength - 3) + '...' : text;
+}
+
+/**
+ * Build a failed execution result, logging rate limits separately
+ *
+ * @param action - Action that failed
+ * @param error - Caught error
+ * @param params - Execution parameters
+ * @param correlationId - Correlation ID for logging
+ * @returns Failed execution result
+ */
+function actionFailure(
+  action: ModerationAction,
+  error: unknown,
+  params: ExecuteActionParams,
+  correlationId: string
+): ActionExecutionResult {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+
+  if (errorMessage.includes('rate limit') || errorMessage.includes('429')) {
+    console.error(`[ActionExecutor:${correlationId}] Rate limit hit for ${action} action`, {
+      postId: params.post.id,
+      error: errorMessage,
+    });
+    return {
+      success: false,
+      action,
+      error: 'Rate limit exceeded - action will be retried',
+      dryRun: params.dryRun,
+    };
+  }
+
+  console.error(`[ActionExecutor:${correlationId}] ${action} action failed:`, {
+    postId: params.post.id,
+    error: errorMessage,
+  });
+
+  return {
+    success: false,
+    action,
+    error: errorMessage,
+    dryRun: params.dryRun,
+  };
+}
+
+/**
+ * Get the author's username, or undefined if the account is deleted
+ */
+function getAuthorName(post: Post): string | undefined {
+  return post.authorName && post.authorName !== '[deleted]' ? post.authorName : undefined;
+}
+
 /**
  * Extract AI reasoning from analysis result
  * Gets reasoning from the first answer with high confidence
@@ -83,8 +151,9 @@ function extractAIReasoning(aiAnalysis: AIQuestionBatchResult | undefined): stri
  */
 async function saveAnalysisHistory(
   params: ExecuteActionParams,
-  action: 'REMOVE' | 'FLAG' | 'COMMENT' | 'APPROVE',
-  correlationId: string
+  action: ModerationAction,
+  correlationId: string,
+  subActions?: ActionExecutionResult[]
 ): Promise<void> {
   const { post, profile, ruleResult, context, aiAnalysis, pipelineInfo } = params;
 
@@ -126,8 +195,29 @@ async function saveAnalysisHistory(
       confidence: ruleResult.confidence,
       aiReasoning,
       ruleReason: ruleResult.reason,
+      explanation: ruleResult.explanation,
       aiCostUSD: aiAnalysis?.costUSD,
       aiTokensUsed: aiAnalysis?.tokensUsed,
+
+      // Multi-action rules: per-step results
+      actionResults: subActions?.map((result) => ({
+        action: result.action,
+        success: result.success,
+        error: result.error,
+      })),
+
+      // Shadow rules: what they would have done
+      shadowMatches: ruleResult.shadowMatches?.length
+        ? ruleResult.shadowMatches.map((match) => ({
+            ruleId: match.ruleId,
+            ruleName: match.ruleName,
+            action: match.action,
+            reason: match.reason,
+          }))
+        : undefined,
+
+      // Tagging rules: final tags
+      tags: ruleResult.tags?.length ? ruleResult.tags : undefined,
     });
 
     console.log(`[ActionExecutor:${correlationId}] Analysis history saved successfully (layer: ${pipelineInfo?.layerTriggered || 'unknown'})`);
@@ -156,6 +246,8 @@ export interface ExecuteActionParams {
   dryRun: boolean;
   /** Optional AI analysis result for mod notes */
   aiAnalysis?: AIQuestionBatchResult;
+  /** If true, REMOVE doesn't post its removal comment (a later COMMENT step explains the removal) */
+  skipRemovalComment?: boolean;
   /** Pipeline layer information (which layers were evaluated and their results) */
   pipelineInfo?: {
     layerTriggered?: string;
@@ -201,19 +293,114 @@ export async function executeAction(
 
   console.log(`[ActionExecutor:${correlationId}] Executing action:`, {
     action: ruleResult.action,
+    actions: ruleResult.actions?.map((step) => step.action),
     postId: post.id,
     author: post.authorName,
     matchedRule: ruleResult.matchedRule,
     dryRun,
   });
 
+  // Multi-action rules execute every step in declared order
+  if (ruleResult.actions && ruleResult.actions.length > 0) {
+    return await executeActionSteps(params, ruleResult.actions, correlationId);
+  }
+
+  const result = await executeSingleAction(params, correlationId);
+
+  // Save analysis history after successful execution (APPROVE included for moderator visibility)
+  if (result.success) {
+    await saveAnalysisHistory(params, ruleResult.action, correlationId);
+  }
+
+  return result;
+}
+
+/**
+ * Execute the ordered steps of a multi-action rule
+ *
+ * Steps run sequentially so e.g. a removal comment can follow the removal.
+ * When a COMMENT step follows a REMOVE step, REMOVE skips its own removal
+ * comment so the user gets a single comment. A failing step is logged and
+ * does not stop later steps. The overall result
+ * succeeds only if every step succeeded; per-step results are returned in
+ * subActions and stored in analysis history.
+ *
+ * @param params - Execution parameters
+ * @param steps - Resolved action steps from the rules engine
+ * @param correlationId - Correlation ID for logging
+ * @returns Aggregated execution result
+ */
+async function executeActionSteps(
+  params: ExecuteActionParams,
+  steps: ResolvedActionStep[],
+  correlationId: string
+): Promise<ActionExecutionResult> {
+  const { ruleResult, dryRun } = params;
+  const subActions: ActionExecutionResult[] = [];
+
+  for (const [index, step] of steps.entries()) {
+    const stepParams: ExecuteActionParams = {
+      ...params,
+      skipRemovalComment:
+        step.action === 'REMOVE' && steps.slice(index + 1).some((later) => later.action === 'COMMENT'),
+      ruleResult: {
+        ...ruleResult,
+        action: step.action,
+        reason: step.reason,
+        modlog: step.modlog,
+        ban: step.ban,
+        flair: step.flair,
+        actions: undefined,
+      },
+    };
+
+    const stepResult = await executeSingleAction(stepParams, correlationId);
+    subActions.push(stepResult);
+
+    if (!stepResult.success) {
+      console.error(`[ActionExecutor:${correlationId}] Action step failed, continuing with remaining steps:`, {
+        action: step.action,
+        error: stepResult.error,
+      });
+    }
+  }
+
+  const failed = subActions.filter((result) => !result.success);
+
+  // Partial success still changed the content, so keep the audit trail
+  if (failed.length < subActions.length) {
+    await saveAnalysisHistory(params, ruleResult.action, correlationId, subActions);
+  }
+
+  return {
+    success: failed.length === 0,
+    action: ruleResult.action,
+    error: failed.length > 0
+      ? failed.map((result) => `${result.action}: ${result.error || 'Unknown error'}`).join('; ')
+      : undefined,
+    dryRun,
+    subActions,
+  };
+}
+
+/**
+ * Route a single action to its handler
+ *
+ * @param params - Execution parameters (ruleResult.action selects the handler)
+ * @param correlationId - Correlation ID for logging
+ * @returns Result indicating success/failure and execution details
+ */
+async function executeSingleAction(
+  params: ExecuteActionParams,
+  correlationId: string
+): Promise<ActionExecutionResult> {
+  const { post, ruleResult, dryRun } = params;
+
   try {
     // Route to appropriate action handler
     switch (ruleResult.action) {
       case 'APPROVE':
         // No action needed on Reddit - post is approved by default
-        // But save analysis history for moderator visibility
-        await saveAnalysisHistory(params, 'APPROVE', correlationId);
         return {
           success: true,
           action: 'APPROVE',
@@ -229,6 +416,21 @@ export async function executeAction(
       case 'COMMENT':
         return await executeCommentAction(params, correlationId);
 
+      case 'BAN':
+        return await executeBanAction(params, correlationId);
+
+      case 'MUTE':
+        return await executeMuteAction(params, correlationId);
+
+      case 'LOCK':
+        return await executeLockAction(params, correlationId);
+
+      case 'SPAM':
+        return await executeSpamAction(params, correlationId);
+
+      case 'SET_FLAIR':
+        return await executeSetFlairAction(params, correlationId);
+
       default:
         // Should never happen due to TypeScript types, but handle defensively
         console.error(`[ActionExecutor:${correlationId}] Unknown action type:`, ruleResult.action);
@@ -310,9 +512,6 @@ async function executeFlagAction(
       reason: ruleResult.reason,
     });
 
-    // Save analysis history after successful FLAG
-    await saveAnalysisHistory(params, 'FLAG', correlationId);
-
     return {
       success: true,
       action: 'FLAG',
@@ -358,6 +557,7 @@ async function executeFlagAction(
  * Removes a post from the subreddit and posts an explanation comment
  * using the configured template (or default template if not customized).
  * The template is populated with the rule's reason field and other variables.
+ * The comment is skipped when params.skipRemovalComment is set.
  *
  * In dry-run mode, logs the action instead of executing.
  *
@@ -369,7 +569,7 @@ async function executeRemoveAction(
   params: ExecuteActionParams,
   correlationId: string
 ): Promise<ActionExecutionResult> {
-  const { post, ruleResult, context, dryRun } = params;
+  const { post, ruleResult, context, dryRun, skipRemovalComment } = params;
 
   try {
     // Get custom template from settings or use default
@@ -391,7 +591,7 @@ async function executeRemoveAction(
       console.log(`[ActionExecutor:${correlationId}] [DRY-RUN] Would REMOVE post:`, {
         postId: post.id,
         reason: ruleResult.reason,
-        wouldComment: true,
+        wouldComment: !skipRemovalComment,
         commentText: validatedCommentText,
       });
 
@@ -408,11 +608,13 @@ async function executeRemoveAction(
     // Execute: Add removal comment FIRST (before removing post)
     let commentAdded = false;
     try {
-      await context.reddit.submitComment({
-        id: post.id,
-        text: validatedCommentText,
-      });
-      commentAdded = true;
+      if (!skipRemovalComment) {
+        await context.reddit.submitComment({
+          id: post.id,
+          text: validatedCommentText,
+        });
+        commentAdded = true;
+      }
 
       // Phase 5.33: Comment tracking removed - now using getAppUser() in commentSubmit handler
     } catch (commentError) {
@@ -433,9 +635,6 @@ async function executeRemoveAction(
       commentAdded,
     });
 
-    // Save analysis history after successful REMOVE
-    await saveAnalysisHistory(params, 'REMOVE', correlationId);
-
     return {
       success: true,
       action: 'REMOVE',
@@ -538,9 +737,6 @@ async function executeCommentAction(
       commentLength: validatedCommentText.length,
     });
 
-    // Save analysis history after successful COMMENT
-    await saveAnalysisHistory(params, 'COMMENT', correlationId);
-
     return {
       success: true,
       action: 'COMMENT',
@@ -579,3 +775,321 @@ async function executeCommentAction(
     };
   }
 }
+
+/**
+ * Execute BAN action - ban the author from the subreddit
+ *
+ * Uses actionConfig.ban for the duration (omitted or 'permanent: true' =
+ * permanent) and the message sent to the user (defaults to the rule reason).
+ * The content is cited as ban context; combine with REMOVE/SPAM to also take
+ * it down.
+ *
+ * In dry-run mode, logs the action instead of executing.
+ *
+ * @param params - Execution parameters
+ * @param correlationId - Correlation ID for logging
+ * @returns Execution result
+ */
+async function executeBanAction(
+  params: ExecuteActionParams,
+  correlationId: string
+): Promise<ActionExecutionResult> {
+  const { post, ruleResult, context, dryRun } = params;
+  const ban = ruleResult.ban;
+  // Permanent only without a duration; a set duration is at least one day (0 never means permanent)
+  const duration = ban?.permanent || ban?.duration === undefined ? undefined : Math.max(1, Math.ceil(ban.duration));
+  const message = ban?.message || ruleResult.reason;
+
+  try {
+    const username = getAuthorName(post);
+    if (!username) {
+      throw new Error('Cannot ban deleted author');
+    }
+
+    if (dryRun) {
+      console.log(`[ActionExecutor:${correlationId}] [DRY-RUN] Would BAN user:`, {
+        postId: post.id,
+        username,
+        duration: duration ?? 'permanent',
+        message,
+      });
+
+      return {
+        success: true,
+        action: 'BAN',
+        dryRun: true,
+        details: {
+          banDuration: duration,
+        },
+      };
+    }
+
+    // Execute: Ban author, citing this content
+    await context.reddit.banUser({
+      subredditName: post.subredditName,
+      username,
+      duration,
+      message,
+      reason: truncateText(ruleResult.reason, MAX_BAN_REASON_LENGTH),
+      note: ruleResult.modlog ? truncateText(ruleResult.modlog, MAX_MOD_NOTE_LENGTH) : undefined,
+      context: post.id,
+    });
+
+    console.log(`[ActionExecutor:${correlationId}] Successfully banned user:`, {
+      postId: post.id,
+      username,
+      duration: duration ?? 'permanent',
+    });
+
+    return {
+      success: true,
+      action: 'BAN',
+      dryRun: false,
+      details: {
+        banDuration: duration,
+      },
+    };
+  } catch (error) {
+    return actionFailure('BAN', error, params, correlationId);
+  }
+}
+
+/**
+ * Execute MUTE action - mute the author in modmail
+ *
+ * In dry-run mode, logs the action instead of executing.
+ *
+ * @param params - Execution parameters
+ * @param correlationId - Correlation ID for logging
+ * @returns Execution result
+ */
+async function executeMuteAction(
+  params: ExecuteActionParams,
+  correlationId: string
+): Promise<ActionExecutionResult> {
+  const { post, ruleResult, context, dryRun } = params;
+
+  try {
+    const username = getAuthorName(post);
+    if (!username) {
+      throw new Error('Cannot mute deleted author');
+    }
+
+    if (dryRun) {
+      console.log(`[ActionExecutor:${correlationId}] [DRY-RUN] Would MUTE user:`, {
+        postId: post.id,
+        username,
+      });
+
+      return {
+        success: true,
+        action: 'MUTE',
+        dryRun: true,
+      };
+    }
+
+    // Execute: Mute author in modmail
+    await context.reddit.muteUser({
+      subredditName: post.subredditName,
+      username,
+      note: truncateText(ruleResult.modlog || ruleResult.reason, MAX_MOD_NOTE_LENGTH),
+    });
+
+    console.log(`[ActionExecutor:${correlationId}] Successfully muted user:`, {
+      postId: post.id,
+      username,
+    });
+
+    return {
+      success: true,
+      action: 'MUTE',
+      dryRun: false,
+    };
+  } catch (error) {
+    return actionFailure('MUTE', error, params, correlationId);
+  }
+}
+
+/**
+ * Execute LOCK action - lock the post/comment against new replies
+ *
+ * In dry-run mode, logs the action instead of executing.
+ *
+ * @param params - Execution parameters
+ * @param correlationId - Correlation ID for logging
+ * @returns Execution result
+ */
+async function executeLockAction(
+  params: ExecuteActionParams,
+  correlationId: string
+): Promise<ActionExecutionResult> {
+  const { post, dryRun } = params;
+
+  try {
+    if (dryRun) {
+      console.log(`[ActionExecutor:${correlationId}] [DRY-RUN] Would LOCK post:`, {
+        postId: post.id,
+      });
+
+      return {
+        success: true,
+        action: 'LOCK',
+        dryRun: true,
+      };
+    }
+
+    // Execute: Lock (Comment exposes the same lock() method)
+    await post.lock();
+
+    console.log(`[ActionExecutor:${correlationId}] Successfully locked post:`, {
+      postId: post.id,
+    });
+
+    return {
+      success: true,
+      action: 'LOCK',
+      dryRun: false,
+    };
+  } catch (error) {
+    return actionFailure('LOCK', error, params, correlationId);
+  }
+}
+
+/**
+ * Execute SPAM action - remove as spam
+ *
+ * Marking as spam trains Reddit's spam filter. Unlike REMOVE, no removal
+ * comment is posted.
+ *
+ * In dry-run mode, logs the action instead of executing.
+ *
+ * @param params - Execution parameters
+ * @param correlationId - Correlation ID for logging
+ * @returns Execution result
+ */
+async function executeSpamAction(
+  params: ExecuteActionParams,
+  correlationId: string
+): Promise<ActionExecutionResult> {
+  const { post, ruleResult, context, dryRun } = params;
+
+  try {
+    if (dryRun) {
+      console.log(`[ActionExecutor:${correlationId}] [DRY-RUN] Would remove post as SPAM:`, {
+        postId: post.id,
+        reason: ruleResult.reason,
+      });
+
+      return {
+        success: true,
+        action: 'SPAM',
+        dryRun: true,
+      };
+    }
+
+    // Execute: Remove post (true = spam)
+    await context.reddit.remove(post.id, true);
+
+    console.log(`[ActionExecutor:${correlationId}] Successfully removed post as spam:`, {
+      postId: post.id,
+      reason: ruleResult.reason,
+    });
+
+    return {
+      success: true,
+      action: 'SPAM',
+      dryRun: false,
+    };
+  } catch (error) {
+    return actionFailure('SPAM', error, params, correlationId);
+  }
+}
+
+/**
+ * Execute SET_FLAIR action - set post or user flair
+ *
+ * Uses actionConfig.flair. For comments, target 'post' flairs the parent post.
+ *
+ * In dry-run mode, logs the action instead of executing.
+ *
+ * @param params - Execution parameters
+ * @param correlationId - Correlation ID for logging
+ * @returns Execution result
+ */
+async function executeSetFlairAction(
+  params: ExecuteActionParams,
+  correlationId: string
+): Promise<ActionExecutionResult> {
+  const { post, ruleResult, context, dryRun } = params;
+  const flair = ruleResult.flair;
+  const target = flair?.target || 'post';
+
+  try {
+    if (!flair || (!flair.text && !flair.templateId)) {
+      throw new Error('SET_FLAIR requires actionConfig.flair with text or templateId');
+    }
+
+    // Comments are passed in as posts - flair their parent post instead
+    let postId = post.id;
+    if (target === 'post' && post.id.startsWith('t1_')) {
+      const comment = await context.reddit.getCommentById(post.id);
+      postId = comment.postId;
+    }
+    const username = getAuthorName(post);
+    if (target === 'user' && !username) {
+      throw new Error('Cannot set flair on deleted author');
+    }
+
+    if (dryRun) {
+      console.log(`[ActionExecutor:${correlationId}] [DRY-RUN] Would SET_FLAIR:`, {
+        postId,
+        target,
+        username,
+        text: flair.text,
+        templateId: flair.templateId,
+      });
+
+      return {
+        success: true,
+        action: 'SET_FLAIR',
+        dryRun: true,
+        details: {
+          flairTarget: target,
+          flairText: flair.text,
+        },
+      };
+    }
+
+    const flairOptions = {
+      subredditName: post.subredditName,
+      text: flair.text,
+      flairTemplateId: flair.templateId,
+      cssClass: flair.cssClass,
+    };
+
+    // Execute: Set flair on post or author
+    if (target === 'user') {
+      await context.reddit.setUserFlair({ ...flairOptions, username: username! });
+    } else {
+      await context.reddit.setPostFlair({ ...flairOptions, postId });
+    }
+
+    console.log(`[ActionExecutor:${correlationId}] Successfully set flair:`, {
+      postId,
+      target,
+      text: flair.text,
+    });
+
+    return {
+      success: true,
+      action: 'SET_FLAIR',
+      dryRun: false,
+      details: {
+        flairTarget: target,
+        flairText: flair.text,
+      },
+    };
+  } catch (error) {
+    return actionFailure('SET_FLAIR', error, params, correlationId);
+  }
+}
@@ -46,6 +46,7 @@ interface MockContext {
  */
 class MockRedis {
   private data: Map<string, string> = new Map();
+  private hashes: Map<string, Map<string, string>> = new Map();
 
   async get(key: string): Promise<string | undefined> {
     return this.data.get(key);
@@ -64,11 +65,25 @@ class MockRedis {
 
   async del(key: string): Promise<void> {
     this.data.delete(key);
+    this.hashes.delete(key);
+  }
+
+  async hIncrBy(key: string, field: string, increment: number): Promise<number> {
+    const hash = this.hashes.get(key) ?? new Map<string, string>();
+    const newValue = parseInt(hash.get(field) || '0') + increment;
+    hash.set(field, String(newValue));
+    this.hashes.set(key, hash);
+    return newValue;
+  }
+
+  async hGetAll(key: string): Promise<Record<string, string>> {
+    return Object.fromEntries(this.hashes.get(key) ?? []);
   }
 
   // Test helper methods
   clear(): void {
     this.data.clear();
+    this.hashes.clear();
   }
 
   getData(): Map<string, string> {
@@ -237,6 +252,18 @@ describe('CostTracker', () => {
       expect(await mockRedis.get(`cost:daily:${today}`)).toBe('17');
     });
 
+    it('should attribute costs per provider/model', async () => {
+      await costTracker.recordCost(createCostRecord({ costUSD: 0.05, model: 'claude-3-5-haiku-20241022' }));
+      await costTracker.recordCost(createCostRecord({ costUSD: 0.25, model: 'claude-sonnet-4-5' }));
+      await costTracker.recordCost(createCostRecord({ costUSD: 0.05, model: 'claude-3-5-haiku-20241022' }));
+      await costTracker.recordCost(createCostRecord({ costUSD: 0.1, provider: 'openai' }));
+
+      expect(await costTracker.getModelSpending()).toEqual([
+        { provider: 'claude', model: 'claude-sonnet-4-5', totalUSD: 0.25 },
+        { provider: 'claude', model: 'claude-3-5-haiku-20241022', totalUSD: 0.1 },
+      ]);
+    });
+
     it('should handle concurrent cost recording without race conditions', async () => {
       // Simulate 10 concurrent API calls recording costs
       const promises = Array.from({ length: 10 }, () =>
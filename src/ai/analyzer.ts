@@ -108,7 +108,7 @@
 import { Devvit } from '@devvit/public-api';
 import { v4 as uuidv4 } from 'uuid';
 import crypto from 'crypto';
-import { AIAnalysisRequest, AIAnalysisResult, AIQuestion, AIQuestionRequest, AIQuestionBatchResult, AIProviderType } from '../types/ai.js';
+import { AIAnalysisRequest, AIAnalysisResult, AIQuestion, AIQuestionRequest, AIQuestionBatchResult, AIQuestionGroupResult, AIPostMetadata, AIThreadContext, AIProviderType } from '../types/ai.js';
 import { IAIProvider } from './provider.js';
 import { UserProfile, UserPostHistory } from '../types/profile.js';
 import { ClaudeProvider } from './claude.js';
@@ -116,7 +116,7 @@ import { OpenAIProvider } from './openai.js';
 import { OpenAICompatibleProvider } from './openaiCompatible.js';
 import { RequestCoalescer } from './requestCoalescer.js';
 import { CostTracker } from './costTracker.js';
-import { getCacheTTLForTrustScore } from '../config/ai.js';
+import { AI_CONFIG, getCacheTTLForTrustScore, getModelPricing } from '../config/ai.js';
 import { SettingsService } from '../config/settingsService.js';
 import { UserKeys } from '../storage/keyBuilder.js';
 
@@ -130,6 +130,19 @@ interface CurrentPost {
   body: string;
   /** Subreddit where post was submitted */
   subreddit: string;
+  /** Post metadata for question prompts (flair, NSFW, spoiler, ...) */
+  metadata?: AIPostMetadata;
+  /** Thread the comment belongs to (comments only) */
+  thread?: AIThreadContext;
+}
+
+/**
+ * Preferred provider/model of a group of questions
+ * (no provider = the configured primary/fallback providers)
+ */
+interface QuestionRoute {
+  provider?: AIProviderType;
+  model?: string;
 }
 
 /**
@@ -151,6 +164,12 @@ export class AIAnalyzer {
   /** Maximum number of questions allowed per batch to prevent excessive costs */
   private static readonly MAX_QUESTIONS_PER_BATCH = 10;
 
+  /** Estimated tokens per question AI call (profile, history and prompt), for budget checks */
+  private static readonly ESTIMATED_CALL_TOKENS = { input: 25_000, output: 3_000 };
+
+  /** Estimated extra tokens per question in a call, for budget checks */
+  private static readonly ESTIMATED_QUESTION_TOKENS = { input: 5_000, output: 1_000 };
+
   /** Cached settings version for this instance */
   private settingsVersionCache: string | null = null;
 
@@ -383,6 +402,11 @@ export class AIAnalyzer {
    * detection criteria as natural language questions. Supports batching
    * multiple questions in one AI call for cost efficiency.
    *
+   * **Provider Overrides**: Questions with a preferred provider/model
+   * (`question.provider`, `question.model`) are batched per provider/model,
+   * so each group is one AI call. Questions without a preference share one
+   * call to the configured primary/fallback providers.
+   *
    * **Cache Strategy**: Cache key includes sorted question IDs to allow
    * different question sets to be cached separately:
    * - `v1:user:{userId}:ai:questions:{questionIds}` (e.g., `v1:user:t2_abc:ai:questions:dating,age`)
@@ -483,8 +507,11 @@ export class AIAnalyzer {
       trustScore: trustScore || 'unknown',
     });
 
-    // Generate stable hash of sorted question IDs for cache key
-    const questionIdsString = questions.map(q => q.id).sort().join(',');
+    // Generate stable hash of sorted question IDs (with provider overrides) for cache key
+    const questionIdsString = questions
+      .map(q => (q.provider ? `${q.id}@${q.provider}/${q.model ?? ''}` : q.id))
+      .sort()
+      .join(',');
     const questionIdsHash = crypto.createHash('md5').update(questionIdsString).digest('hex').substring(0, 16);
 
     // 1. Check cache for existing analysis with these questions
@@ -504,9 +531,11 @@ export class AIAnalyzer {
 
     // 2. Check budget before spending
     const costTracker = CostTracker.getInstance(this.context);
-    // Estimate cost based on question count (rough estimate)
-    // Base: $0.04 + $0.01 per additional question
-    const estimatedCost = 0.04 + (questions.length * 0.01);
+    // Estimate cost per provider/model call, priced by the model it will use
+    const estimatedCost = AIAnalyzer.groupQuestionsByRoute(questions).reduce(
+      (total, group) => total + AIAnalyzer.estimateQuestionCallCost(group.route, group.questions.length),
+      0
+    );
 
     if (!(await costTracker.canAfford(estimatedCost))) {
       console.error('[AIAnalyzer] Budget exceeded - cannot analyze', {
@@ -563,6 +592,8 @@ export class AIAnalyzer {
           title: currentPost.title,
           body: currentPost.body,
           subreddit: currentPost.subreddit,
+          metadata: currentPost.metadata,
+          thread: currentPost.thread,
         },
         questions,
         context: {
@@ -581,8 +612,8 @@ export class AIAnalyzer {
         budgetAvailable: true
       });
 
-      // 5. Perform analysis
-      const result = await this.performQuestionAnalysis(request, trustScore || 50);
+      // 5. Perform analysis (one call per provider/model group)
+      const result = await this.performGroupedQuestionAnalysis(request, trustScore || 50);
 
       console.log('[AIAnalyzer] Question analysis complete:', {
         correlationId,
@@ -592,6 +623,7 @@ export class AIAnalyzer {
         tokensUsed: result.tokensUsed,
         cost: result.costUSD.toFixed(4),
         cacheTTL: result.cacheTTL,
+        groups: result.groups?.map(g => `${g.provider}/${g.model}:${g.questionIds.join(',')}`),
         answers: result.answers.map(a => ({
           id: a.questionId,
           answer: a.answer,
@@ -603,7 +635,19 @@ export class AIAnalyzer {
       // 6. Cache result with differential TTL
       const cacheTTL = getCacheTTLForTrustScore(trustScore || 50, false);
 
-      await this.cacheQuestionResult(userId, questionIdsHash, result, cacheTTL);
+      // A partial result (a provider group failed) isn't cached, so the
+      // missing questions are asked again next time
+      const answeredCount = result.groups?.reduce((count, g) => count + g.questionIds.length, 0) ?? questions.length;
+      if (answeredCount === questions.length) {
+        await this.cacheQuestionResult(userId, questionIdsHash, result, cacheTTL);
+      } else {
+        console.warn('[AIAnalyzer] Partial question analysis - not cached', {
+          userId,
+          correlationId,
+          answeredCount,
+          questionCount: questions.length,
+        });
+      }
 
       console.log('[AIAnalyzer] Question analysis complete', {
         userId,
@@ -849,76 +893,217 @@ export class AIAnalyzer {
     }
   }
 
+  /**
+   * Perform question-based AI analysis with one call per provider/model
+   *
+   * Groups the questions by their preferred provider/model and answers each
+   * group in one batched call (in parallel). If some groups fail, the answers
+   * of the others are still returned; their questions stay unanswered, so the
+   * rules depending on them are skipped. Throws only if every group fails.
+   *
+   * @param request - Complete question analysis request data
+   * @param trustScore - User trust score (0-100) for differential caching
+   * @returns Merged question batch result (with a per-call breakdown if there were several groups)
+   * @throws {Error} If every group failed
+   * @private
+   */
+  private async performGroupedQuestionAnalysis(
+    request: AIQuestionRequest,
+    trustScore: number
+  ): Promise<AIQuestionBatchResult> {
+    const groups = AIAnalyzer.groupQuestionsByRoute(request.questions);
+
+    if (groups.length === 1) {
+      return this.performQuestionAnalysis(request, trustScore, groups[0].route);
+    }
+
+    const startTime = Date.now();
+    const correlationId = request.context.correlationId;
+
+    const settled = await Promise.allSettled(
+      groups.map((group, index) =>
+        this.performQuestionAnalysis(
+          {
+            ...request,
+            questions: group.questions,
+            context: { ...request.context, correlationId: `${correlationId}:${index + 1}` },
+          },
+          trustScore,
+          group.route
+        )
+      )
+    );
+
+    const results: AIQuestionBatchResult[] = [];
+    const groupResults: AIQuestionGroupResult[] = [];
+    settled.forEach((outcome, index) => {
+      const questionIds = groups[index].questions.map(q => q.id);
+      if (outcome.status === 'fulfilled') {
+        results.push(outcome.value);
+        groupResults.push({
+          provider: outcome.value.provider,
+          model: outcome.value.model,
+          questionIds,
+          tokensUsed: outcome.value.tokensUsed,
+          costUSD: outcome.value.costUSD,
+        });
+      } else {
+        console.error('[AIAnalyzer] Question group failed', {
+          correlationId,
+          route: groups[index].route,
+          questionIds,
+          error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason),
+        });
+      }
+    });
+
+    if (results.length === 0) {
+      throw (settled[0] as PromiseRejectedResult).reason;
+    }
+
+    return {
+      ...results[0],
+      correlationId,
+      answers: results.flatMap(r => r.answers),
+      tokensUsed: results.reduce((sum, r) => sum + r.tokensUsed, 0),
+      costUSD: results.reduce((sum, r) => sum + r.costUSD, 0),
+      latencyMs: Date.now() - startTime,
+      groups: groupResults,
+    };
+  }
+
+  /**
+   * Group questions by preferred provider/model, in first-seen order
+   *
+   * @param questions - Questions to ask
+   * @returns One group per distinct provider/model (questions without a preference form one group)
+   * @private
+   */
+  private static groupQuestionsByRoute(
+    questions: AIQuestion[]
+  ): Array<{ route: QuestionRoute; questions: AIQuestion[] }> {
+    const groups = new Map<string, { route: QuestionRoute; questions: AIQuestion[] }>();
+
+    for (const question of questions) {
+      const key = question.provider ? `${question.provider}/${question.model ?? ''}` : 'default';
+      if (!groups.has(key)) {
+        groups.set(key, {
+          route: question.provider ? { provider: question.provider, model: question.model } : {},
+          questions: [],
+        });
+      }
+      groups.get(key)!.questions.push(question);
+    }
+
+    return Array.from(groups.values());
+  }
+
+  /**
+   * Estimate the cost of one question call for budget checks
+   *
+   * Questions without a preferred provider are priced at the most expensive
+   * default model, since the primary/fallback provider is only picked later.
+   *
+   * @param route - Preferred provider/model of the call
+   * @param questionCount - Number of questions in the call
+   * @returns Estimated cost in USD
+   * @private
+   */
+  private static estimateQuestionCallCost(route: QuestionRoute, questionCount: number): number {
+    const pricing = route.provider
+      ? getModelPricing(route.provider, route.model)
+      : (Object.keys(AI_CONFIG.providers) as AIProviderType[])
+          .map((provider) => getModelPricing(provider))
+          .reduce((priciest, candidate) =>
+            candidate.costPerMTokenOutput > priciest.costPerMTokenOutput ? candidate : priciest
+          );
+
+    const inputTokens =
+      AIAnalyzer.ESTIMATED_CALL_TOKENS.input + questionCount * AIAnalyzer.ESTIMATED_QUESTION_TOKENS.input;
+    const outputTokens =
+      AIAnalyzer.ESTIMATED_CALL_TOKENS.output + questionCount * AIAnalyzer.ESTIMATED_QUESTION_TOKENS.output;
+    return (inputTokens / 1_000_000) * pricing.costPerMTokenInput + (outputTokens / 1_000_000) * pricing.costPerMTokenOutput;
+  }
+
   /**
    * Perform question-based AI analysis by selecting provider and calling it
    *
    * Internal method that:
    * 1. Builds custom question prompt using promptManager
-   * 2. Selects best available AI provider
+   * 2. Tries the preferred provider/model (if any), then the primary and
+   *    fallback providers
    * 3. Calls provider to analyze with questions
-   * 4. Records cost in cost tracker
+   * 4. Records cost in cost tracker (attributed to provider, model and questions)
    * 5. Returns result with metadata
    *
    * Throws error if no provider is available or analysis fails.
    *
    * @param request - Complete question analysis request data
    * @param trustScore - User trust score (0-100) for differential caching
+   * @param route - Preferred provider/model of these questions
    * @returns Question batch result with answers
    * @throws {Error} If no provider available or analysis fails
    * @private
    */
   private async performQuestionAnalysis(
     request: AIQuestionRequest,
-    trustScore: number
+    trustScore: number,
+    route: QuestionRoute = {}
   ): Promise<AIQuestionBatchResult> {
     const startTime = Date.now();
 
     // Get settings
     const aiSettings = await SettingsService.getAIConfig(this.context);
-    let result: AIQuestionBatchResult;
-    let usedProvider: AIProviderType;
-    let usedModel: string;
-
-    // Try primary provider
-    try {
-      console.log('[AIAnalyzer] Trying primary provider for questions:', aiSettings.primaryProvider);
-      const primaryProvider = await this.getProvider(aiSettings.primaryProvider, aiSettings);
-
-      if (!primaryProvider.analyzeWithQuestions) {
-        throw new Error(`Provider ${aiSettings.primaryProvider} does not support question-based analysis`);
-      }
-
-      result = await primaryProvider.analyzeWithQuestions(request);
-      usedProvider = aiSettings.primaryProvider;
-      usedModel = this.getModelName(aiSettings.primaryProvider, aiSettings);
-      console.log('[AIAnalyzer] ✓ Primary provider succeeded for questions:', aiSettings.primaryProvider);
-    } catch (primaryError) {
-      // Primary failed, try fallback
-      console.warn('[AIAnalyzer] Primary provider failed for questions:', primaryError instanceof Error ? primaryError.message : String(primaryError));
-
-      if (!aiSettings.fallbackProvider || aiSettings.fallbackProvider === 'none') {
-        console.error('[AIAnalyzer] No fallback configured');
-        throw primaryError;
-      }
-
-      console.log('[AIAnalyzer] Trying fallback provider for questions:', aiSettings.fallbackProvider);
+    let result: AIQuestionBatchResult | undefined;
+    let usedProvider: AIProviderType | undefined;
+    let usedModel = 'unknown';
+    let lastError: unknown;
+
+    // Preferred provider/model first, then primary, then fallback
+    const candidates: QuestionRoute[] = [
+      ...(route.provider ? [route] : []),
+      { provider: aiSettings.primaryProvider },
+      ...(aiSettings.fallbackProvider && aiSettings.fallbackProvider !== 'none'
+        ? [{ provider: aiSettings.fallbackProvider }]
+        : []),
+    ].filter((candidate, index, all) =>
+      all.findIndex(other => other.provider === candidate.provider && other.model === candidate.model) === index
+    );
+
+    for (const candidate of candidates) {
+      const provider = candidate.provider!;
+      const model = this.getModelName(provider, aiSettings, candidate.model);
       try {
-        const fallbackProvider = await this.getProvider(aiSettings.fallbackProvider, aiSettings);
+        console.log('[AIAnalyzer] Trying provider for questions:', { provider, model });
+        const aiProvider = await this.getProvider(provider, aiSettings, candidate.model);
 
-        if (!fallbackProvider.analyzeWithQuestions) {
-          throw new Error(`Provider ${aiSettings.fallbackProvider} does not support question-based analysis`);
+        if (!aiProvider.analyzeWithQuestions) {
+          throw new Error(`Provider ${provider} does not support question-based analysis`);
         }
 
-        result = await fallbackProvider.analyzeWithQuestions(request);
-        usedProvider = aiSettings.fallbackProvider;
-        usedModel = this.getModelName(aiSettings.fallbackProvider, aiSettings);
-        console.log('[AIAnalyzer] ✓ Fallback provider succeeded for questions:', aiSettings.fallbackProvider);
-      } catch (fallbackError) {
-        console.error('[AIAnalyzer] Fallback provider also failed for questions:', fallbackError instanceof Error ? fallbackError.message : String(fallbackError));
-        throw fallbackError;
+        result = await aiProvider.analyzeWithQuestions(request);
+        usedProvider = provider;
+        usedModel = model;
+        console.log('[AIAnalyzer] ✓ Provider succeeded for questions:', { provider, model });
+        break;
+      } catch (error) {
+        console.warn('[AIAnalyzer] Provider failed for questions:', {
+          provider,
+          model,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        lastError = error;
       }
     }
 
+    if (!result || !usedProvider) {
+      console.error('[AIAnalyzer] All providers failed for questions', {
+        correlationId: request.context.correlationId,
+        candidates: candidates.map(candidate => candidate.provider),
+      });
+      throw lastError;
+    }
+
     // Record cost for budget tracking
     const costTracker = CostTracker.getInstance(this.context);
     await costTracker.recordCost({
@@ -929,11 +1114,14 @@ export class AIAnalyzer {
       tokensUsed: result.tokensUsed,
       costUSD: result.costUSD,
       cached: false, // This is a fresh analysis, not cached
+      model: usedModel,
+      questionIds: request.questions.map(q => q.id),
     });
 
     console.log('[AIAnalyzer] Cost recorded for questions', {
       correlationId: request.context.correlationId,
       provider: usedProvider,
+      model: usedModel,
       tokensUsed: result.tokensUsed,
       costUSD: result.costUSD.toFixed(4),
     });
@@ -1157,10 +1345,15 @@ export class AIAnalyzer {
    *
    * @param type - Provider type
    * @param aiSettings - AI settings from configuration
+   * @param model - Model override (e.g. from a rule's ai.model)
    * @returns Model name string
    * @private
    */
-  private getModelName(type: AIProviderType, aiSettings: any): string {
+  private getModelName(type: AIProviderType, aiSettings: any, model?: string): string {
+    if (model) {
+      return model;
+    }
+
     if (type === 'claude') {
       return 'claude-3-5-haiku-20241022';
     }
@@ -1176,19 +1369,19 @@ export class AIAnalyzer {
     return 'unknown';
   }
 
-  private async getProvider(type: AIProviderType, aiSettings: any): Promise<IAIProvider> {
+  private async getProvider(type: AIProviderType, aiSettings: any, model?: string): Promise<IAIProvider> {
     if (type === 'claude') {
       if (!aiSettings.claudeApiKey) {
         throw new Error('Claude API key not configured');
       }
-      return new ClaudeProvider(aiSettings.claudeApiKey);
+      return new ClaudeProvider(aiSettings.claudeApiKey, model);
     }
 
     if (type === 'openai') {
       if (!aiSettings.openaiApiKey) {
         throw new Error('OpenAI API key not configured');
       }
-      return new OpenAIProvider(aiSettings.openaiApiKey);
+      return new OpenAIProvider(aiSettings.openaiApiKey, model);
     }
 
     if (type === 'openai-compatible') {
@@ -1198,7 +1391,7 @@ export class AIAnalyzer {
       return new OpenAICompatibleProvider({
         apiKey: aiSettings.openaiCompatibleApiKey,
         baseURL: aiSettings.openaiCompatibleBaseURL,
-        model: aiSettings.openaiCompatibleModel,
+        model: model ?? aiSettings.openaiCompatibleModel,
       });
     }
 
@@ -54,7 +54,7 @@ import {
 import { aiResponseValidator } from './validator.js';
 import { AI_CONFIG } from '../config/ai.js';
 import { promptManager } from './prompts.js';
-import { getCacheTTLForTrustScore } from '../config/ai.js';
+import { getCacheTTLForTrustScore, getModelPricing } from '../config/ai.js';
 
 /**
  * Tool definition for Claude structured output
@@ -135,18 +135,19 @@ const ANALYSIS_TOOL = {
  */
 export class ClaudeProvider implements IAIProvider {
   readonly type: AIProviderType = 'claude';
-  readonly model = 'claude-3-5-haiku-20241022';
+  readonly model: string;
 
   private client: Anthropic;
-  private config = AI_CONFIG.providers.claude;
   private retryConfig = AI_CONFIG.retry;
 
   /**
    * Create Claude provider instance
    *
    * @param apiKey - Anthropic API key from Devvit Secrets Manager
+   * @param model - Model to use (defaults to claude-3-5-haiku-20241022)
    */
-  constructor(apiKey: string) {
+  constructor(apiKey: string, model: string = AI_CONFIG.providers.claude.model) {
+    this.model = model;
     this.client = new Anthropic({ apiKey });
   }
 
@@ -297,13 +298,16 @@ export class ClaudeProvider implements IAIProvider {
   /**
    * Calculate cost for token usage
    *
+   * Priced by the model this instance calls (see MODEL_PRICING).
+   *
    * @param inputTokens - Input tokens used
    * @param outputTokens - Output tokens used
    * @returns Cost in USD
    */
   calculateCost(inputTokens: number, outputTokens: number): number {
-    const inputCost = (inputTokens / 1_000_000) * this.config.costPerMTokenInput;
-    const outputCost = (outputTokens / 1_000_000) * this.config.costPerMTokenOutput;
+    const pricing = getModelPricing(this.type, this.model);
+    const inputCost = (inputTokens / 1_000_000) * pricing.costPerMTokenInput;
+    const outputCost = (outputTokens / 1_000_000) * pricing.costPerMTokenOutput;
     return inputCost + outputCost;
   }
 
@@ -26,6 +26,7 @@
  * - Atomic cost recording using INCRBYFLOAT (prevents read-modify-write races)
  * - Atomic budget reset using Lua scripts (ensures consistency across multiple keys)
  * - Per-provider cost tracking (Claude, OpenAI, DeepSeek)
+ * - Per-model cost attribution (rules can pick their own provider/model)
  * - Daily and monthly budget limits with alerts
  * - Cost auditing with 30-day retention
  * - Spending reports for budget analysis
@@ -179,6 +180,7 @@ export class CostTracker {
    * Updates:
    * - Daily total spending (in cents)
    * - Daily per-provider spending (in cents)
+   * - Daily per-provider/model spending (in cents, if the record has a model)
    * - Monthly total spending (in cents)
    * - Individual cost record (for auditing)
    *
@@ -213,6 +215,9 @@ export class CostTracker {
         this.redis.incrBy(GlobalKeys.costDaily(today), costCents),
         this.redis.incrBy(GlobalKeys.costDailyProvider(today, record.provider), costCents),
         this.redis.incrBy(GlobalKeys.costMonthly(month), costCents),
+        ...(record.model
+          ? [this.redis.hIncrBy(GlobalKeys.costDailyModels(today), `${record.provider}:${record.model}`, costCents)]
+          : []),
 
         // Store individual record for auditing (TTL: 30 days)
         this.redis.set(
@@ -317,6 +322,46 @@ export class CostTracker {
     }
   }
 
+  /**
+   * Get one day's spending per provider/model
+   *
+   * Attributes costs to the models that produced them, e.g. to see what the
+   * questions routed to a stronger model cost compared to the default one.
+   *
+   * @param date - Day to report (YYYY-MM-DD, defaults to today)
+   * @returns Spending per provider/model, most expensive first
+   *
+   * @example
+   * ```typescript
+   * const models = await costTracker.getModelSpending();
+   * models.forEach(m => console.log(`${m.provider}/${m.model}: $${m.totalUSD.toFixed(2)}`));
+   * ```
+   */
+  public async getModelSpending(
+    date: string = new Date().toISOString().split('T')[0]
+  ): Promise<Array<{ provider: AIProviderType; model: string; totalUSD: number }>> {
+    try {
+      const perModel = await this.redis.hGetAll(GlobalKeys.costDailyModels(date));
+
+      return Object.entries(perModel ?? {})
+        .map(([key, cents]) => {
+          const separator = key.indexOf(':');
+          return {
+            provider: key.slice(0, separator) as AIProviderType,
+            model: key.slice(separator + 1),
+            totalUSD: centsToUSD(parseInt(cents || '0')),
+          };
+        })
+        .sort((a, b) => b.totalUSD - a.totalUSD);
+    } catch (error) {
+      console.error('Failed to get model spending', {
+        error: error instanceof Error ? error.message : String(error),
+        date,
+      });
+      return [];
+    }
+  }
+
   /**
    * Reset daily budget using sequential operations
    *
@@ -355,6 +400,7 @@ export class CostTracker {
         this.redis.del(GlobalKeys.costDailyProvider(yesterday, 'claude')),
         this.redis.del(GlobalKeys.costDailyProvider(yesterday, 'openai')),
         this.redis.del(GlobalKeys.costDailyProvider(yesterday, 'openai-compatible')),
+        this.redis.del(GlobalKeys.costDailyModels(yesterday)),
       ]);
 
       // Initialize today's keys to '0' if they don't exist
@@ -56,7 +56,7 @@ import {
 import { aiResponseValidator } from './validator.js';
 import { AI_CONFIG } from '../config/ai.js';
 import { promptManager } from './prompts.js';
-import { getCacheTTLForTrustScore } from '../config/ai.js';
+import { getCacheTTLForTrustScore, getModelPricing } from '../config/ai.js';
 
 /**
  * OpenAI GPT-4o Mini Provider
@@ -66,18 +66,19 @@ import { getCacheTTLForTrustScore } from '../config/ai.js';
  */
 export class OpenAIProvider implements IAIProvider {
   readonly type: AIProviderType = 'openai';
-  readonly model = 'gpt-4o-mini';
+  readonly model: string;
 
   private client: OpenAI;
-  private config = AI_CONFIG.providers.openai;
   private retryConfig = AI_CONFIG.retry;
 
   /**
    * Create OpenAI provider instance
    *
    * @param apiKey - OpenAI API key from Devvit Secrets Manager
+   * @param model - Model to use (defaults to gpt-4o-mini)
    */
-  constructor(apiKey: string) {
+  constructor(apiKey: string, model: string = AI_CONFIG.providers.openai.model) {
+    this.model = model;
     this.client = new OpenAI({ apiKey });
   }
 
@@ -411,13 +412,16 @@ export class OpenAIProvider implements IAIProvider {
   /**
    * Calculate cost for token usage
    *
+   * Priced by the model this instance calls (see MODEL_PRICING).
+   *
    * @param inputTokens - Input tokens used
    * @param outputTokens - Output tokens used
    * @returns Cost in USD
    */
   calculateCost(inputTokens: number, outputTokens: number): number {
-    const inputCost = (inputTokens / 1_000_000) * this.config.costPerMTokenInput;
-    const outputCost = (outputTokens / 1_000_000) * this.config.costPerMTokenOutput;
+    const pricing = getModelPricing(this.type, this.model);
+    const inputCost = (inputTokens / 1_000_000) * pricing.costPerMTokenInput;
+    const outputCost = (outputTokens / 1_000_000) * pricing.costPerMTokenOutput;
     return inputCost + outputCost;
   }
 
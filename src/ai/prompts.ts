@@ -60,7 +60,7 @@
  */
 
 import { RedisClient } from '@devvit/public-api';
-import { PromptVersion, AIQuestion } from '../types/ai.js';
+import { PromptVersion, AIQuestion, AIPostMetadata, AIThreadContext } from '../types/ai.js';
 import { UserProfile, UserPostHistory, PostHistoryItem } from '../types/profile.js';
 import { contentSanitizer } from './sanitizer.js';
 import crypto from 'crypto';
@@ -318,6 +318,10 @@ export interface QuestionPromptBuildParams {
     title: string;
     body: string;
     subreddit: string;
+    /** Post metadata (flair, NSFW, spoiler, crosspost, link, gallery) */
+    metadata?: AIPostMetadata;
+    /** Thread the comment belongs to (comments only) */
+    thread?: AIThreadContext;
   };
   /** Array of custom questions to answer */
   questions: AIQuestion[];
@@ -596,6 +600,9 @@ export class PromptManager {
         : '0.0'
     });
 
+    // Thread section (comments only) with the post and parent comment
+    const threadSection = this.formatThread(params.currentPost.thread);
+
     // Build user context section
     const userContext = `USER PROFILE:
 - Username: ${params.profile.username}
@@ -606,9 +613,9 @@ export class PromptManager {
 
 POSTING HISTORY (most recent posts/comments - up to 200 items):
 ${historyResult.sanitizedContent}
-
+${threadSection}
 CURRENT POST:
-Subreddit: ${params.currentPost.subreddit}
+Subreddit: ${params.currentPost.subreddit}${this.formatPostMetadata(params.currentPost.metadata)}
 Title: ${titleResult.sanitizedContent}
 Body: ${bodyResult.sanitizedContent}`;
 
@@ -683,6 +690,75 @@ Important:
     };
   }
 
+  /**
+   * Format the thread a comment belongs to as a prompt section
+   *
+   * The post and parent comment are written by other users, so they are
+   * sanitized like the comment itself.
+   *
+   * @param thread - Thread context (undefined for posts)
+   * @returns Section text ending with a blank line, or '' for posts
+   */
+  private formatThread(thread?: AIThreadContext): string {
+    if (!thread) {
+      return '';
+    }
+
+    const postTitle = contentSanitizer.sanitize(thread.postTitle).sanitizedContent;
+    const postBody = contentSanitizer.sanitize(thread.postBody).sanitizedContent;
+    const replyingTo = thread.parentCommentBody !== undefined
+      ? `Parent comment (the comment being replied to): ${contentSanitizer.sanitize(thread.parentCommentBody).sanitizedContent}`
+      : 'Replying to: the post directly (top-level comment)';
+
+    return `
+THREAD (the current content is a comment in this thread):
+Post title: ${postTitle}
+Post body: ${postBody}
+${replyingTo}
+Comment author is the post author (OP): ${thread.authorIsOP ? 'Yes' : 'No'}
+`;
+  }
+
+  /**
+   * Format post metadata as extra lines of the CURRENT POST section
+   *
+   * Flair text and link path are user-controlled, so they are sanitized like
+   * the title and body.
+   *
+   * @param metadata - Post metadata (undefined for comments)
+   * @returns Lines to append (each starting with a newline), or '' if there is nothing to add
+   */
+  private formatPostMetadata(metadata?: AIPostMetadata): string {
+    if (!metadata) {
+      return '';
+    }
+
+    const lines: string[] = [];
+    if (metadata.type) {
+      lines.push(`Post type: ${metadata.type}`);
+    }
+    if (metadata.flairText) {
+      lines.push(`Flair: ${contentSanitizer.sanitize(metadata.flairText).sanitizedContent}`);
+    }
+    if (metadata.nsfw !== undefined) {
+      lines.push(`Marked NSFW: ${metadata.nsfw ? 'Yes' : 'No'}`);
+    }
+    if (metadata.spoiler) {
+      lines.push('Marked as spoiler: Yes');
+    }
+    if (metadata.crosspostSubreddit) {
+      lines.push(`Crossposted from: r/${metadata.crosspostSubreddit}`);
+    }
+    if (metadata.linkPath) {
+      lines.push(`Link path: ${contentSanitizer.sanitize(metadata.linkPath).sanitizedContent}`);
+    }
+    if (metadata.galleryCount) {
+      lines.push(`Gallery items: ${metadata.galleryCount}`);
+    }
+
+    return lines.map((line) => `\n${line}`).join('');
+  }
+
   /**
    * Format post history into readable text for the prompt
    *
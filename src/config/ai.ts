@@ -36,6 +36,7 @@ import {
   AIConfig,
   AIProviderType,
   DegradationLevel,
+  ModelPricing,
 } from '../types/ai.js';
 
 /**
@@ -257,6 +258,68 @@ export const AI_CONFIG: AIConfig = {
   degradationLevel: DegradationLevel.FULL,
 };
 
+/**
+ * Token pricing per model
+ *
+ * Rules can route AI questions to any of these models (`ai.model`), so cost
+ * tracking and budget checks price each call by the model it actually used.
+ * OpenAI-compatible endpoints are priced from their settings instead, since
+ * their models aren't known in advance.
+ *
+ * Prices are USD per million input / output tokens, from the providers' pricing pages.
+ */
+export const MODEL_PRICING: Partial<Record<AIProviderType, Record<string, ModelPricing>>> = {
+  claude: {
+    'claude-3-5-haiku-20241022': { costPerMTokenInput: 1.0, costPerMTokenOutput: 5.0 },
+    'claude-haiku-4-5': { costPerMTokenInput: 1.0, costPerMTokenOutput: 5.0 },
+    'claude-3-7-sonnet-20250219': { costPerMTokenInput: 3.0, costPerMTokenOutput: 15.0 },
+    'claude-sonnet-4-20250514': { costPerMTokenInput: 3.0, costPerMTokenOutput: 15.0 },
+    'claude-sonnet-4-5': { costPerMTokenInput: 3.0, costPerMTokenOutput: 15.0 },
+    'claude-opus-4-1': { costPerMTokenInput: 15.0, costPerMTokenOutput: 75.0 },
+  },
+  openai: {
+    'gpt-4o-mini': { costPerMTokenInput: 0.15, costPerMTokenOutput: 0.6 },
+    'gpt-4o': { costPerMTokenInput: 2.5, costPerMTokenOutput: 10.0 },
+    'gpt-4.1-nano': { costPerMTokenInput: 0.1, costPerMTokenOutput: 0.4 },
+    'gpt-4.1-mini': { costPerMTokenInput: 0.4, costPerMTokenOutput: 1.6 },
+    'gpt-4.1': { costPerMTokenInput: 2.0, costPerMTokenOutput: 8.0 },
+  },
+};
+
+/**
+ * Get the token pricing of a provider's model
+ *
+ * @param providerType - The AI provider
+ * @param model - Model ID (defaults to the provider's configured model)
+ * @returns Pricing from MODEL_PRICING, or the provider's configured pricing
+ *
+ * @example
+ * getModelPricing('claude', 'claude-sonnet-4-5').costPerMTokenInput; // 3.0
+ */
+export function getModelPricing(providerType: AIProviderType, model?: string): ModelPricing {
+  const pricing = MODEL_PRICING[providerType]?.[model ?? AI_CONFIG.providers[providerType].model];
+  if (pricing) {
+    return pricing;
+  }
+
+  const { costPerMTokenInput, costPerMTokenOutput } = AI_CONFIG.providers[providerType];
+  return { costPerMTokenInput, costPerMTokenOutput };
+}
+
+/**
+ * Check whether a model can be priced for a provider
+ *
+ * Providers without a pricing table (OpenAI-compatible) accept any model.
+ *
+ * @param providerType - The AI provider
+ * @param model - Model ID
+ * @returns true if the model is in MODEL_PRICING or the provider has no table
+ */
+export function isKnownModel(providerType: AIProviderType, model: string): boolean {
+  const table = MODEL_PRICING[providerType];
+  return !table || model in table;
+}
+
 /**
  * Get provider configuration by type
  *
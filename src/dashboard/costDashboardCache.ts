@@ -61,8 +61,11 @@ interface RequestCounts {
  * Complete dashboard data structure
  */
 interface DashboardData {
-  /** Today's costs and request counts */
-  daily: CostSummary & { requests: RequestCounts };
+  /** Today's costs and request counts (with spending per provider/model) */
+  daily: CostSummary & {
+    requests: RequestCounts;
+    models: Array<{ provider: string; model: string; totalUSD: number }>;
+  };
   /** This month's costs and request counts */
   monthly: CostSummary & { requests: RequestCounts };
   /** Current settings configuration */
@@ -199,6 +202,9 @@ export class CostDashboardCache {
         'openai-compatible': dailyDeepSeek,
       };
 
+      // Spending per provider/model (rules can route questions to other models)
+      const dailyModels = await costTracker.getModelSpending();
+
       // Fetch monthly costs per provider
       const [monthlyClaude, monthlyOpenAI, monthlyDeepSeek] = await Promise.all([
         this.getMonthlyCost(costTracker, 'claude'),
@@ -234,6 +240,7 @@ export class CostDashboardCache {
           ...dailyCosts,
           total: dailyCosts.claude + dailyCosts.openai + dailyCosts['openai-compatible'],
           requests: dailyRequests,
+          models: dailyModels,
         },
         monthly: {
           ...monthlyCosts,
@@ -260,6 +267,7 @@ export class CostDashboardCache {
           'openai-compatible': 0,
           total: 0,
           requests: { claude: 0, openai: 0, 'openai-compatible': 0, total: 0 },
+          models: [],
         },
         monthly: {
           claude: 0,
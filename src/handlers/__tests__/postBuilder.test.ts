@@ -0,0 +1,150 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Tests for building CurrentPost objects from Reddit posts
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { PostBuilder } from '../postBuilder.js';
+
+/**
+ * Minimal stand-in for the Post fields PostBuilder reads
+ */
+function createPost(overrides: object = {}): any {
+  return {
+    id: 't3_abc',
+    title: 'Weekly meetup',
+    body: '',
+    url: 'https://www.youtube.com/watch?v=xyz',
+    permalink: '/r/testsubreddit/comments/abc/weekly_meetup/',
+    subredditName: 'testsubreddit',
+    edited: false,
+    nsfw: false,
+    spoiler: false,
+    flair: undefined,
+    gallery: [],
+    ...overrides,
+  };
+}
+
+describe('PostBuilder', () => {
+  it('should extract flair, NSFW, spoiler, link path and gallery count', () => {
+    const currentPost = PostBuilder.buildCurrentPost(
+      createPost({ nsfw: true, flair: { text: 'Meetup', templateId: 'tmpl-1', richtext: [] } }),
+      'othersub'
+    );
+
+    expect(currentPost).toMatchObject({
+      type: 'video',
+      flairText: 'Meetup',
+      flairTemplateId: 'tmpl-1',
+      nsfw: true,
+      spoiler: false,
+      crosspostSubreddit: 'othersub',
+      galleryCount: 0,
+    });
+    expect(currentPost.linkPath).toBeUndefined();
+
+    const linkPost = PostBuilder.buildCurrentPost(createPost({ url: 'https://example.com/deals/today?ref=1' }));
+    expect(linkPost.linkPath).toBe('/deals/today');
+    expect(linkPost.flairText).toBeUndefined();
+    expect(linkPost.crosspostSubreddit).toBeUndefined();
+
+    const gallery = PostBuilder.buildCurrentPost(
+      createPost({ url: 'https://www.reddit.com/gallery/abc', gallery: [{}, {}, {}], spoiler: true })
+    );
+    expect(gallery.galleryCount).toBe(3);
+    expect(gallery.spoiler).toBe(true);
+  });
+
+  it('should find the original subreddit of crossposts', async () => {
+    const reddit: any = {
+      getPostById: jest.fn(async (id: string) => ({ id, subredditName: id === 't3_orig' ? 'othersub' : 'unknown' })),
+    };
+
+    // From the PostSubmit event, and from the crosspost URL elsewhere (rule tests)
+    expect(await PostBuilder.getCrosspostSubreddit(reddit, createPost(), 't3_orig')).toBe('othersub');
+    expect(
+      await PostBuilder.getCrosspostSubreddit(reddit, createPost({ url: '/r/othersub/comments/orig/weekly_meetup/' }))
+    ).toBe('othersub');
+    expect(reddit.getPostById).toHaveBeenCalledWith('t3_orig');
+
+    // A link to a Reddit thread isn't a crosspost
+    reddit.getPostById.mockClear();
+    expect(
+      await PostBuilder.getCrosspostSubreddit(
+        reddit,
+        createPost({ url: 'https://www.reddit.com/r/othersub/comments/orig/weekly_meetup/' })
+      )
+    ).toBeUndefined();
+    expect(reddit.getPostById).not.toHaveBeenCalled();
+  });
+
+  it('should only pass post metadata to AI prompts for posts', () => {
+    const post = PostBuilder.buildCurrentPost(createPost({ flair: { text: 'Meetup', richtext: [] } }));
+    const comment = PostBuilder.buildCurrentComment({ body: 'Nice', subredditName: 'testsubreddit' } as any);
+
+    expect(PostBuilder.getAIMetadata(post)).toEqual({
+      type: 'video',
+      flairText: 'Meetup',
+      nsfw: false,
+      spoiler: false,
+      crosspostSubreddit: undefined,
+      linkPath: undefined,
+      galleryCount: undefined,
+    });
+    expect(PostBuilder.getAIMetadata(comment)).toBeUndefined();
+  });
+
+  describe('Text stats', () => {
+    it('should measure caps, emoji, repeated characters and lines', () => {
+      const stats = PostBuilder.buildTextStats(
+        PostBuilder.buildCurrentPost(createPost({ title: 'FREE MONEY', body: 'Click now!!!!! 🚀🚀🚀\n\nsooooo easy' }))
+      );
+
+      expect(stats).toMatchObject({
+        emojiCount: 3,
+        longestCharRun: 5,
+        repeatedCharRuns: 2,
+        lineCount: 3,
+        markdownLinkCount: 0,
+        linkToTextRatio: 0,
+      });
+      expect(stats.capsRatio).toBeCloseTo(10 / 27, 2);
+    });
+
+    it('should measure links and guess the language', () => {
+      const english = PostBuilder.buildTextStats(
+        PostBuilder.buildCurrentComment({
+          body: 'This is what you need: [deal](https://spam.example/deal) and https://spam.example/more',
+          subredditName: 'testsubreddit',
+        } as any)
+      );
+      expect(english.markdownLinkCount).toBe(1);
+      expect(english.linkToTextRatio).toBeGreaterThan(0.5);
+      expect(english.language).toBe('en');
+
+      const stats = (body: string) => PostBuilder.buildTextStats(PostBuilder.buildCurrentPost(createPost({ title: '', body })));
+      expect(stats('Hola, ¿qué tal? Busco gente para salir por la ciudad y con buen humor').language).toBe('es');
+      expect(stats('Привет всем, ищу друзей для прогулок').language).toBe('ru');
+      expect(stats('こんにちは、友達を探しています').language).toBe('ja');
+      expect(stats('12345 !!!').language).toBe('unknown');
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Tests for building comment thread context
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ThreadBuilder } from '../threadBuilder.js';
+import { THREAD_MAX_DEPTH } from '../../types/rules.js';
+
+const postCreatedAt = new Date('2025-01-01T00:00:00Z');
+
+/**
+ * Create a comment replying to parentId, posted hoursAfterPost after the post
+ */
+function createComment(id: string, parentId: string, authorId: string, hoursAfterPost = 2): any {
+  return {
+    id,
+    parentId,
+    postId: 't3_post',
+    authorId,
+    body: `Body of ${id}`,
+    createdAt: new Date(postCreatedAt.getTime() + hoursAfterPost * 60 * 60 * 1000),
+  };
+}
+
+/**
+ * Minimal Reddit client serving one post and a set of comments
+ */
+function createReddit(comments: any[]): any {
+  return {
+    getPostById: async () => ({
+      id: 't3_post',
+      title: 'Looking for hiking buddies',
+      body: 'Anyone near Denver?',
+      authorId: 't2_op',
+      createdAt: postCreatedAt,
+    }),
+    getCommentById: async (id: string) => {
+      const comment = comments.find((candidate) => candidate.id === id);
+      if (!comment) {
+        throw new Error(`Comment ${id} not found`);
+      }
+      return comment;
+    },
+  };
+}
+
+describe('ThreadBuilder', () => {
+  it('should describe a top-level comment', async () => {
+    const comment = createComment('t1_a', 't3_post', 't2_op', 1.5);
+
+    const thread = await ThreadBuilder.buildThreadContext(createReddit([]), comment);
+
+    expect(thread).toEqual({
+      postTitle: 'Looking for hiking buddies',
+      postBody: 'Anyone near Denver?',
+      parentCommentBody: undefined,
+      depth: 0,
+      isTopLevel: true,
+      authorIsOP: true,
+      ageInHours: 1.5,
+    });
+  });
+
+  it('should find the parent comment and reply depth', async () => {
+    const topLevel = createComment('t1_a', 't3_post', 't2_op');
+    const reply = createComment('t1_b', 't1_a', 't2_other');
+    const nested = createComment('t1_c', 't1_b', 't2_third');
+
+    const thread = await ThreadBuilder.buildThreadContext(createReddit([topLevel, reply]), nested);
+
+    expect(thread).toMatchObject({
+      parentCommentBody: 'Body of t1_b',
+      depth: 2,
+      isTopLevel: false,
+      authorIsOP: false,
+    });
+    expect(ThreadBuilder.getAIThread(thread)).toEqual({
+      postTitle: 'Looking for hiking buddies',
+      postBody: 'Anyone near Denver?',
+      parentCommentBody: 'Body of t1_b',
+      authorIsOP: false,
+    });
+  });
+
+  it('should cap the depth lookup and fail soft', async () => {
+    const chain = Array.from({ length: 15 }, (_, index) =>
+      createComment(`t1_${index}`, index === 0 ? 't3_post' : `t1_${index - 1}`, 't2_other')
+    );
+
+    const deep = await ThreadBuilder.buildThreadContext(createReddit(chain), chain[14]);
+    expect(deep?.depth).toBe(THREAD_MAX_DEPTH);
+
+    const orphan = createComment('t1_orphan', 't1_missing', 't2_other');
+    expect(await ThreadBuilder.buildThreadContext(createReddit([]), orphan)).toBeUndefined();
+  });
+});
@@ -36,10 +36,14 @@ import { ModAction } from '../types/storage.js';
 import { executeAction } from '../actions/executor.js';
 import { SettingsService } from '../config/settingsService.js';
 import { sendRealtimeDigest } from '../notifications/modmailDigest.js';
-import { CurrentPost } from '../types/profile.js';
+import { PostBuilder } from './postBuilder.js';
+import { ThreadBuilder } from './threadBuilder.js';
 import { executeModerationPipeline } from '../moderation/pipeline.js';
 import { CommunityTrustManager } from '../trust/communityTrustManager';
 import { getApprovedUsers, getModerators } from '../utils/userCache.js';
+import { recordActivity, getActivityCounts } from '../storage/activityTracker.js';
+import { recordStrike } from '../storage/strikes.js';
+import { recordRuleAction } from '../storage/ruleStats.js';
 
 // Singleton rate limiter shared across all handler invocations
 const rateLimiter = new RateLimiter();
@@ -126,6 +130,9 @@ export async function handleCommentSubmit(
   const { getSettingsVersion } = await import('../storage/keyBuilder.js');
   const settingsVersion = await getSettingsVersion(context);
 
+  // Count this comment in the author's activity counters (activity.* rule fields)
+  await recordActivity(redis, userId, subredditName, 'comment', commentId, settingsVersion);
+
   // Initialize profiling services
   const profileFetcher = new UserProfileFetcher(redis, reddit, rateLimiter, settingsVersion);
   const historyAnalyzer = new PostHistoryAnalyzer(redis, reddit, rateLimiter, settingsVersion);
@@ -161,22 +168,10 @@ export async function handleCommentSubmit(
   );
 
   // 1. Build CurrentPost-compatible object for comments (needed for both pipeline and rules)
-  // Note: Comments don't have all fields posts have, provide safe defaults
-  const currentPost: CurrentPost = {
-    title: '', // Comments don't have titles
-    body: body,
-    subreddit: subredditName,
-    type: 'text', // Comments are always text
-    urls: [], // Could extract URLs from body if needed
-    domains: [],
-    wordCount: body.split(/\s+/).filter(Boolean).length,
-    charCount: body.length,
-    bodyLength: body.length,
-    titleLength: 0,
-    hasMedia: false,
-    linkUrl: undefined,
-    isEdited: false, // Comment API doesn't easily expose edit status
-  };
+  const currentPost = PostBuilder.buildCurrentComment(comment);
+
+  // Thread the comment replies in (thread.* rule fields and AI prompt context)
+  const thread = await ThreadBuilder.buildThreadContext(reddit, comment);
 
   // ===== Execute Moderation Pipeline (Layers 1-2) =====
   const correlationId = `comment-${commentId}-${Date.now()}`;
@@ -400,6 +395,7 @@ export async function handleCommentSubmit(
         title: '', // No title for comments
         body: currentPost.body,
         subreddit: currentPost.subreddit,
+        thread: ThreadBuilder.getAIThread(thread),
       };
 
       // Run AI analysis
@@ -433,11 +429,15 @@ export async function handleCommentSubmit(
   }
 
   // 4. Build evaluation context
+  const activity = await getActivityCounts(redis, userId, subredditName, settingsVersion);
   const evalContext: RuleEvaluationContext = {
     profile,
     postHistory: history,
     currentPost,
     aiAnalysis,
+    activity,
+    thread,
+    textStats: PostBuilder.buildTextStats(currentPost),
     subreddit: subredditName,
   };
 
@@ -487,6 +487,26 @@ export async function handleCommentSubmit(
     pipelineInfo: layer3PipelineInfo,
   });
 
+  // Count a strike for escalating rules once the action was really taken
+  if (ruleResult.strike && ruleResult.matchedRule && executionResult.success && !effectiveDryRun) {
+    await recordStrike(
+      redis,
+      userId,
+      ruleResult.matchedRule,
+      commentId,
+      ruleResult.strike.expireDays,
+      settingsVersion
+    );
+  }
+
+  // Count the action in the rule's statistics (also enables override tracking)
+  if (ruleResult.matchedRules?.length && executionResult.success && !effectiveDryRun) {
+    const executedActions = executionResult.subActions
+      ?.filter((result) => result.success)
+      .map((result) => result.action) ?? [ruleResult.action];
+    await recordRuleAction(redis, ruleResult.matchedRule, commentId, executedActions);
+  }
+
   // Log to audit trail
   const auditAction = executionResult.success
     ? (ruleResult.action === 'APPROVE'
@@ -497,7 +517,17 @@ export async function handleCommentSubmit(
             ? ModAction.REMOVE
             : ruleResult.action === 'COMMENT'
               ? ModAction.COMMENT
-              : ModAction.FLAG) // Unknown actions become FLAG in audit
+              : ruleResult.action === 'BAN'
+                ? ModAction.BAN
+                : ruleResult.action === 'MUTE'
+                  ? ModAction.MUTE
+                  : ruleResult.action === 'LOCK'
+                    ? ModAction.LOCK
+                    : ruleResult.action === 'SPAM'
+                      ? ModAction.SPAM
+                      : ruleResult.action === 'SET_FLAIR'
+                        ? ModAction.SET_FLAIR
+                        : ModAction.FLAG) // Unknown actions become FLAG in audit
     : ModAction.FLAG; // Failed actions become FLAG for manual review
 
   const auditLog = await auditLogger.log({
@@ -514,6 +544,17 @@ export async function handleCommentSubmit(
       executionSuccess: executionResult.success,
       executionError: executionResult.error,
       executionDetails: executionResult.details,
+      matchedRules: ruleResult.matchedRules?.map((match) => match.ruleId),
+      evaluationMode: ruleResult.evaluationMode,
+      shadowMatches: ruleResult.shadowMatches?.map((match) => match.ruleId),
+      strike: ruleResult.strike?.count,
+      tags: ruleResult.tags,
+      score: ruleResult.score?.total,
+      actionResults: executionResult.subActions?.map((result) => ({
+        action: result.action,
+        success: result.success,
+        error: result.error,
+      })),
       bodyPreview: body.substring(0, 200),
     },
   });
@@ -546,10 +587,10 @@ export async function handleCommentSubmit(
       trustAction = 'APPROVE';
     } else if (ruleResult.action === 'FLAG') {
       trustAction = 'FLAG';
-    } else if (ruleResult.action === 'REMOVE') {
+    } else if (ruleResult.action === 'REMOVE' || ruleResult.action === 'SPAM' || ruleResult.action === 'BAN') {
       trustAction = 'REMOVE';
     }
-    // COMMENT action results in trustAction = null (no update)
+    // COMMENT, MUTE, LOCK and SET_FLAIR result in trustAction = null (no update)
 
     if (trustAction) {
       await trustManager.updateTrust(userId, subredditName, trustAction, 'comment');
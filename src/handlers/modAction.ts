@@ -25,6 +25,9 @@
  *
  * Any removal of tracked content (approved by bot OR mod) applies a trust penalty.
  *
+ * Both kinds of action are also checked against the rule that acted on the
+ * content, counting mod overrides in the per-rule statistics.
+ *
  * Flow for Approvals:
  * 1. Detects approval actions (approvelink, approvecomment)
  * 2. Extracts author and subreddit from event
@@ -51,6 +54,7 @@
 import { TriggerContext, TriggerEvent } from '@devvit/public-api';
 import { CommunityTrustManager } from '../trust/communityTrustManager';
 import type { ApprovedContentRecord } from '../types/communityTrust';
+import { recordModOverride } from '../storage/ruleStats.js';
 
 /**
  * Handle ModAction events
@@ -125,6 +129,12 @@ export async function handleModAction(
       `[ModAction] Detected ${action} on ${contentType} ${contentId} by mod u/${moderatorName}`
     );
 
+    // Count reversals of rule removals/approvals in the rule statistics
+    const overriddenRule = await recordModOverride(redis, contentId, isApproval ? 'approve' : 'remove');
+    if (overriddenRule) {
+      console.log(`[ModAction] u/${moderatorName} overrode rule ${overriddenRule} on ${contentType} ${contentId}`);
+    }
+
     // Handle approval actions
     if (isApproval) {
       console.log(`[ModAction] Processing manual approval of ${contentType} ${contentId}`);
@@ -20,13 +20,55 @@
  * Post builder helper for creating CurrentPost objects
  *
  * Provides utilities to build CurrentPost objects from Reddit Post instances,
- * extracting URLs, domains, word counts, and other metadata needed for rule evaluation.
+ * extracting URLs, domains, word counts, flair, NSFW/spoiler marks, and other
+ * metadata needed for rule evaluation.
  *
  * @module handlers/postBuilder
  */
 
-import { Post } from '@devvit/public-api';
+import { Post, Comment, RedditAPIClient } from '@devvit/public-api';
 import { CurrentPost } from '../types/profile.js';
+import { AIPostMetadata } from '../types/ai.js';
+import { TextStats } from '../types/rules.js';
+
+/**
+ * A crosspost's URL: the relative permalink of the original post
+ */
+const CROSSPOST_URL_REGEX = /^\/r\/[A-Za-z0-9_]+\/comments\/([a-z0-9]+)\//i;
+
+/**
+ * Minimum run length counted by textStats.repeatedCharRuns
+ */
+const REPEATED_RUN_MIN_LENGTH = 4;
+
+/**
+ * Common words per language, used to guess the language of Latin-script text
+ */
+const LANGUAGE_STOPWORDS: Record<string, Set<string>> = {
+  en: new Set(['the', 'and', 'is', 'are', 'you', 'that', 'this', 'with', 'for', 'have', 'not', 'it', 'was', 'what']),
+  es: new Set(['el', 'la', 'los', 'las', 'que', 'de', 'y', 'es', 'por', 'para', 'con', 'una', 'pero', 'muy']),
+  fr: new Set(['le', 'la', 'les', 'et', 'est', 'que', 'des', 'une', 'pour', 'pas', 'avec', 'vous', 'je', 'dans']),
+  de: new Set(['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'ein', 'eine', 'mit', 'zu', 'auch', 'sie', 'auf']),
+  pt: new Set(['o', 'os', 'as', 'que', 'de', 'e', 'é', 'não', 'um', 'uma', 'para', 'com', 'você', 'mas']),
+  it: new Set(['il', 'che', 'di', 'e', 'è', 'non', 'un', 'una', 'per', 'con', 'sono', 'ma', 'gli', 'della']),
+  nl: new Set(['de', 'het', 'een', 'en', 'is', 'niet', 'ik', 'van', 'dat', 'je', 'op', 'met', 'zijn', 'voor']),
+};
+
+/**
+ * Languages identified by their script alone (checked in order)
+ * Cyrillic is reported as Russian and Han without kana as Chinese.
+ */
+const SCRIPT_LANGUAGES: Array<[RegExp, string]> = [
+  [/[\p{Script=Hiragana}\p{Script=Katakana}]/gu, 'ja'],
+  [/\p{Script=Hangul}/gu, 'ko'],
+  [/\p{Script=Han}/gu, 'zh'],
+  [/\p{Script=Cyrillic}/gu, 'ru'],
+  [/\p{Script=Arabic}/gu, 'ar'],
+  [/\p{Script=Hebrew}/gu, 'he'],
+  [/\p{Script=Greek}/gu, 'el'],
+  [/\p{Script=Devanagari}/gu, 'hi'],
+  [/\p{Script=Thai}/gu, 'th'],
+];
 
 /**
  * Helper class for building CurrentPost objects from Reddit posts
@@ -41,7 +83,11 @@ export class PostBuilder {
    * suitable for rule evaluation. Handles edge cases like deleted content,
    * malformed URLs, and empty posts gracefully.
    *
+   * The Post model doesn't expose a crosspost's original post, so its
+   * subreddit is looked up separately (see getCrosspostSubreddit).
+   *
    * @param post - Reddit Post object from Devvit API
+   * @param crosspostSubreddit - Subreddit of the original post, for crossposts
    * @returns CurrentPost object with extracted metadata
    *
    * @example
@@ -51,7 +97,7 @@ export class PostBuilder {
    * console.log(`Post has ${currentPost.wordCount} words`);
    * ```
    */
-  static buildCurrentPost(post: Post): CurrentPost {
+  static buildCurrentPost(post: Post, crosspostSubreddit?: string): CurrentPost {
     try {
       // Validate input
       if (!post || !post.id) {
@@ -86,6 +132,8 @@ export class PostBuilder {
       const wordCount = this.countWords(fullText);
       const charCount = fullText.length;
 
+      const linkUrl = type === 'link' ? post.url : undefined;
+
       // Build CurrentPost object
       const currentPost: CurrentPost = {
         title,
@@ -99,8 +147,15 @@ export class PostBuilder {
         bodyLength: charCount, // Alias for charCount
         titleLength: title.length,
         hasMedia: this.hasMedia(type),
-        linkUrl: type === 'link' ? post.url : undefined,
+        linkUrl,
         isEdited: post.edited || false,
+        flairText: post.flair?.text || undefined,
+        flairTemplateId: post.flair?.templateId || undefined,
+        nsfw: post.nsfw || false,
+        spoiler: post.spoiler || false,
+        crosspostSubreddit,
+        linkPath: linkUrl ? this.extractPath(linkUrl) : undefined,
+        galleryCount: post.gallery?.length ?? 0,
       };
 
       return currentPost;
@@ -115,6 +170,207 @@ export class PostBuilder {
     }
   }
 
+  /**
+   * Build a CurrentPost-compatible object from a Reddit Comment
+   *
+   * Comments don't have all fields posts have, so safe defaults are used
+   * (no title, always text, no URL extraction).
+   *
+   * @param comment - Reddit Comment object from Devvit API
+   * @returns CurrentPost object for rule evaluation
+   */
+  static buildCurrentComment(comment: Comment): CurrentPost {
+    const body = comment.body || '';
+
+    return {
+      title: '', // Comments don't have titles
+      body: body,
+      subreddit: comment.subredditName || 'unknown',
+      type: 'text', // Comments are always text
+      urls: [], // Could extract URLs from body if needed
+      domains: [],
+      wordCount: body.split(/\s+/).filter(Boolean).length,
+      charCount: body.length,
+      bodyLength: body.length,
+      titleLength: 0,
+      hasMedia: false,
+      linkUrl: undefined,
+      isEdited: false, // Comment API doesn't easily expose edit status
+    };
+  }
+
+  /**
+   * Look up the subreddit of a crosspost's original post
+   *
+   * The Post model doesn't expose the original post. The PostSubmit event
+   * has its ID; elsewhere (e.g. testing rules on an existing post) it is read
+   * from the post's URL, which for a crosspost is the original's relative
+   * permalink.
+   *
+   * @param reddit - Reddit API client
+   * @param post - The (possibly crossposted) post
+   * @param crosspostParentId - ID of the original post, if known (PostSubmit event's `post.crosspostParentId`)
+   * @returns Subreddit name, or undefined if the post isn't a crosspost or the lookup fails
+   */
+  static async getCrosspostSubreddit(
+    reddit: RedditAPIClient,
+    post: Post,
+    crosspostParentId?: string
+  ): Promise<string | undefined> {
+    const match = crosspostParentId ? null : CROSSPOST_URL_REGEX.exec(post.url ?? '');
+    if (match) {
+      crosspostParentId = `t3_${match[1]}`;
+    }
+    if (!crosspostParentId) {
+      return undefined;
+    }
+
+    try {
+      const parent = await reddit.getPostById(crosspostParentId);
+      return parent.subredditName;
+    } catch (error) {
+      console.error('[PostBuilder] Failed to fetch crosspost parent:', {
+        crosspostParentId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Post metadata for AI question prompts
+   *
+   * @param currentPost - CurrentPost object of the content being analyzed
+   * @returns Metadata with only the fields that say something (comments get none)
+   */
+  static getAIMetadata(currentPost: CurrentPost): AIPostMetadata | undefined {
+    if (currentPost.nsfw === undefined) {
+      return undefined; // Comment
+    }
+
+    return {
+      type: currentPost.type,
+      flairText: currentPost.flairText,
+      nsfw: currentPost.nsfw,
+      spoiler: currentPost.spoiler,
+      crosspostSubreddit: currentPost.crosspostSubreddit,
+      linkPath: currentPost.linkPath,
+      galleryCount: currentPost.galleryCount || undefined,
+    };
+  }
+
+  /**
+   * Compute text-quality features of a post or comment (`textStats.*` fields)
+   *
+   * Spam often shows up as ALL CAPS, emoji walls or repeated characters;
+   * these numbers let rules catch that without regexes. Everything is a
+   * single pass or a bounded regex, so long bodies stay cheap.
+   *
+   * @param currentPost - CurrentPost object of the content
+   * @returns Text statistics over the title and body
+   */
+  static buildTextStats(currentPost: CurrentPost): TextStats {
+    const text = currentPost.title ? `${currentPost.title}\n${currentPost.body}` : currentPost.body;
+
+    let letters = 0;
+    let upper = 0;
+    let longestCharRun = 0;
+    let repeatedCharRuns = 0;
+    let runChar = '';
+    let runLength = 0;
+
+    for (const char of text) {
+      if (char.toLowerCase() !== char.toUpperCase()) {
+        letters++;
+        if (char === char.toUpperCase()) {
+          upper++;
+        }
+      }
+
+      if (char === runChar) {
+        runLength++;
+      } else {
+        runChar = char;
+        runLength = 1;
+      }
+      if (/\s/.test(char)) {
+        continue;
+      }
+      longestCharRun = Math.max(longestCharRun, runLength);
+      if (runLength === REPEATED_RUN_MIN_LENGTH) {
+        repeatedCharRuns++;
+      }
+    }
+
+    // Bounded quantifiers keep this linear on adversarial input
+    const markdownLinks = text.match(/\[[^\]\n]{0,300}\]\([^)\s]{1,2048}\)/g) ?? [];
+    const linkLength = [...this.extractUrls('', text), ...markdownLinks].reduce((total, link) => total + link.length, 0);
+
+    return {
+      capsRatio: letters > 0 ? this.roundRatio(upper / letters) : 0,
+      emojiCount: text.match(/\p{Extended_Pictographic}/gu)?.length ?? 0,
+      longestCharRun,
+      repeatedCharRuns,
+      lineCount: text.split('\n').filter((line) => line.trim().length > 0).length,
+      linkToTextRatio: text.length > 0 ? this.roundRatio(Math.min(1, linkLength / text.length)) : 0,
+      markdownLinkCount: markdownLinks.length,
+      language: this.detectLanguage(text),
+    };
+  }
+
+  /**
+   * Guess the language of a text
+   *
+   * Non-Latin scripts are identified by script; Latin-script text by which
+   * language's common words it uses most. This is a heuristic meant for
+   * "not the subreddit's language" rules, not a full language detector.
+   *
+   * @param text - Text to inspect
+   * @returns ISO 639-1 code, or 'unknown' if there isn't enough evidence
+   */
+  private static detectLanguage(text: string): string {
+    const letters = text.match(/\p{L}/gu)?.length ?? 0;
+    if (letters === 0) {
+      return 'unknown';
+    }
+
+    // Japanese mixes kana with Han characters, so it counts both
+    const counts = SCRIPT_LANGUAGES.map(([pattern]) => text.match(pattern)?.length ?? 0);
+    if (counts[0] > 0 && counts[0] + counts[2] > letters / 2) {
+      return 'ja';
+    }
+    for (let i = 1; i < SCRIPT_LANGUAGES.length; i++) {
+      if (counts[i] > letters / 2) {
+        return SCRIPT_LANGUAGES[i][1];
+      }
+    }
+
+    const words = text.toLowerCase().split(/[^\p{L}]+/u).filter((word) => word.length > 0);
+    let best = 'unknown';
+    let bestHits = 0;
+    let tied = false;
+    for (const [language, stopwords] of Object.entries(LANGUAGE_STOPWORDS)) {
+      const hits = words.filter((word) => stopwords.has(word)).length;
+      if (hits > bestHits) {
+        best = language;
+        bestHits = hits;
+        tied = false;
+      } else if (hits === bestHits) {
+        tied = true;
+      }
+    }
+
+    // Require a couple of common words and a clear winner
+    return bestHits >= 2 && !tied ? best : 'unknown';
+  }
+
+  /**
+   * Round a ratio to two decimals
+   */
+  private static roundRatio(ratio: number): number {
+    return Math.round(ratio * 100) / 100;
+  }
+
   /**
    * Extract post body text
    *
@@ -251,6 +507,21 @@ export class PostBuilder {
     return Array.from(domains);
   }
 
+  /**
+   * Extract the path of a URL
+   *
+   * @param url - Absolute URL
+   * @returns URL path (e.g. "/watch"), or undefined if the URL is invalid
+   */
+  private static extractPath(url: string): string | undefined {
+    try {
+      return new URL(url).pathname;
+    } catch (error) {
+      // Invalid URL (same handling as extractDomains)
+      return undefined;
+    }
+  }
+
   /**
    * Count words in text
    *
@@ -304,6 +575,9 @@ export class PostBuilder {
       hasMedia: false,
       linkUrl: undefined,
       isEdited: false,
+      nsfw: post.nsfw || false,
+      spoiler: post.spoiler || false,
+      galleryCount: 0,
     };
   }
 }
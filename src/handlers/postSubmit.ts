@@ -41,6 +41,9 @@ import { sendRealtimeDigest } from '../notifications/modmailDigest.js';
 import { executeModerationPipeline } from '../moderation/pipeline.js';
 import { CommunityTrustManager } from '../trust/communityTrustManager';
 import { getApprovedUsers, getModerators } from '../utils/userCache.js';
+import { recordActivity, getActivityCounts } from '../storage/activityTracker.js';
+import { recordStrike } from '../storage/strikes.js';
+import { recordRuleAction } from '../storage/ruleStats.js';
 
 // Singleton rate limiter shared across all handler invocations
 const rateLimiter = new RateLimiter();
@@ -61,6 +64,7 @@ export async function handlePostSubmit(
   }
 
   const postId = event.post.id;
+  const { crosspostParentId } = event.post as { crosspostParentId?: string };
 
   // Fetch full post details
   const post = await reddit.getPostById(postId);
@@ -141,6 +145,9 @@ export async function handlePostSubmit(
   const { getSettingsVersion } = await import('../storage/keyBuilder.js');
   const settingsVersion = await getSettingsVersion(context);
 
+  // Count this post in the author's activity counters (activity.* rule fields)
+  await recordActivity(redis, userId, subredditName, 'post', postId, settingsVersion);
+
   // Initialize profiling services
   const profileFetcher = new UserProfileFetcher(redis, reddit, rateLimiter, settingsVersion);
   const historyAnalyzer = new PostHistoryAnalyzer(redis, reddit, rateLimiter, settingsVersion);
@@ -176,7 +183,8 @@ export async function handlePostSubmit(
   console.log(`[PostSubmit] Profile fetched for ${author}: Age=${profile.accountAgeInDays}d, Karma=${profile.totalKarma}`);
 
   // 1. Build CurrentPost object (needed for both pipeline and rules)
-  const currentPost = PostBuilder.buildCurrentPost(post);
+  const crosspostSubreddit = await PostBuilder.getCrosspostSubreddit(reddit, post, crosspostParentId);
+  const currentPost = PostBuilder.buildCurrentPost(post, crosspostSubreddit);
 
   // ===== Execute Moderation Pipeline (Layers 1-2) =====
   const correlationId = `post-${postId}-${Date.now()}`;
@@ -401,6 +409,7 @@ export async function handlePostSubmit(
         title: currentPost.title,
         body: currentPost.body,
         subreddit: currentPost.subreddit,
+        metadata: PostBuilder.getAIMetadata(currentPost),
       };
 
       // Run AI analysis
@@ -434,11 +443,14 @@ export async function handlePostSubmit(
   }
 
   // 4. Build evaluation context
+  const activity = await getActivityCounts(redis, userId, subredditName, settingsVersion);
   const evalContext: RuleEvaluationContext = {
     profile,
     postHistory: history,
     currentPost,
     aiAnalysis,
+    activity,
+    textStats: PostBuilder.buildTextStats(currentPost),
     subreddit: subredditName,
   };
 
@@ -490,12 +502,37 @@ export async function handlePostSubmit(
     pipelineInfo: layer3PipelineInfo,
   });
 
+  // Count a strike for escalating rules once the action was really taken
+  if (ruleResult.strike && ruleResult.matchedRule && executionResult.success && !effectiveDryRun) {
+    await recordStrike(
+      redis,
+      userId,
+      ruleResult.matchedRule,
+      postId,
+      ruleResult.strike.expireDays,
+      settingsVersion
+    );
+  }
+
+  // Count the action in the rule's statistics (also enables override tracking)
+  if (ruleResult.matchedRules?.length && executionResult.success && !effectiveDryRun) {
+    const executedActions = executionResult.subActions
+      ?.filter((result) => result.success)
+      .map((result) => result.action) ?? [ruleResult.action];
+    await recordRuleAction(redis, ruleResult.matchedRule, postId, executedActions);
+  }
+
   // Log to audit trail
   const auditAction = executionResult.success
     ? (ruleResult.action === 'APPROVE' ? ModAction.APPROVE :
        ruleResult.action === 'FLAG' ? ModAction.FLAG :
        ruleResult.action === 'REMOVE' ? ModAction.REMOVE :
        ruleResult.action === 'COMMENT' ? ModAction.COMMENT :
+       ruleResult.action === 'BAN' ? ModAction.BAN :
+       ruleResult.action === 'MUTE' ? ModAction.MUTE :
+       ruleResult.action === 'LOCK' ? ModAction.LOCK :
+       ruleResult.action === 'SPAM' ? ModAction.SPAM :
+       ruleResult.action === 'SET_FLAIR' ? ModAction.SET_FLAIR :
        ModAction.FLAG) // Unknown actions become FLAG in audit
     : ModAction.FLAG; // Failed actions become FLAG for manual review
 
@@ -513,6 +550,17 @@ export async function handlePostSubmit(
       executionSuccess: executionResult.success,
       executionError: executionResult.error,
       executionDetails: executionResult.details,
+      matchedRules: ruleResult.matchedRules?.map((match) => match.ruleId),
+      evaluationMode: ruleResult.evaluationMode,
+      shadowMatches: ruleResult.shadowMatches?.map((match) => match.ruleId),
+      strike: ruleResult.strike?.count,
+      tags: ruleResult.tags,
+      score: ruleResult.score?.total,
+      actionResults: executionResult.subActions?.map((result) => ({
+        action: result.action,
+        success: result.success,
+        error: result.error,
+      })),
       postTitle: title,
       bodyPreview: post.body?.substring(0, 200),
     },
@@ -546,10 +594,10 @@ export async function handlePostSubmit(
       trustAction = 'APPROVE';
     } else if (ruleResult.action === 'FLAG') {
       trustAction = 'FLAG';
-    } else if (ruleResult.action === 'REMOVE') {
+    } else if (ruleResult.action === 'REMOVE' || ruleResult.action === 'SPAM' || ruleResult.action === 'BAN') {
       trustAction = 'REMOVE';
     }
-    // COMMENT action results in trustAction = null (no update)
+    // COMMENT, MUTE, LOCK and SET_FLAIR result in trustAction = null (no update)
 
     if (trustAction) {
       await trustManager.updateTrust(userId, subredditName, trustAction, 'post');
@@ -0,0 +1,117 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Thread builder helper for comment moderation
+ *
+ * A comment on its own doesn't say what it replies to. ThreadBuilder fetches
+ * the post and the parent comment chain so rules (`thread.*` fields) and AI
+ * questions can take the conversation into account.
+ *
+ * @module handlers/threadBuilder
+ */
+
+import { Comment, RedditAPIClient } from '@devvit/public-api';
+import { ThreadContext, THREAD_MAX_DEPTH } from '../types/rules.js';
+import { AIThreadContext } from '../types/ai.js';
+
+/**
+ * Helper class for building thread context for comments
+ */
+export class ThreadBuilder {
+  /**
+   * Build the thread context of a comment
+   *
+   * Fetches the post and walks up the parent comments to find the reply
+   * depth. The walk stops after THREAD_MAX_DEPTH parents, so very deep
+   * replies cost at most that many lookups.
+   *
+   * @param reddit - Reddit API client
+   * @param comment - Comment being moderated
+   * @returns Thread context, or undefined if the post or a parent can't be fetched
+   */
+  static async buildThreadContext(
+    reddit: RedditAPIClient,
+    comment: Comment
+  ): Promise<ThreadContext | undefined> {
+    try {
+      const [post, parents] = await Promise.all([
+        reddit.getPostById(comment.postId),
+        this.getParentComments(reddit, comment),
+      ]);
+
+      const ageInHours = (comment.createdAt.getTime() - post.createdAt.getTime()) / (1000 * 60 * 60);
+
+      return {
+        postTitle: post.title || '',
+        postBody: post.body || '',
+        parentCommentBody: parents[0]?.body,
+        depth: parents.length,
+        isTopLevel: parents.length === 0,
+        authorIsOP: !!comment.authorId && comment.authorId === post.authorId,
+        ageInHours: Math.max(0, Math.round(ageInHours * 10) / 10),
+      };
+    } catch (error) {
+      console.error('[ThreadBuilder] Failed to build thread context:', {
+        commentId: comment.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Thread context for AI question prompts
+   *
+   * @param thread - Thread context of the comment being analyzed
+   * @returns The parts of the thread the AI needs to read the comment in context
+   */
+  static getAIThread(thread: ThreadContext | undefined): AIThreadContext | undefined {
+    if (!thread) {
+      return undefined;
+    }
+
+    return {
+      postTitle: thread.postTitle,
+      postBody: thread.postBody,
+      parentCommentBody: thread.parentCommentBody,
+      authorIsOP: thread.authorIsOP,
+    };
+  }
+
+  /**
+   * Fetch the parent comments of a comment, nearest first
+   *
+   * @param reddit - Reddit API client
+   * @param comment - Comment to start from
+   * @returns Parent comments (empty for a top-level comment), at most THREAD_MAX_DEPTH
+   */
+  private static async getParentComments(reddit: RedditAPIClient, comment: Comment): Promise<Comment[]> {
+    const parents: Comment[] = [];
+    let parentId: string = comment.parentId;
+
+    // Parent IDs are t1_ (comment) until the chain reaches the post (t3_)
+    while (parentId.startsWith('t1_') && parents.length < THREAD_MAX_DEPTH) {
+      const parent = await reddit.getCommentById(parentId);
+      parents.push(parent);
+      parentId = parent.parentId;
+    }
+
+    return parents;
+  }
+}
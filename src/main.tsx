@@ -23,6 +23,12 @@ import { handleModAction } from './handlers/modAction';
 import { renderCostDashboard } from './dashboard/costDashboardUI';
 import { initializeDefaultRules } from './handlers/appInstall';
 import { getPostAnalysis } from './ui/postAnalysis';
+import { runRuleTest, formatRuleTraces } from './ui/ruleTest.js';
+import { getRulePerformance, formatRulePerformance } from './ui/rulePerformance.js';
+import { recordRulesEdit, getRulesHistory, rollbackRules, formatRuleVersions } from './ui/rulesHistory.js';
+import { getRuleTags, getTaggedContent, formatTaggedContent } from './ui/taggedContent.js';
+import { formatConditionTrace } from './rules/explanation.js';
+import { validateRulesSetting } from './rules/schemaValidator.js';
 import { getAnalysisHistory } from './storage/analysisHistory.js';
 import { sendDailyDigest } from './notifications/modmailDigest';
 
@@ -198,8 +204,26 @@ Devvit.addSettings([
   {
     type: 'paragraph',
     name: 'rulesJson',
-    label: '🤖 Custom Rules Configuration (JSON)',
-    helpText: 'Configure AI-powered moderation rules in JSON format. Starts empty - add your own custom rules here. See documentation for examples. (Executes last if Layers 1-2 don\'t match)',
+    label: '🤖 Custom Rules Configuration (JSON or YAML)',
+    helpText: 'Configure AI-powered moderation rules in JSON or YAML format. Starts empty - add your own custom rules here. See documentation for examples. Invalid rules are rejected on save. (Executes last if Layers 1-2 don\'t match)',
+    defaultValue: '',
+    scope: 'installation',
+    onValidate: async ({ value }, context) => {
+      // Reject invalid rules on save instead of falling back at runtime
+      const error = await validateRulesSetting(value ?? '');
+      if (error) {
+        return error;
+      }
+
+      // Snapshot every validated change for Rules History (never blocks saving)
+      await recordRulesEdit(context, value ?? '');
+    },
+  },
+  {
+    type: 'string',
+    name: 'rulesWikiPage',
+    label: '📄 Rules Wiki Page (optional)',
+    helpText: 'Load rules from this subreddit wiki page (JSON or YAML) instead of the field above, e.g. "aiautomod". Leave empty to use the field above. If the page is invalid, mods get a modmail and the last valid rules stay active (the defaults if the rules were never valid).',
     defaultValue: '',
     scope: 'installation',
   },
@@ -408,6 +432,12 @@ const aiAnalysisForm = Devvit.createForm(
       'FLAG': '🚩',
       'COMMENT': '💬',
       'APPROVE': '✅',
+      'BAN': '🔨',
+      'MUTE': '🔇',
+      'LOCK': '🔒',
+      'SPAM': '🗑️',
+      'SET_FLAIR': '🏷️',
+      'TAG': '🏷️',
     }[analysis.action] || '❓';
 
     const date = new Date(analysis.timestamp);
@@ -577,6 +607,46 @@ const aiAnalysisForm = Devvit.createForm(
         });
       }
 
+      if (analysis.explanation) {
+        layer3Fields.push({
+          type: 'paragraph',
+          name: 'explanation',
+          label: '🔍 Why It Matched',
+          defaultValue: formatConditionTrace(analysis.explanation).join('\n'),
+        });
+      }
+
+      if (analysis.actionResults && analysis.actionResults.length > 0) {
+        layer3Fields.push({
+          type: 'string',
+          name: 'action_steps',
+          label: 'Actions Executed',
+          defaultValue: analysis.actionResults
+            .map((step: any) => `${step.action} ${step.success ? '✅' : '❌'}`)
+            .join(', '),
+        });
+      }
+
+      if (analysis.shadowMatches && analysis.shadowMatches.length > 0) {
+        layer3Fields.push({
+          type: 'paragraph',
+          name: 'shadow_matches',
+          label: '👻 Shadow Rules (not acted on)',
+          defaultValue: analysis.shadowMatches
+            .map((match: any) => `${match.ruleName}: would ${match.action} - ${match.reason}`)
+            .join('\n'),
+        });
+      }
+
+      if (analysis.tags && analysis.tags.length > 0) {
+        layer3Fields.push({
+          type: 'string',
+          name: 'tags',
+          label: '🏷️ Tags',
+          defaultValue: analysis.tags.join(', '),
+        });
+      }
+
       if (analysis.aiCostUSD !== undefined) {
         layer3Fields.push({
           type: 'string',
@@ -641,6 +711,241 @@ const aiAnalysisForm = Devvit.createForm(
 
 console.log('[AI Automod] ✓ Registered: AI Analysis Form');
 
+// Rule Test Form - shows how the current rules would treat a post/comment (nothing is executed)
+const ruleTestForm = Devvit.createForm(
+  (data) => {
+    const report = data.report as any;
+    const pipeline = report.pipeline;
+    const result = report.result;
+
+    const pipelineSummary =
+      pipeline.layerTriggered === 'builtin'
+        ? `Layer 1 would ${pipeline.action}: ${pipeline.reason}`
+        : pipeline.layerTriggered === 'moderation'
+          ? `Layer 2 would ${pipeline.action}: ${pipeline.reason}`
+          : 'Layers 1-2 passed';
+
+    const matchedNames = report.rules
+      .filter((rule: any) => rule.status === 'matched' && rule.mode !== 'shadow')
+      .map((rule: any) => rule.ruleName);
+    const shadowNames = report.rules
+      .filter((rule: any) => rule.status === 'matched' && rule.mode === 'shadow')
+      .map((rule: any) => rule.ruleName);
+
+    const fields: any[] = [
+      {
+        type: 'string',
+        name: 'pipeline',
+        label: '🛡️ Layers 1-2',
+        defaultValue: pipelineSummary,
+      },
+      {
+        type: 'string',
+        name: 'action',
+        label: '⚖️ Layer 3 Action',
+        defaultValue: result.action,
+      },
+      {
+        type: 'paragraph',
+        name: 'reason',
+        label: 'Reason',
+        defaultValue: result.reason,
+      },
+      {
+        type: 'string',
+        name: 'matched',
+        label: '✅ Matched Rules',
+        defaultValue: matchedNames.length > 0 ? matchedNames.join(', ') : 'None',
+      },
+    ];
+
+    if (result.score) {
+      fields.push({
+        type: 'string',
+        name: 'score',
+        label: '🎯 Score',
+        defaultValue:
+          result.score.threshold !== null
+            ? `${result.score.total} (threshold ${result.score.threshold})`
+            : `${result.score.total} (below every threshold)`,
+      });
+    }
+
+    if (shadowNames.length > 0) {
+      fields.push({
+        type: 'string',
+        name: 'shadow',
+        label: '👻 Shadow Rules Matched',
+        defaultValue: shadowNames.join(', '),
+      });
+    }
+
+    fields.push({
+      type: 'paragraph',
+      name: 'trace',
+      label: '🔍 Rule Trace',
+      defaultValue: formatRuleTraces(report.rules),
+    });
+
+    return {
+      title: '🧪 Rule Test',
+      description: `Dry evaluation of u/${report.authorName}'s ${report.contentType === 'comment' ? 'comment' : 'post'} against the current rules. No action was taken and AI questions were not asked.${result.dryRun ? ' Dry-run mode is on, so live actions would be FLAG.' : ''}${pipeline.layerTriggered !== 'none' ? ' Layers 1-2 would act first, so Layer 3 would not run.' : ''}`,
+      fields,
+      acceptLabel: 'Close',
+    };
+  },
+  async (_event, _context) => {
+    // Form submission handler (just closes)
+  }
+);
+
+console.log('[AI Automod] ✓ Registered: Rule Test Form');
+
+// Rule Performance Form - per-rule hit and override rates
+const rulePerformanceForm = Devvit.createForm(
+  (data) => {
+    const rules = data.rules as any[];
+
+    return {
+      title: '📈 Rule Performance',
+      description: 'Hit rate = matches / evaluations. Override rate = mod reversals of the rule\'s removals or approvals / actions taken. Dry-run matches are not counted as actions.',
+      fields: [
+        {
+          type: 'paragraph',
+          name: 'rules',
+          label: `Rules (${rules.length})`,
+          defaultValue: formatRulePerformance(rules),
+        },
+      ],
+      acceptLabel: 'Close',
+    };
+  },
+  async (_event, _context) => {
+    // Form submission handler (just closes)
+  }
+);
+
+console.log('[AI Automod] ✓ Registered: Rule Performance Form');
+
+// Rules History Form - browse recorded rule versions and roll back to one
+const rulesHistoryForm = Devvit.createForm(
+  (data) => {
+    const view = data.view as any;
+
+    return {
+      title: '🗂️ Rules History',
+      description: view.rollbackVersion
+        ? `Rolled back: v${view.rollbackVersion} is active until the rules setting is edited again.`
+        : 'The rules setting is active. Pick a version to roll back to, or close.',
+      fields: [
+        {
+          type: 'paragraph',
+          name: 'versions',
+          label: `Versions (${view.versions.length})`,
+          defaultValue: formatRuleVersions(view),
+        },
+        {
+          type: 'select',
+          name: 'rollbackTo',
+          label: '⏪ Roll back to',
+          options: view.versions.map((version: any) => ({
+            label: `v${version.version} - ${new Date(version.timestamp).toISOString().slice(0, 16).replace('T', ' ')} by u/${version.editor}`,
+            value: String(version.version),
+          })),
+        },
+      ],
+      acceptLabel: 'Roll Back',
+      cancelLabel: 'Close',
+    };
+  },
+  async (event, context) => {
+    const [selected] = (event.values.rollbackTo as string[] | undefined) ?? [];
+    if (!selected) {
+      context.ui.showToast({ text: 'No version selected - nothing changed.', appearance: 'neutral' });
+      return;
+    }
+
+    try {
+      const saved = await rollbackRules(context, Number(selected));
+      context.ui.showToast({
+        text: `✅ Rolled back to v${selected} (recorded as v${saved.version}). Editing the rules setting ends the rollback.`,
+        appearance: 'success',
+      });
+    } catch (error) {
+      console.error('[RulesHistory] Error rolling back rules:', error);
+      context.ui.showToast({
+        text: error instanceof Error ? `❌ ${error.message}` : '❌ Error rolling back rules. Check logs.',
+        appearance: 'neutral',
+      });
+    }
+  }
+);
+
+console.log('[AI Automod] ✓ Registered: Rules History Form');
+
+// Tagged Content Forms - pick a tag, then list recent content TAG rules labelled with it
+const taggedContentForm = Devvit.createForm(
+  (data) => {
+    const entries = data.entries as any[];
+
+    return {
+      title: `🏷️ Tagged: ${data.tag}`,
+      description: 'Most recent content with this tag (up to 25), newest first.',
+      fields: [
+        {
+          type: 'paragraph',
+          name: 'entries',
+          label: `Content (${entries.length})`,
+          defaultValue: formatTaggedContent(entries),
+        },
+      ],
+      acceptLabel: 'Close',
+    };
+  },
+  async (_event, _context) => {
+    // Form submission handler (just closes)
+  }
+);
+
+const findTaggedContentForm = Devvit.createForm(
+  (data) => {
+    const tags = data.tags as string[];
+
+    return {
+      title: '🏷️ Find Tagged Content',
+      description: tags.length > 0
+        ? `Tags attached by the current rules: ${tags.join(', ')}`
+        : 'The current rules have no TAG rules.',
+      fields: [
+        {
+          type: 'string',
+          name: 'tag',
+          label: 'Tag',
+          required: true,
+        },
+      ],
+      acceptLabel: 'Find',
+      cancelLabel: 'Close',
+    };
+  },
+  async (event, context) => {
+    const tag = ((event.values.tag as string | undefined) ?? '').trim();
+
+    try {
+      const entries = await getTaggedContent(context, tag);
+      context.ui.showForm(taggedContentForm, { tag, entries: entries as any });
+    } catch (error) {
+      console.error('[TaggedContent] Error finding tagged content:', error);
+      context.ui.showToast({
+        text: 'Error finding tagged content. Check logs for details.',
+        appearance: 'neutral',
+      });
+    }
+  }
+);
+
+console.log('[AI Automod] ✓ Registered: Tagged Content Forms');
+
 // Cost Dashboard Form - displays AI usage and budget information
 const costDashboardForm = Devvit.createForm(
   (data) => {
@@ -709,6 +1014,14 @@ const costDashboardForm = Devvit.createForm(
             label: '🔌 OpenAI Compatible',
             defaultValue: `$${dashboard.daily['openai-compatible'].toFixed(4)}`,
           }] : []),
+          ...(dashboard.daily.models?.length > 0 ? [{
+            type: 'paragraph' as const,
+            name: 'daily_models',
+            label: '🧠 By Model',
+            defaultValue: dashboard.daily.models
+              .map((m: any) => `${m.provider}/${m.model}: $${m.totalUSD.toFixed(4)}`)
+              .join('\n'),
+          }] : []),
         ],
       },
       {
@@ -825,6 +1138,66 @@ Devvit.addMenuItem({
 });
 console.log('[AI Automod] ✓ Registered: View AI Costs (subreddit)');
 
+// Rule Performance Menu Item
+Devvit.addMenuItem({
+  label: 'Rule Performance',
+  location: 'subreddit',
+  forUserType: 'moderator',
+  onPress: async (_event, context) => {
+    try {
+      const rules = await getRulePerformance(context);
+      context.ui.showForm(rulePerformanceForm, { rules: rules as any });
+    } catch (error) {
+      console.error('[RulePerformance] Error loading rule statistics:', error);
+      context.ui.showToast({
+        text: 'Error loading rule performance. Check logs for details.',
+        appearance: 'neutral',
+      });
+    }
+  },
+});
+console.log('[AI Automod] ✓ Registered: Rule Performance (subreddit)');
+
+// Rules History Menu Item
+Devvit.addMenuItem({
+  label: 'Rules History',
+  location: 'subreddit',
+  forUserType: 'moderator',
+  onPress: async (_event, context) => {
+    try {
+      const view = await getRulesHistory(context);
+      context.ui.showForm(rulesHistoryForm, { view: view as any });
+    } catch (error) {
+      console.error('[RulesHistory] Error loading rules history:', error);
+      context.ui.showToast({
+        text: 'Error loading rules history. Check logs for details.',
+        appearance: 'neutral',
+      });
+    }
+  },
+});
+console.log('[AI Automod] ✓ Registered: Rules History (subreddit)');
+
+// Find Tagged Content Menu Item
+Devvit.addMenuItem({
+  label: 'Find Tagged Content',
+  location: 'subreddit',
+  forUserType: 'moderator',
+  onPress: async (_event, context) => {
+    try {
+      const tags = await getRuleTags(context);
+      context.ui.showForm(findTaggedContentForm, { tags });
+    } catch (error) {
+      console.error('[TaggedContent] Error loading rule tags:', error);
+      context.ui.showToast({
+        text: 'Error loading tags. Check logs for details.',
+        appearance: 'neutral',
+      });
+    }
+  },
+});
+console.log('[AI Automod] ✓ Registered: Find Tagged Content (subreddit)');
+
 // Post Analysis Menu Item (Phase 5)
 // NOTE: Post menu items don't appear during playtest mode (Devvit limitation)
 // This will work after production upload with 'devvit upload'
@@ -865,6 +1238,30 @@ Devvit.addMenuItem({
 });
 console.log('[AI Automod] ✓ Registered: View AI Analysis (post)');
 
+// Test Rules Menu Items - evaluate current rules against existing content without acting
+for (const location of ['post', 'comment'] as const) {
+  Devvit.addMenuItem({
+    label: 'Test Rules',
+    location,
+    forUserType: 'moderator',
+    onPress: async (event, context) => {
+      console.log(`[RuleTest] Testing rules on ${location}: ${event.targetId}`);
+
+      try {
+        const report = await runRuleTest(context, event.targetId);
+        context.ui.showForm(ruleTestForm, { report: report as any });
+      } catch (error) {
+        console.error('[RuleTest] Error testing rules:', error);
+        context.ui.showToast({
+          text: error instanceof Error ? `❌ ${error.message}` : '❌ Error testing rules. Check logs.',
+          appearance: 'neutral',
+        });
+      }
+    },
+  });
+  console.log(`[AI Automod] ✓ Registered: Test Rules (${location})`);
+}
+
 // Reset All Data Menu Item
 Devvit.addMenuItem({
   label: 'Reset All Data',
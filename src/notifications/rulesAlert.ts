@@ -0,0 +1,70 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Rules Alert Module
+ *
+ * Tells the mod team via modmail when configured rules can't be loaded.
+ *
+ * @module notifications/rulesAlert
+ */
+
+import { Context } from '@devvit/public-api';
+
+/**
+ * Send a rules validation error to the mod team via modmail
+ *
+ * Always goes to Mod Notifications (all mods), since anyone may need to fix the rules.
+ *
+ * @param context - Devvit context
+ * @param source - Where the invalid rules came from (e.g. 'wiki page "aiautomod"')
+ * @param error - Validation error message
+ * @param fallback - What is used instead (e.g. 'the rules setting is used instead')
+ */
+export async function sendRulesValidationAlert(
+  context: Context,
+  source: string,
+  error: string,
+  fallback: string
+): Promise<void> {
+  try {
+    await context.reddit.modMail.createModInboxConversation({
+      subredditId: context.subredditId,
+      subject: 'AI Automod - Rules Validation Failed',
+      bodyMarkdown: formatRulesValidationMessage(source, error, fallback),
+    });
+
+    console.log(`[RulesAlert] ✓ Rules validation alert sent for ${source}`);
+  } catch (sendError) {
+    console.error('[RulesAlert] Error sending rules validation alert:', sendError);
+    // Don't throw - rule loading must not fail because of the alert
+  }
+}
+
+/**
+ * Format rules validation alert message
+ */
+function formatRulesValidationMessage(source: string, error: string, fallback: string): string {
+  let message = `## AI Automod - Rules Validation Failed\n\n`;
+  message += `The rules from ${source} could not be loaded:\n\n`;
+  message += `    ${error.split('\n').join('\n    ')}\n\n`;
+  message += `---\n`;
+  message += `*Fix the rules and save again. Until then ${fallback} (see logs).*`;
+
+  return message;
+}
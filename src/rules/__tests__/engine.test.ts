@@ -0,0 +1,569 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Tests for RulesEngine evaluation behavior
+ */
+
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import { RulesEngine } from '../engine.js';
+import { RuleEvaluationContext } from '../../types/rules.js';
+
+/**
+ * Create a minimal Devvit context whose settings hold the given rules
+ *
+ * Redis reports `strikes` unexpired strikes for every escalating rule.
+ */
+function createContext(rules: object, dryRunMode = false, strikes = 0): any {
+  return {
+    settings: {
+      getAll: async () => ({ rulesJson: JSON.stringify(rules), dryRunMode }),
+      get: async () => undefined,
+    },
+    redis: {
+      get: async () => undefined,
+      set: async () => undefined,
+      hIncrBy: async () => 1,
+      zRange: async () =>
+        Array.from({ length: strikes }, (_, index) => ({ member: `t3_${index}`, score: Date.now() })),
+    },
+  };
+}
+
+const evalContext: RuleEvaluationContext = {
+  profile: {
+    userId: 'user123',
+    username: 'testuser',
+    accountAgeInDays: 2,
+    commentKarma: 5,
+    postKarma: 0,
+    totalKarma: 5,
+    emailVerified: false,
+    isModerator: false,
+    hasUserFlair: false,
+    hasPremium: false,
+    isVerified: false,
+    fetchedAt: new Date(),
+  },
+  currentPost: {
+    title: 'Check out my site',
+    body: 'Visit spam.example today',
+    subreddit: 'testsubreddit',
+    type: 'text',
+    urls: ['https://spam.example'],
+    domains: ['spam.example'],
+    wordCount: 6,
+    charCount: 41,
+    bodyLength: 24,
+    titleLength: 17,
+    hasMedia: false,
+    isEdited: false,
+  },
+  postHistory: {
+    userId: 'user123',
+    username: 'testuser',
+    items: [],
+    totalPosts: 0,
+    totalComments: 0,
+    subreddits: [],
+    metrics: {
+      totalItems: 0,
+      postsInTargetSubs: 0,
+      postsInDatingSubs: 0,
+      averageScore: 0,
+      oldestItemDate: new Date(),
+      newestItemDate: new Date(),
+    },
+    fetchedAt: new Date(),
+  },
+  subreddit: 'testsubreddit',
+};
+
+const matchingRules = [
+  {
+    id: 'new-account',
+    priority: 100,
+    conditions: { field: 'profile.accountAgeInDays', operator: '<', value: 7 },
+    action: 'FLAG',
+    actionConfig: { reason: 'New account' },
+  },
+  {
+    id: 'spam-domain',
+    priority: 50,
+    conditions: { field: 'currentPost.domains', operator: 'contains', value: 'spam.example' },
+    action: 'REMOVE',
+    actionConfig: { reason: 'Spam domain' },
+  },
+  {
+    id: 'low-karma',
+    priority: 10,
+    conditions: { field: 'profile.totalKarma', operator: '<', value: 10 },
+    action: 'COMMENT',
+    actionConfig: { reason: 'Low karma' },
+  },
+];
+
+describe('RulesEngine', () => {
+  describe('Evaluation modes', () => {
+    it('should stop at the highest-priority match by default', async () => {
+      const engine = new RulesEngine(createContext({ rules: matchingRules }));
+
+      const result = await engine.evaluateRules(evalContext);
+
+      expect(result.action).toBe('FLAG');
+      expect(result.matchedRule).toBe('new-account');
+      expect(result.evaluationMode).toBe('first_match');
+      expect(result.matchedRules!.map((match) => match.ruleId)).toEqual(['new-account']);
+    });
+
+    it('should pick the most severe action in most_severe mode', async () => {
+      const engine = new RulesEngine(
+        createContext({ evaluationMode: 'most_severe', rules: matchingRules })
+      );
+
+      const result = await engine.evaluateRules(evalContext);
+
+      expect(result.action).toBe('REMOVE');
+      expect(result.matchedRule).toBe('spam-domain');
+      expect(result.reason).toBe('Spam domain');
+      expect(result.matchedRules!.map((match) => match.ruleId)).toEqual([
+        'new-account',
+        'spam-domain',
+        'low-karma',
+      ]);
+    });
+
+    it('should combine reasons of every match in collect_all mode', async () => {
+      const engine = new RulesEngine(
+        createContext({ evaluationMode: 'collect_all', rules: matchingRules })
+      );
+
+      const result = await engine.evaluateRules(evalContext);
+
+      expect(result.action).toBe('REMOVE');
+      expect(result.reason).toBe('New account; Spam domain; Low karma');
+      expect(result.matchedRules).toHaveLength(3);
+    });
+
+    it('should apply dry-run to the combined result', async () => {
+      const engine = new RulesEngine(
+        createContext({ evaluationMode: 'most_severe', rules: matchingRules }, true)
+      );
+
+      const result = await engine.evaluateRules(evalContext);
+
+      expect(result.action).toBe('FLAG');
+      expect(result.reason).toBe('[DRY RUN] Spam domain');
+      expect(result.matchedRules![1].action).toBe('REMOVE');
+    });
+  });
+
+  describe('Shadow rules', () => {
+    it('should record shadow matches without acting or stopping evaluation', async () => {
+      const rules = [
+        { ...matchingRules[1], id: 'shadow-spam', mode: 'shadow', priority: 200 },
+        matchingRules[2],
+        { ...matchingRules[0], id: 'shadow-new', mode: 'shadow', priority: 1 },
+      ];
+      const engine = new RulesEngine(createContext({ rules }));
+
+      const result = await engine.evaluateRules(evalContext);
+
+      expect(result.action).toBe('COMMENT');
+      expect(result.matchedRule).toBe('low-karma');
+      expect(result.shadowMatches!.map((match) => match.ruleId)).toEqual(['shadow-spam', 'shadow-new']);
+      expect(result.shadowMatches![0].action).toBe('REMOVE');
+    });
+
+    it('should approve when only shadow rules match', async () => {
+      const rules = [{ ...matchingRules[1], mode: 'shadow' }];
+      const engine = new RulesEngine(createContext({ rules }));
+
+      const result = await engine.evaluateRules(evalContext);
+
+      expect(result.action).toBe('APPROVE');
+      expect(result.shadowMatches).toHaveLength(1);
+    });
+  });
+
+  describe('Rule tracing', () => {
+    it('should trace every rule with leaf outcomes and return the live result', async () => {
+      const rules = [
+        matchingRules[0],
+        {
+          id: 'karma-or-verified',
+          priority: 20,
+          conditions: {
+            logicalOperator: 'OR',
+            rules: [
+              { field: 'profile.totalKarma', operator: '>', value: 1000 },
+              { field: 'profile.emailVerified', operator: '==', value: true },
+            ],
+          },
+          action: 'APPROVE',
+        },
+        { ...matchingRules[2], enabled: false },
+      ];
+      const engine = new RulesEngine(createContext({ rules }));
+
+      const { result, rules: traces } = await engine.traceRules(evalContext);
+
+      expect(result.matchedRule).toBe('new-account');
+      expect(traces.map((trace) => trace.status)).toEqual(['matched', 'not_matched', 'disabled']);
+      expect(traces[0].trace).toEqual({
+        matched: true,
+        field: 'profile.accountAgeInDays',
+        operator: '<',
+        expected: 7,
+        actual: 2,
+      });
+      expect(traces[1].trace!.children!.map((child) => child.matched)).toEqual([false, false]);
+      expect(traces[1].trace!.children![1].actual).toBe(false);
+    });
+  });
+
+  describe('Explanations', () => {
+    it('should attach the condition path that fired to the result', async () => {
+      const rules = [
+        {
+          id: 'new-or-verified',
+          priority: 10,
+          conditions: {
+            logicalOperator: 'OR',
+            rules: [
+              { field: 'profile.emailVerified', operator: '==', value: true },
+              { field: 'profile.accountAgeInDays', operator: '<', value: 7 },
+            ],
+          },
+          action: 'FLAG',
+        },
+      ];
+      const engine = new RulesEngine(createContext({ rules }));
+
+      const result = await engine.evaluateRules(evalContext);
+
+      expect(result.explanation).toEqual({
+        matched: true,
+        logicalOperator: 'OR',
+        children: [
+          {
+            matched: true,
+            field: 'profile.accountAgeInDays',
+            operator: '<',
+            expected: 7,
+            actual: 2,
+          },
+        ],
+      });
+      expect(result.matchedRules![0].explanation).toEqual(result.explanation);
+    });
+  });
+
+  describe('Named lists', () => {
+    it('should resolve list references in condition values', async () => {
+      const rules = [
+        {
+          id: 'scam-domains',
+          conditions: { field: 'currentPost.domains', operator: 'intersects', value: '@list:scam_domains' },
+          action: 'REMOVE',
+        },
+        {
+          id: 'missing-list',
+          priority: 10,
+          conditions: { field: 'currentPost.domains', operator: 'not_in', value: '@list:nope' },
+          action: 'FLAG',
+        },
+      ];
+      const engine = new RulesEngine(
+        createContext({ lists: { scam_domains: ['spam.example', 'scam.example'] }, rules })
+      );
+
+      const result = await engine.evaluateRules(evalContext);
+
+      expect(result.action).toBe('REMOVE');
+      expect(result.matchedRule).toBe('scam-domains');
+    });
+  });
+
+  describe('Scheduled rules', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    // Saturday 2025-11-01 15:00 UTC
+    const saturdayAfternoon = new Date('2025-11-01T15:00:00Z');
+
+    it('should skip rules outside their date range or windows', async () => {
+      jest.useFakeTimers({ now: saturdayAfternoon });
+      const rules = [
+        { ...matchingRules[1], activeUntil: '2025-10-31T00:00:00Z' },
+        { ...matchingRules[0], activeWindows: [{ days: [1, 2, 3, 4, 5] }] },
+        { ...matchingRules[2], activeFrom: '2025-11-01T00:00:00Z', activeWindows: [{ startHour: 22, endHour: 18 }] },
+      ];
+      const engine = new RulesEngine(createContext({ rules }));
+
+      const { result, rules: traces } = await engine.traceRules(evalContext);
+
+      expect(result.matchedRule).toBe('low-karma');
+      expect(traces.map((trace) => trace.status)).toEqual(['inactive', 'inactive', 'matched']);
+    });
+
+    it('should expose the evaluation time as now.* fields', async () => {
+      jest.useFakeTimers({ now: saturdayAfternoon });
+      const rules = [
+        {
+          id: 'weekend',
+          conditions: {
+            logicalOperator: 'AND',
+            rules: [
+              { field: 'now.dayOfWeek', operator: 'in', value: [0, 6] },
+              { field: 'now.hourUTC', operator: 'between', value: [12, 17] },
+            ],
+          },
+          action: 'FLAG',
+        },
+      ];
+      const engine = new RulesEngine(createContext({ rules }));
+
+      const result = await engine.evaluateRules(evalContext);
+
+      expect(result.matchedRule).toBe('weekend');
+    });
+  });
+
+  describe('Escalation', () => {
+    const escalatingRule = {
+      ...matchingRules[1],
+      escalation: {
+        steps: [
+          { action: 'COMMENT', actionConfig: { comment: 'Please avoid spam links' } },
+          { action: 'REMOVE' },
+          { action: 'BAN', actionConfig: { reason: 'Repeated spam', ban: { duration: 7 } } },
+        ],
+        expireDays: 14,
+      },
+    };
+
+    it('should pick the step for the next strike', async () => {
+      const first = await new RulesEngine(createContext({ rules: [escalatingRule] }, false, 0)).evaluateRules(evalContext);
+      const second = await new RulesEngine(createContext({ rules: [escalatingRule] }, false, 1)).evaluateRules(evalContext);
+
+      expect(first.action).toBe('COMMENT');
+      expect(first.reason).toBe('Spam domain');
+      expect(first.strike).toEqual({ count: 1, expireDays: 14 });
+      expect(second.action).toBe('REMOVE');
+      expect(second.strike).toEqual({ count: 2, expireDays: 14 });
+    });
+
+    it('should repeat the last step once the ladder is exhausted', async () => {
+      const engine = new RulesEngine(createContext({ rules: [escalatingRule] }, false, 5));
+
+      const result = await engine.evaluateRules(evalContext);
+
+      expect(result.action).toBe('BAN');
+      expect(result.reason).toBe('Repeated spam');
+      expect(result.ban!.duration).toBe(7);
+      expect(result.strike!.count).toBe(6);
+    });
+  });
+
+  describe('Tagging rules', () => {
+    const taggingRules = [
+      {
+        id: 'tag-new-user',
+        priority: 100,
+        conditions: { field: 'profile.accountAgeInDays', operator: '<', value: 7 },
+        action: 'TAG',
+        actionConfig: { tags: ['new-user'] },
+      },
+      {
+        id: 'tag-links',
+        priority: 90,
+        conditions: { field: 'currentPost.domains', operator: 'is_empty' },
+        action: 'TAG',
+        actionConfig: { tags: ['no-links'] },
+      },
+      {
+        id: 'new-user-spam',
+        priority: 50,
+        conditions: {
+          logicalOperator: 'AND',
+          rules: [
+            { field: 'tags.new-user', operator: '==', value: true },
+            { field: 'tags.no-links', operator: '==', value: false },
+          ],
+        },
+        action: 'REMOVE',
+        actionConfig: { reason: 'New user posting links' },
+      },
+    ];
+
+    it('should attach tags without stopping evaluation and let later rules read them', async () => {
+      const engine = new RulesEngine(createContext({ rules: taggingRules }));
+
+      const result = await engine.evaluateRules(evalContext);
+
+      expect(result.action).toBe('REMOVE');
+      expect(result.matchedRule).toBe('new-user-spam');
+      expect(result.matchedRules!.map((match) => match.ruleId)).toEqual(['new-user-spam']);
+      expect(result.tags).toEqual(['new-user']);
+    });
+
+    it('should approve with tags when only TAG rules match', async () => {
+      const engine = new RulesEngine(createContext({ rules: taggingRules.slice(0, 1) }));
+
+      const result = await engine.evaluateRules(evalContext);
+
+      expect(result.action).toBe('APPROVE');
+      expect(result.tags).toEqual(['new-user']);
+    });
+
+    it('should trace tag conditions with the tags attached so far', async () => {
+      const engine = new RulesEngine(createContext({ rules: taggingRules }));
+
+      const { rules } = await engine.traceRules(evalContext);
+
+      expect(rules.map((rule) => rule.status)).toEqual(['matched', 'not_matched', 'matched']);
+    });
+  });
+
+  describe('Score mode', () => {
+    const scoringRules = {
+      evaluationMode: 'score',
+      thresholds: [
+        { score: 30, action: 'FLAG' },
+        { score: 50, action: 'REMOVE', actionConfig: { reason: 'Spam score {score}' } },
+      ],
+      rules: [
+        { id: 'new-account', name: 'New account', priority: 100, points: 20, conditions: matchingRules[0].conditions },
+        { id: 'spam-domain', name: 'Spam domain', priority: 50, points: 40, conditions: matchingRules[1].conditions },
+        { id: 'low-karma', name: 'Low karma', priority: 10, points: -5, conditions: matchingRules[2].conditions },
+        {
+          id: 'verified',
+          name: 'Verified email',
+          priority: 5,
+          points: -30,
+          conditions: { field: 'profile.emailVerified', operator: '==', value: true },
+        },
+      ],
+    };
+
+    it('should add up points and take the action of the highest threshold reached', async () => {
+      const engine = new RulesEngine(createContext(scoringRules));
+
+      const result = await engine.evaluateRules(evalContext);
+
+      expect(result.action).toBe('REMOVE');
+      expect(result.reason).toBe('Spam score 55');
+      expect(result.modlog).toBe('Score 55: New account +20, Spam domain +40, Low karma -5');
+      expect(result.matchedRule).toBe('spam-domain');
+      expect(result.matchedRules!.map((match) => match.ruleId)).toEqual(['new-account', 'spam-domain', 'low-karma']);
+      expect(result.score).toEqual({
+        total: 55,
+        threshold: 50,
+        contributions: [
+          { ruleId: 'new-account', ruleName: 'New account', points: 20 },
+          { ruleId: 'spam-domain', ruleName: 'Spam domain', points: 40 },
+          { ruleId: 'low-karma', ruleName: 'Low karma', points: -5 },
+        ],
+      });
+    });
+
+    it('should approve with the score breakdown when no threshold is reached', async () => {
+      const engine = new RulesEngine(createContext({ ...scoringRules, rules: scoringRules.rules.slice(0, 1) }));
+
+      const result = await engine.evaluateRules(evalContext);
+
+      expect(result.action).toBe('APPROVE');
+      expect(result.matchedRule).toBe('none');
+      expect(result.score).toEqual({
+        total: 20,
+        threshold: null,
+        contributions: [{ ruleId: 'new-account', ruleName: 'New account', points: 20 }],
+      });
+    });
+
+    it('should trace the points of each rule', async () => {
+      const engine = new RulesEngine(createContext(scoringRules));
+
+      const { result, rules } = await engine.traceRules(evalContext);
+
+      expect(result.score!.total).toBe(55);
+      expect(rules.map((rule) => rule.points)).toEqual([20, 40, -5, -30]);
+    });
+  });
+
+  describe('AI questions', () => {
+    it('should pass each question\'s preferred provider and model on', async () => {
+      const engine = new RulesEngine(
+        createContext({
+          rules: [
+            {
+              ai: { id: 'scam_check', question: 'Is this a scam?', provider: 'claude', model: 'claude-sonnet-4-5' },
+              conditions: { field: 'ai.answer', operator: '==', value: 'YES' },
+              action: 'REMOVE',
+            },
+            {
+              ai: { id: 'is_question', question: 'Is this a question?' },
+              conditions: { field: 'ai.answer', operator: '==', value: 'YES' },
+              action: 'FLAG',
+            },
+          ],
+        })
+      );
+
+      const questions = await engine.getRequiredAIQuestions('testsubreddit');
+
+      expect(questions).toEqual([
+        { id: 'scam_check', question: 'Is this a scam?', provider: 'claude', model: 'claude-sonnet-4-5' },
+        { id: 'is_question', question: 'Is this a question?' },
+      ]);
+    });
+  });
+
+  describe('Rule statistics', () => {
+    it('should count evaluations and matches of live evaluations only', async () => {
+      const context = createContext({ rules: matchingRules });
+      const hIncrBy = jest.fn(async () => 1);
+      context.redis.hIncrBy = hIncrBy;
+      const engine = new RulesEngine(context);
+
+      await engine.evaluateRules(evalContext);
+      await engine.traceRules(evalContext);
+
+      expect(hIncrBy.mock.calls).toEqual([
+        ['rule_stats:new-account', 'evaluations', 1],
+        ['rule_stats:new-account', 'matches', 1],
+      ]);
+    });
+
+    it('should count a rule without an id under the same key on every load', async () => {
+      const { id, ...ruleWithoutId } = matchingRules[0];
+      const context = createContext({ rules: [ruleWithoutId] });
+      const hIncrBy = jest.fn(async (_key: string, _field: string, _value: number) => 1);
+      context.redis.hIncrBy = hIncrBy;
+
+      await new RulesEngine(context).evaluateRules(evalContext);
+      await new RulesEngine(context).evaluateRules(evalContext);
+
+      const keys = new Set(hIncrBy.mock.calls.map(([key]) => key));
+      expect(hIncrBy).toHaveBeenCalledTimes(4);
+      expect(keys.size).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Tests for ConditionEvaluator operators and logical grouping
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { ConditionEvaluator } from '../evaluator.js';
+import { Condition, RuleEvaluationContext } from '../../types/rules.js';
+
+describe('ConditionEvaluator', () => {
+  let evaluator: ConditionEvaluator;
+
+  beforeEach(() => {
+    evaluator = new ConditionEvaluator();
+  });
+
+  const mockContext: RuleEvaluationContext = {
+    profile: {
+      userId: 'user123',
+      username: 'testuser',
+      accountAgeInDays: 30,
+      commentKarma: 100,
+      postKarma: 50,
+      totalKarma: 150,
+      emailVerified: true,
+      isModerator: false,
+      hasUserFlair: false,
+      hasPremium: false,
+      isVerified: false,
+      fetchedAt: new Date(),
+    },
+    currentPost: {
+      title: 'Test Post',
+      body: '   ',
+      subreddit: 'testsubreddit',
+      type: 'text',
+      urls: [],
+      domains: [],
+      wordCount: 2,
+      charCount: 9,
+      bodyLength: 3,
+      titleLength: 9,
+      hasMedia: false,
+      isEdited: false,
+    },
+    postHistory: {
+      userId: 'user123',
+      username: 'testuser',
+      items: [],
+      totalPosts: 0,
+      totalComments: 0,
+      subreddits: [],
+      metrics: {
+        totalItems: 0,
+        postsInTargetSubs: 0,
+        postsInDatingSubs: 0,
+        averageScore: 0,
+        oldestItemDate: new Date(),
+        newestItemDate: new Date(),
+      },
+      fetchedAt: new Date(),
+    },
+    subreddit: 'testsubreddit',
+  };
+
+  describe('NOT operator', () => {
+    it('should negate a single child condition', () => {
+      const condition: Condition = {
+        logicalOperator: 'NOT',
+        rules: [{ field: 'profile.emailVerified', operator: '==', value: true }],
+      };
+
+      expect(evaluator.evaluate(condition, mockContext)).toBe(false);
+      expect(evaluator.evaluateWithTrace(condition, mockContext).matched).toBe(false);
+    });
+
+    it('should match only when none of several children match', () => {
+      const neither: Condition = {
+        logicalOperator: 'NOT',
+        rules: [
+          { field: 'profile.isModerator', operator: '==', value: true },
+          { field: 'profile.totalKarma', operator: '>', value: 1000 },
+        ],
+      };
+      const oneMatches: Condition = {
+        logicalOperator: 'NOT',
+        rules: [...neither.rules!, { field: 'profile.accountAgeInDays', operator: '>=', value: 30 }],
+      };
+
+      expect(evaluator.evaluate(neither, mockContext)).toBe(true);
+      expect(evaluator.evaluate(oneMatches, mockContext)).toBe(false);
+      expect(evaluator.evaluateWithTrace(oneMatches, mockContext).matched).toBe(false);
+    });
+  });
+
+  describe('Existence operators', () => {
+    it('should check whether a field has a value', () => {
+      const flair: Condition = { field: 'profile.userFlairText', operator: 'exists' };
+      const noFlair: Condition = { field: 'profile.userFlairText', operator: 'not_exists' };
+      const karma: Condition = { field: 'profile.totalKarma', operator: 'exists' };
+
+      expect(evaluator.evaluate(flair, mockContext)).toBe(false);
+      expect(evaluator.evaluate(noFlair, mockContext)).toBe(true);
+      expect(evaluator.evaluate(karma, mockContext)).toBe(true);
+    });
+
+    it('should treat missing values, blank strings and empty arrays as empty', () => {
+      const isEmpty = (field: string) =>
+        evaluator.evaluate({ field, operator: 'is_empty' }, mockContext);
+
+      expect(isEmpty('profile.userFlairText')).toBe(true);
+      expect(isEmpty('currentPost.body')).toBe(true);
+      expect(isEmpty('currentPost.urls')).toBe(true);
+      expect(isEmpty('currentPost.title')).toBe(false);
+      expect(isEmpty('profile.totalKarma')).toBe(false);
+    });
+  });
+
+  describe('String and list operators', () => {
+    const linkContext: RuleEvaluationContext = {
+      ...mockContext,
+      currentPost: {
+        ...mockContext.currentPost,
+        title: '[WTS] Graphics card, barely used',
+        body: 'DM me on Telegram. No scams!',
+        domains: ['imgur.com', 'T.me'],
+      },
+    };
+    const matches = (field: string, operator: Condition['operator'], value: any) =>
+      evaluator.evaluate({ field, operator, value }, linkContext);
+
+    it('should match prefixes and suffixes with or without case', () => {
+      expect(matches('currentPost.title', 'starts_with', '[WTS]')).toBe(true);
+      expect(matches('currentPost.title', 'starts_with', '[wts]')).toBe(false);
+      expect(matches('currentPost.title', 'starts_with_i', '[wts]')).toBe(true);
+      expect(matches('currentPost.title', 'ends_with', 'used')).toBe(true);
+      expect(matches('currentPost.title', 'ends_with', 'USED')).toBe(false);
+      expect(matches('currentPost.title', 'ends_with_i', 'USED')).toBe(true);
+    });
+
+    it('should match whole words case-insensitively', () => {
+      expect(matches('currentPost.body', 'contains_word', 'scam')).toBe(false);
+      expect(matches('currentPost.body', 'contains_word', 'scams')).toBe(true);
+      expect(matches('currentPost.body', 'contains_word', 'dm me')).toBe(true);
+      expect(matches('currentPost.body', 'contains_word', 'gram')).toBe(false);
+    });
+
+    it('should match text and arrays against term lists', () => {
+      expect(matches('currentPost.body', 'contains_any', ['whatsapp', 'telegram'])).toBe(true);
+      expect(matches('currentPost.body', 'contains_all', ['telegram', 'whatsapp'])).toBe(false);
+      expect(matches('currentPost.domains', 'contains_all', ['t.me', 'imgur.com'])).toBe(true);
+      expect(matches('currentPost.domains', 'intersects', ['t.me', 'wa.me'])).toBe(true);
+      expect(matches('currentPost.domains', 'subset_of', ['imgur.com', 'i.redd.it'])).toBe(false);
+      expect(matches('currentPost.domains', 'subset_of', ['imgur.com', 't.me'])).toBe(true);
+    });
+
+    it('should compare lengths and ranges', () => {
+      expect(matches('currentPost.domains', 'length_eq', 2)).toBe(true);
+      expect(matches('currentPost.title', 'length_gt', 100)).toBe(false);
+      expect(matches('currentPost.body', 'length_lte', 28)).toBe(true);
+      expect(matches('profile.accountAgeInDays', 'between', [7, 30])).toBe(true);
+      expect(matches('profile.accountAgeInDays', 'between', [31, 60])).toBe(false);
+      expect(matches('profile.accountAgeInDays', 'between', 30)).toBe(false);
+    });
+  });
+
+  describe('Activity fields', () => {
+    it('should read activity counters and fail conditions when they are unavailable', () => {
+      const condition: Condition = { field: 'activity.postsLast24h', operator: '>', value: 3 };
+      const activityContext: RuleEvaluationContext = {
+        ...mockContext,
+        activity: {
+          postsLastHour: 2,
+          postsLast24h: 4,
+          postsLast7d: 9,
+          commentsLastHour: 0,
+          commentsLast24h: 1,
+          commentsLast7d: 12,
+        },
+      };
+
+      expect(evaluator.evaluate(condition, activityContext)).toBe(true);
+      expect(evaluator.evaluate(condition, mockContext)).toBe(false);
+      expect(evaluator.evaluate({ field: 'activity.postsLast24h', operator: 'not_exists' }, mockContext)).toBe(
+        true
+      );
+    });
+  });
+
+  describe('Thread fields', () => {
+    it('should read the thread context of comments', () => {
+      const threadContext: RuleEvaluationContext = {
+        ...mockContext,
+        thread: {
+          postTitle: 'Looking for hiking buddies',
+          postBody: '',
+          parentCommentBody: 'You should come along',
+          depth: 1,
+          isTopLevel: false,
+          authorIsOP: true,
+          ageInHours: 30,
+        },
+      };
+      const opReply: Condition = {
+        logicalOperator: 'AND',
+        rules: [
+          { field: 'thread.authorIsOP', operator: '==', value: true },
+          { field: 'thread.parentCommentBody', operator: 'contains', value: 'come along' },
+        ],
+      };
+
+      expect(evaluator.evaluate(opReply, threadContext)).toBe(true);
+      expect(evaluator.evaluate(opReply, mockContext)).toBe(false);
+      expect(evaluator.evaluate({ field: 'thread.ageInHours', operator: '>', value: 24 }, threadContext)).toBe(true);
+    });
+  });
+
+  describe('Text normalization', () => {
+    it('should match evasion spellings only when the condition normalizes', () => {
+      const evasionContext: RuleEvaluationContext = {
+        ...mockContext,
+        currentPost: { ...mockContext.currentPost, body: 'DM me on Т3le\u200Bgram for signals' },
+      };
+      const condition: Condition = { field: 'currentPost.body', operator: 'contains_i', value: 'telegram' };
+
+      expect(evaluator.evaluate(condition, evasionContext)).toBe(false);
+      expect(evaluator.evaluate({ ...condition, normalize: true }, evasionContext)).toBe(false);
+      expect(evaluator.evaluate({ ...condition, normalize: 'leetspeak' }, evasionContext)).toBe(true);
+      expect(
+        evaluator.evaluate(
+          { field: 'currentPost.body', operator: 'regex_i', value: '\\btelegram\\b', normalize: 'leetspeak' },
+          evasionContext
+        )
+      ).toBe(true);
+    });
+  });
+});
+
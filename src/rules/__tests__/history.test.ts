@@ -0,0 +1,113 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Tests for rules version history and rollback
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { RuleHistory } from '../history.js';
+
+/**
+ * Minimal in-memory stand-in for the Redis calls RuleHistory makes
+ */
+function createRedis(): any {
+  const store = new Map<string, string>();
+  return {
+    get: async (key: string) => store.get(key),
+    set: async (key: string, value: string) => {
+      store.set(key, value);
+    },
+    del: async (key: string) => {
+      store.delete(key);
+    },
+    incrBy: async (key: string, value: number) => {
+      const next = Number(store.get(key) ?? 0) + value;
+      store.set(key, String(next));
+      return next;
+    },
+    mGet: async (keys: string[]) => keys.map((key) => store.get(key) ?? null),
+  };
+}
+
+const spamRule = {
+  name: 'Spam links',
+  conditions: { field: 'currentPost.domains', operator: 'contains', value: 'spam.example' },
+  action: 'REMOVE',
+};
+const newAccountRule = {
+  name: 'New accounts',
+  conditions: { field: 'profile.accountAgeInDays', operator: '<', value: 7 },
+  action: 'FLAG',
+};
+
+const v1 = JSON.stringify({ rules: [spamRule] });
+const v2 = JSON.stringify({ rules: [{ ...spamRule, action: 'SPAM' }, newAccountRule] });
+
+describe('RuleHistory', () => {
+  it('should record validated changes with a summary', async () => {
+    const history = new RuleHistory(createRedis());
+
+    await history.recordVersion(v1, 'alice');
+    await history.recordVersion(v1, 'alice');
+    await history.recordVersion('{ not json', 'bob');
+    await history.recordVersion(v2, 'bob');
+
+    const versions = await history.listVersions();
+    expect(versions.map((version) => version.version)).toEqual([2, 1]);
+    expect(versions[0].editor).toBe('bob');
+    expect(versions[0].summary).toBe('1 added (New accounts); 1 changed (Spam links)');
+    expect(versions[1].summary).toBe('Initial version (1 rules)');
+  });
+
+  it('should not report timestamps filled in by the validator as changes', async () => {
+    const history = new RuleHistory(createRedis());
+    // Every parse (previous and new version) happens at a different time
+    let clock = 1_700_000_000_000;
+    const now = jest.spyOn(Date, 'now').mockImplementation(() => (clock += 1000));
+
+    try {
+      await history.recordVersion(v1, 'alice');
+      await history.recordVersion(JSON.stringify(JSON.parse(v1), null, 2), 'alice');
+    } finally {
+      now.mockRestore();
+    }
+
+    const versions = await history.listVersions();
+    expect(versions).toHaveLength(2);
+    expect(versions[0].summary).toBe('No rule changes (formatting only)');
+  });
+
+  it('should override the setting after a rollback until the setting changes', async () => {
+    const history = new RuleHistory(createRedis());
+    await history.recordVersion(v1, 'alice');
+    await history.recordVersion(v2, 'bob');
+
+    const saved = await history.rollback(1, v2, 'carol');
+
+    expect(saved.version).toBe(3);
+    expect(saved.rolledBackFrom).toBe(1);
+    expect(saved.summary).toBe('Rolled back to version 1: 1 removed (New accounts); 1 changed (Spam links)');
+    expect(await history.getActiveOverride(v2)).toBe(v1);
+    expect(await history.getRollbackVersion()).toBe(3);
+
+    // Editing the setting ends the rollback
+    expect(await history.getActiveOverride(JSON.stringify({ rules: [newAccountRule] }))).toBeNull();
+    expect(await history.getRollbackVersion()).toBeNull();
+  });
+});
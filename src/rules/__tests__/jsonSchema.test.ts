@@ -0,0 +1,55 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Tests for the published rules JSON Schema
+ *
+ * docs/rules.schema.json must match RuleSchemaValidator.getJsonSchema().
+ * Regenerate it with `npm run schema`.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { readFileSync, writeFileSync } from 'fs';
+import { RuleSchemaValidator } from '../schemaValidator.js';
+import { AVAILABLE_FIELDS } from '../../types/rules.js';
+
+const SCHEMA_PATH = 'docs/rules.schema.json';
+
+describe('Rules JSON Schema', () => {
+  const schema = RuleSchemaValidator.getJsonSchema() as any;
+
+  it('should list every available field and operator', () => {
+    const fieldPaths = schema.definitions.field.anyOf
+      .filter((entry: any) => entry.const)
+      .map((entry: any) => entry.const);
+
+    expect(fieldPaths).toEqual(Object.keys(AVAILABLE_FIELDS));
+    expect(schema.definitions.leafCondition.properties.operator.enum).toContain('contains_word');
+    expect(schema.definitions.conditionGroup.properties.logicalOperator.enum).toEqual(['AND', 'OR', 'NOT']);
+  });
+
+  it('should match the published schema file', () => {
+    const generated = `${JSON.stringify(schema, null, 2)}\n`;
+
+    if (process.env.UPDATE_RULES_SCHEMA) {
+      writeFileSync(SCHEMA_PATH, generated);
+    }
+
+    expect(readFileSync(SCHEMA_PATH, 'utf8')).toBe(generated);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Tests for falling back to the last known good rules
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { loadRulesFromSettings } from '../schemaValidator.js';
+
+/**
+ * Create a minimal Devvit context whose settings and wiki page can be changed
+ */
+function createContext(): any {
+  const store = new Map<string, string>();
+  const settings: Record<string, unknown> = {};
+  const wiki = { content: '', revisionId: 'rev-1' };
+  return {
+    subredditId: 't5_test',
+    settings: {
+      getAll: async () => settings,
+      values: settings,
+    },
+    wiki,
+    reddit: {
+      getWikiPage: async () => ({ ...wiki, revisionAuthor: { username: 'editor' } }),
+      modMail: { createModInboxConversation: jest.fn(async () => ({})) },
+    },
+    redis: {
+      get: async (key: string) => store.get(key),
+      set: async (key: string, value: string) => {
+        store.set(key, value);
+      },
+      del: async (key: string) => {
+        store.delete(key);
+      },
+    },
+  };
+}
+
+const validRules = JSON.stringify({
+  rules: [
+    {
+      id: 'new-accounts',
+      conditions: { field: 'profile.accountAgeInDays', operator: '<', value: 7 },
+      action: 'FLAG',
+    },
+  ],
+});
+
+describe('Last known good rules', () => {
+  it('should keep the last valid rules and alert once when the setting breaks', async () => {
+    const context = createContext();
+
+    context.settings.values.rulesJson = validRules;
+    const loaded = await loadRulesFromSettings(context, 'FriendsOver40');
+
+    context.settings.values.rulesJson = '{ "rules": [ { "action": "FLAG", } ] }';
+    const first = await loadRulesFromSettings(context, 'FriendsOver40');
+    const second = await loadRulesFromSettings(context, 'FriendsOver40');
+
+    expect(first).toEqual(loaded);
+    expect(second).toEqual(loaded);
+
+    const alert = context.reddit.modMail.createModInboxConversation;
+    expect(alert).toHaveBeenCalledTimes(1);
+    expect(alert.mock.calls[0][0].bodyMarkdown).toContain('JSON syntax error at line 1');
+    expect(alert.mock.calls[0][0].bodyMarkdown).toContain('the last known good rules');
+  });
+
+  it('should keep the last valid wiki revision when a new revision is invalid', async () => {
+    const context = createContext();
+    context.settings.values.rulesWikiPage = 'aiautomod';
+    context.settings.values.rulesJson = JSON.stringify({ rules: [] });
+
+    context.wiki.content = validRules;
+    const loaded = await loadRulesFromSettings(context, 'FriendsOver40');
+
+    context.wiki.content = 'rules: [ {';
+    context.wiki.revisionId = 'rev-2';
+    await context.redis.del('rules:wiki:aiautomod:current'); // The page is read again after a minute
+    const first = await loadRulesFromSettings(context, 'FriendsOver40');
+    const second = await loadRulesFromSettings(context, 'FriendsOver40');
+
+    expect(loaded.rules[0].id).toBe('new-accounts');
+    expect(first).toEqual(loaded);
+    expect(second).toEqual(loaded);
+
+    const alert = context.reddit.modMail.createModInboxConversation;
+    expect(alert).toHaveBeenCalledTimes(1);
+    expect(alert.mock.calls[0][0].bodyMarkdown).toContain('revision rev-2 by u/editor');
+    expect(alert.mock.calls[0][0].bodyMarkdown).toContain('the last known good rules');
+  });
+
+  it('should use the defaults if rules never validated', async () => {
+    const context = createContext();
+    context.settings.values.rulesJson = '{ "rules": "FLAG" }';
+
+    const loaded = await loadRulesFromSettings(context, 'somesubreddit');
+
+    expect(loaded.rules).toEqual([]);
+    const alert = context.reddit.modMail.createModInboxConversation;
+    expect(alert.mock.calls[0][0].bodyMarkdown).toContain("'rules' must be an array");
+    expect(alert.mock.calls[0][0].bodyMarkdown).toContain('the default rules are used');
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Tests for catastrophic-backtracking detection in rule regexes
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { findRegexHazard } from '../regexSafety.js';
+
+describe('findRegexHazard', () => {
+  it('should flag nested quantifiers', () => {
+    const patterns = [
+      '(a+)+',
+      '(a*)*',
+      '(.*)+',
+      '(\\d+)*$',
+      '(?:\\w+\\s?)+$',
+      '(\\w+\\w?\\.)+',
+      '((a+)b?)*',
+      '([a-z]+){2,}',
+      '(x+x+)+y',
+    ];
+
+    for (const pattern of patterns) {
+      expect(findRegexHazard(pattern)).toContain('nested quantifier');
+    }
+  });
+
+  it('should flag repeated alternatives that overlap', () => {
+    expect(findRegexHazard('(a|ab)*c')).toContain('overlapping alternation');
+    expect(findRegexHazard('(\\w|\\d)+$')).toContain('overlapping alternation');
+    expect(findRegexHazard('(?:[a-z]|x)+!')).toContain('overlapping alternation');
+    expect(findRegexHazard('(A|a)+b', 'i')).toContain('overlapping alternation');
+    expect(findRegexHazard('(A|a)+b')).toBeNull();
+  });
+
+  it('should flag repeated groups that can match empty text', () => {
+    const patterns = ['(?:a?){25}a{25}', '(?:x?y?){3,}', '(a|)+b', '((?:ab)?)*c'];
+
+    for (const pattern of patterns) {
+      expect(findRegexHazard(pattern)).toContain('can match empty text');
+    }
+  });
+
+  it('should accept common safe patterns', () => {
+    const patterns = [
+      'buy.*now',
+      '\\b(crypto|forex)\\s+signals?\\b',
+      '^[A-Z\\s!]{20,}$',
+      '(?:https?|ftp)://\\S+',
+      '(cat|dog)+',
+      '\\d{3}-\\d{4}',
+      '(a+)?b',
+      '(?<![\\p{L}\\p{N}_])word(?![\\p{L}\\p{N}_])',
+      '[(]+\\)',
+    ];
+
+    for (const pattern of patterns) {
+      expect(findRegexHazard(pattern)).toBeNull();
+    }
+  });
+
+  it('should accept repeated groups whose repeated part ends at a required delimiter', () => {
+    const patterns = [
+      '(\\d{1,3}\\.){3}\\d{1,3}',
+      '(\\w+\\.)+com',
+      '(\\w+\\s)+',
+      '([a-z]+-)+',
+      '((ab)+c)*',
+      '(ba+)+',
+      '(?:\\w+\\s?,)+$',
+    ];
+
+    for (const pattern of patterns) {
+      expect(findRegexHazard(pattern)).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,714 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Tests for RuleSchemaValidator rule-level features
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { RuleSchemaValidator, validateRulesSetting } from '../schemaValidator.js';
+
+describe('RuleSchemaValidator', () => {
+  describe('YAML input', () => {
+    it('should accept YAML rules like JSON rules', async () => {
+      const yaml = [
+        'evaluationMode: most_severe',
+        'lists:',
+        '  spam_domains: [spam.example, scam.example]',
+        'rules:',
+        '  - id: spam-links',
+        '    conditions:',
+        '      field: currentPost.domains',
+        '      operator: intersects',
+        "      value: '@list:spam_domains'",
+        '    action: REMOVE',
+      ].join('\n');
+
+      const result = await RuleSchemaValidator.validateAndMigrate(yaml);
+
+      expect(result.success).toBe(true);
+      expect(result.warnings ?? []).toEqual([]);
+      expect(result.data!.evaluationMode).toBe('most_severe');
+      expect(result.data!.rules[0].conditions.value).toBe('@list:spam_domains');
+    });
+
+    it('should report YAML syntax errors with their position', async () => {
+      const result = await RuleSchemaValidator.validateAndMigrate('rules:\n  - action: [REMOVE\n');
+
+      expect(result.success).toBe(false);
+      expect(result.details).toBe('YAML parsing failed');
+      expect(result.error).toMatch(/^YAML syntax error: .*line \d+/s);
+    });
+  });
+
+  describe('Settings validation', () => {
+    it('should reject invalid rules with the error location', async () => {
+      const json = '{\n  "rules": [\n    { "action": "REMOVE", }\n  ]\n}';
+
+      expect(await validateRulesSetting(json)).toMatch(
+        /^Rules not saved: JSON syntax error at line 3, column 27: .* \(JSON parsing failed\)$/
+      );
+      expect(await validateRulesSetting('{ "rules": [{ "action": "REMOVE" }, "REMOVE"] }')).toBe(
+        "Rules not saved: 'rules[1]' must be an object"
+      );
+    });
+
+    it('should reject structurally invalid rules with the rule and condition path', async () => {
+      const validCondition = { field: 'profile.accountAgeInDays', operator: '<', value: 7 };
+      const cases: Array<[object, string]> = [
+        [{ id: 'typo', conditions: validCondition, action: 'REMOV' }, "Rule 0 (typo): invalid 'action'"],
+        [{ id: 'no-action', conditions: validCondition }, "Rule 0 (no-action): missing 'action' field"],
+        [{ id: 'no-conditions', action: 'FLAG' }, "Rule 0 (no-conditions): missing 'conditions' field"],
+        [
+          { id: 'bad-operator', conditions: { field: 'profile.totalKarma', operator: '<<', value: 5 }, action: 'FLAG' },
+          "Rule 0 (bad-operator): 'conditions' has invalid 'operator'",
+        ],
+        [
+          {
+            id: 'bad-logical',
+            conditions: { logicalOperator: 'XOR', rules: [validCondition] },
+            action: 'FLAG',
+          },
+          "Rule 0 (bad-logical): 'conditions' has invalid 'logicalOperator'",
+        ],
+        [
+          {
+            id: 'nested',
+            conditions: { logicalOperator: 'AND', rules: [validCondition, { field: 'profile.totalKarma' }] },
+            action: 'FLAG',
+          },
+          "Rule 0 (nested): 'conditions.rules[1]' with 'field' must have 'operator'",
+        ],
+      ];
+
+      for (const [rule, message] of cases) {
+        const json = JSON.stringify({ rules: [rule] });
+
+        expect(await validateRulesSetting(json)).toContain(`Rules not saved: ${message}`);
+        expect((await RuleSchemaValidator.validateAndMigrate(json)).success).toBe(true);
+      }
+    });
+
+    it('should accept empty and valid rules', async () => {
+      expect(await validateRulesSetting('  ')).toBeUndefined();
+      expect(
+        await validateRulesSetting(
+          JSON.stringify({ rules: [{ conditions: { field: 'profile.accountAgeInDays', operator: '<', value: 7 }, action: 'FLAG' }] })
+        )
+      ).toBeUndefined();
+    });
+  });
+
+  describe('Tagging rules', () => {
+    it('should validate tags and tag conditions', async () => {
+      const json = JSON.stringify({
+        rules: [
+          {
+            name: 'Crypto',
+            conditions: { field: 'currentPost.body', operator: 'contains_i', value: 'bitcoin' },
+            action: 'TAG',
+            actionConfig: { tags: ['contains-crypto', 'bad tag'] },
+          },
+          {
+            name: 'No tags',
+            conditions: { field: 'currentPost.body', operator: 'contains_i', value: 'nft' },
+            action: 'TAG',
+          },
+          {
+            name: 'Crypto from new users',
+            conditions: {
+              logicalOperator: 'AND',
+              rules: [
+                { field: 'tags.contains-crypto', operator: '==', value: true },
+                { field: 'tags.new-user', operator: '==', value: true },
+              ],
+            },
+            actions: [{ action: 'TAG' }, { action: 'REMOVE' }],
+          },
+        ],
+      });
+
+      const result = await RuleSchemaValidator.validateAndMigrate(json);
+      const [crypto, noTags, combined] = result.data!.rules;
+
+      expect(crypto.actionConfig.tags).toEqual(['contains-crypto']);
+      expect(noTags.enabled).toBe(false);
+      expect(combined.actions!.map((step) => step.action)).toEqual(['REMOVE']);
+      expect(result.warnings).toEqual([
+        expect.stringContaining("invalid tag 'bad tag'"),
+        expect.stringContaining("TAG requires 'actionConfig.tags'"),
+        expect.stringContaining("actions[0] can't be TAG"),
+        expect.stringContaining("tag 'new-user' is not attached by any TAG rule"),
+      ]);
+    });
+  });
+
+  describe('Score mode', () => {
+    it('should validate thresholds and points', async () => {
+      const json = JSON.stringify({
+        evaluationMode: 'score',
+        thresholds: [
+          { score: 20, action: 'FLAG' },
+          { score: 'high', action: 'REMOVE' },
+          { score: 60, action: 'REMOVE' },
+          { score: 40, action: 'TAG' },
+        ],
+        rules: [
+          {
+            name: 'New account',
+            points: 20,
+            conditions: { field: 'profile.accountAgeInDays', operator: '<', value: 7 },
+            action: 'REMOVE',
+          },
+          {
+            name: 'Low karma',
+            conditions: { field: 'profile.totalKarma', operator: '<', value: 10 },
+          },
+          {
+            name: 'Crypto',
+            points: 10,
+            conditions: { field: 'currentPost.body', operator: 'contains_i', value: 'bitcoin' },
+            action: 'TAG',
+            actionConfig: { tags: ['crypto'] },
+          },
+        ],
+      });
+
+      const result = await RuleSchemaValidator.validateAndMigrate(json);
+      const [newAccount, lowKarma, crypto] = result.data!.rules;
+
+      expect(result.data!.thresholds!.map((threshold) => threshold.score)).toEqual([60, 20]);
+      expect(newAccount.action).toBe('APPROVE');
+      expect(lowKarma.points).toBeUndefined();
+      expect(crypto.points).toBeUndefined();
+      expect(result.warnings).toEqual([
+        expect.stringContaining('thresholds[1].score must be a number'),
+        expect.stringContaining("thresholds[3] has invalid 'action'"),
+        expect.stringContaining("'action' (REMOVE) is ignored in score mode"),
+        expect.stringContaining("no 'points'"),
+        expect.stringContaining("TAG rules add no points"),
+      ]);
+    });
+
+    it('should warn about points and thresholds outside score mode', async () => {
+      const json = JSON.stringify({
+        thresholds: [{ score: 10, action: 'FLAG' }],
+        rules: [
+          {
+            name: 'New account',
+            points: 20,
+            conditions: { field: 'profile.accountAgeInDays', operator: '<', value: 7 },
+            action: 'FLAG',
+          },
+        ],
+      });
+
+      const result = await RuleSchemaValidator.validateAndMigrate(json);
+
+      expect(result.warnings).toEqual([
+        expect.stringContaining("'thresholds' only apply to evaluationMode 'score'"),
+        expect.stringContaining("'points' only applies to evaluationMode 'score'"),
+      ]);
+    });
+  });
+
+  describe('AI provider overrides', () => {
+    it('should keep valid provider/model overrides and drop invalid ones', async () => {
+      const json = JSON.stringify({
+        rules: [
+          {
+            ai: { id: 'scam_check', question: 'Is this a scam?', provider: 'claude', model: 'claude-sonnet-4-5' },
+            conditions: { field: 'ai.answer', operator: '==', value: 'YES' },
+            action: 'REMOVE',
+          },
+          {
+            ai: { id: 'is_question', question: 'Is this a question?', provider: 'gemini' },
+            conditions: { field: 'ai.answer', operator: '==', value: 'YES' },
+            action: 'FLAG',
+          },
+          {
+            ai: { id: 'is_selfie', question: 'Is this a selfie?', model: 'gpt-4o' },
+            conditions: { field: 'ai.answer', operator: '==', value: 'YES' },
+            action: 'FLAG',
+          },
+          {
+            ai: { id: 'is_ad', question: 'Is this an ad?', provider: 'openai', model: 'gpt-9-ultra' },
+            conditions: { field: 'ai.answer', operator: '==', value: 'YES' },
+            action: 'FLAG',
+          },
+          {
+            ai: { id: 'is_meme', question: 'Is this a meme?', provider: 'openai-compatible', model: 'llama-3.3-70b' },
+            conditions: { field: 'ai.answer', operator: '==', value: 'YES' },
+            action: 'FLAG',
+          },
+        ],
+      });
+
+      const result = await RuleSchemaValidator.validateAndMigrate(json);
+      const [scam, question, selfie, ad, meme] = result.data!.rules as any[];
+
+      expect(scam.ai).toMatchObject({ provider: 'claude', model: 'claude-sonnet-4-5' });
+      expect(question.ai.provider).toBeUndefined();
+      expect(selfie.ai.model).toBeUndefined();
+      expect(ad.ai).toMatchObject({ provider: 'openai' });
+      expect(ad.ai.model).toBeUndefined();
+      expect(meme.ai.model).toBe('llama-3.3-70b');
+      expect(result.warnings).toEqual([
+        expect.stringContaining("invalid 'ai.provider'"),
+        expect.stringContaining("'ai.model' requires 'ai.provider'"),
+        expect.stringContaining("unknown 'openai' model 'gpt-9-ultra' (must be one of gpt-4o-mini,"),
+      ]);
+    });
+  });
+
+  describe('Multi-action rules', () => {
+    it('should accept an ordered actions list and derive the primary action', async () => {
+      const json = JSON.stringify({
+        rules: [
+          {
+            name: 'Spam link',
+            conditions: { field: 'currentPost.domains', operator: 'contains', value: 'spam.example' },
+            actions: [
+              { action: 'REMOVE' },
+              { action: 'COMMENT', actionConfig: { reason: 'Links to spam.example are not allowed' } },
+              { action: 'FLAG', actionConfig: { reason: 'Spam domain removed' } },
+            ],
+          },
+        ],
+      });
+
+      const result = await RuleSchemaValidator.validateAndMigrate(json);
+
+      expect(result.success).toBe(true);
+      expect(result.warnings).toBeUndefined();
+      const rule = result.data!.rules[0];
+      expect(rule.action).toBe('REMOVE');
+      expect(rule.actions!.map((step) => step.action)).toEqual(['REMOVE', 'COMMENT', 'FLAG']);
+    });
+
+    it('should drop invalid steps with a warning', async () => {
+      const json = JSON.stringify({
+        rules: [
+          {
+            conditions: { field: 'profile.totalKarma', operator: '<', value: 10 },
+            actions: [{ action: 'FLAG' }, { action: 'EXPLODE' }, 'COMMENT'],
+          },
+        ],
+      });
+
+      const result = await RuleSchemaValidator.validateAndMigrate(json);
+
+      expect(result.success).toBe(true);
+      expect(result.data!.rules[0].actions).toEqual([{ action: 'FLAG' }]);
+      expect(result.data!.rules[0].action).toBe('FLAG');
+      expect(result.warnings).toHaveLength(2);
+    });
+
+    it('should warn when a single action conflicts with the actions list', async () => {
+      const json = JSON.stringify({
+        rules: [
+          {
+            conditions: { field: 'profile.totalKarma', operator: '<', value: 10 },
+            action: 'APPROVE',
+            actions: [{ action: 'COMMENT' }, { action: 'FLAG' }],
+          },
+        ],
+      });
+
+      const result = await RuleSchemaValidator.validateAndMigrate(json);
+
+      expect(result.data!.rules[0].action).toBe('FLAG');
+      expect(result.warnings![0]).toContain("'action' (APPROVE) is ignored");
+    });
+  });
+
+  describe('Moderation action options', () => {
+    it('should accept BAN with a duration and clamp it to the Reddit limit', async () => {
+      const json = JSON.stringify({
+        rules: [
+          {
+            conditions: { field: 'profile.totalKarma', operator: '<', value: -100 },
+            action: 'BAN',
+            actionConfig: { reason: 'Troll', ban: { duration: 5000, message: 'Banned for trolling' } },
+          },
+        ],
+      });
+
+      const result = await RuleSchemaValidator.validateAndMigrate(json);
+
+      const rule = result.data!.rules[0];
+      expect(rule.action).toBe('BAN');
+      expect(rule.enabled).toBe(true);
+      expect(rule.actionConfig.ban!.duration).toBe(999);
+      expect(result.warnings![0]).toContain('ban.duration adjusted');
+    });
+
+    it('should disable a BAN rule with an unreadable duration instead of banning permanently', async () => {
+      const json = JSON.stringify({
+        rules: [
+          {
+            conditions: { field: 'profile.totalKarma', operator: '<', value: -100 },
+            action: 'BAN',
+            actionConfig: { reason: 'Troll', ban: { duration: '7d' } },
+          },
+        ],
+      });
+
+      const result = await RuleSchemaValidator.validateAndMigrate(json);
+
+      expect(result.data!.rules[0].enabled).toBe(false);
+      expect(result.warnings![0]).toContain('rule disabled');
+    });
+
+    it('should round ban durations up to whole days and make permanent bans explicit', async () => {
+      const banRule = (ban: object) => ({
+        conditions: { field: 'profile.totalKarma', operator: '<', value: -100 },
+        action: 'BAN',
+        actionConfig: { reason: 'Troll', ban },
+      });
+      const json = JSON.stringify({
+        rules: [
+          banRule({ duration: 0.4 }),
+          banRule({ duration: 2.5 }),
+          banRule({ duration: 0 }),
+          banRule({ permanent: true }),
+          banRule({ permanent: true, duration: 7 }),
+          banRule({ permanent: false }),
+        ],
+      });
+
+      const result = await RuleSchemaValidator.validateAndMigrate(json);
+      const rules = result.data!.rules;
+
+      expect(rules.map((rule) => rule.actionConfig.ban)).toEqual([
+        { duration: 1 },
+        { duration: 3 },
+        { permanent: true },
+        { permanent: true },
+        { permanent: true, duration: 7 },
+        { permanent: false },
+      ]);
+      expect(rules.map((rule) => rule.enabled)).toEqual([true, true, true, true, false, false]);
+      expect(result.warnings).toEqual([
+        expect.stringContaining('ban.duration adjusted from 0.4 to 1'),
+        expect.stringContaining('ban.duration adjusted from 2.5 to 3'),
+        expect.stringContaining("ban.duration 0 is read as a permanent ban, use 'permanent: true'"),
+        expect.stringContaining("can't have both 'permanent: true' and a 'duration', rule disabled"),
+        expect.stringContaining("'permanent: false' but no 'duration', rule disabled"),
+      ]);
+    });
+
+    it('should warn when SET_FLAIR has no flair text or template', async () => {
+      const json = JSON.stringify({
+        rules: [
+          {
+            conditions: { field: 'profile.accountAgeInDays', operator: '<', value: 7 },
+            actions: [
+              { action: 'SET_FLAIR', actionConfig: { flair: { target: 'user' } } },
+              { action: 'LOCK' },
+            ],
+          },
+        ],
+      });
+
+      const result = await RuleSchemaValidator.validateAndMigrate(json);
+
+      expect(result.data!.rules[0].action).toBe('LOCK');
+      expect(result.data!.rules[0].actions![0].actionConfig!.flair).toBeUndefined();
+      expect(result.warnings).toHaveLength(2);
+      expect(result.warnings![0]).toContain("actions[0].actionConfig.flair must have 'text' or 'templateId'");
+      expect(result.warnings![1]).toContain("SET_FLAIR requires 'actionConfig.flair'");
+    });
+  });
+
+  describe('Conditions', () => {
+    it('should accept NOT groups and existence operators', async () => {
+      const json = JSON.stringify({
+        rules: [
+          {
+            conditions: {
+              logicalOperator: 'NOT',
+              rules: [{ field: 'profile.userFlairText', operator: 'exists' }],
+            },
+            action: 'FLAG',
+          },
+        ],
+      });
+
+      const result = await RuleSchemaValidator.validateAndMigrate(json);
+
+      expect(result.success).toBe(true);
+      expect(result.warnings).toBeUndefined();
+    });
+
+    it('should warn about invalid operators in nested conditions', async () => {
+      const json = JSON.stringify({
+        rules: [
+          {
+            conditions: {
+              logicalOperator: 'XOR',
+              rules: [
+                { field: 'profile.totalKarma', operator: '=>', value: 10 },
+                { field: 'currentPost.body', operator: 'is_empty', value: true },
+                { logicalOperator: 'NOT', rules: [] },
+              ],
+            },
+            action: 'FLAG',
+          },
+        ],
+      });
+
+      const result = await RuleSchemaValidator.validateAndMigrate(json);
+
+      expect(result.warnings).toHaveLength(4);
+      expect(result.warnings![0]).toContain("'conditions' has invalid 'logicalOperator'");
+      expect(result.warnings![1]).toContain("'conditions.rules[0]' has invalid 'operator'");
+      expect(result.warnings![2]).toContain("'conditions.rules[1]' operator 'is_empty' takes no 'value'");
+      expect(result.warnings![3]).toContain("'conditions.rules[2].rules' must be a non-empty array");
+    });
+
+    it('should check operator values and field types', async () => {
+      const json = JSON.stringify({
+        rules: [
+          {
+            conditions: {
+              logicalOperator: 'AND',
+              rules: [
+                { field: 'currentPost.domains', operator: 'intersects', value: ['t.me'] },
+                { field: 'profile.accountAgeInDays', operator: 'between', value: [30, 7] },
+                { field: 'currentPost.title', operator: 'length_gt', value: '100' },
+                { field: 'profile.totalKarma', operator: 'starts_with', value: '1' },
+                { field: 'ai.answer', operator: 'contains_any', value: ['YES'] },
+              ],
+            },
+            action: 'FLAG',
+          },
+        ],
+      });
+
+      const result = await RuleSchemaValidator.validateAndMigrate(json);
+
+      expect(result.warnings).toHaveLength(3);
+      expect(result.warnings![0]).toContain("'conditions.rules[1]' operator 'between' requires 'value' as [min, max]");
+      expect(result.warnings![1]).toContain("'conditions.rules[2]' operator 'length_gt' requires a non-negative number");
+      expect(result.warnings![2]).toContain(
+        "operator 'starts_with' does not apply to number field 'profile.totalKarma'"
+      );
+    });
+
+    it('should validate normalize', async () => {
+      const json = JSON.stringify({
+        rules: [
+          {
+            conditions: {
+              logicalOperator: 'OR',
+              rules: [
+                { field: 'currentPost.body', operator: 'contains_i', value: 'telegram', normalize: 'leetspeak' },
+                { field: 'currentPost.title', operator: 'contains_i', value: 'telegram', normalize: 'yes' },
+                { field: 'profile.totalKarma', operator: '<', value: 10, normalize: true },
+              ],
+            },
+            action: 'FLAG',
+          },
+        ],
+      });
+
+      const result = await RuleSchemaValidator.validateAndMigrate(json);
+      const rules = (result.data!.rules[0].conditions as any).rules;
+
+      expect(rules[0].normalize).toBe('leetspeak');
+      expect(rules[1].normalize).toBeUndefined();
+      expect(result.warnings).toEqual([
+        expect.stringContaining("invalid 'normalize'"),
+        expect.stringContaining("'normalize' has no effect on number field"),
+      ]);
+    });
+  });
+
+  describe('Regex safety', () => {
+    it('should disable only the rules whose regex can backtrack catastrophically', async () => {
+      const json = JSON.stringify({
+        rules: [
+          {
+            id: 'shouting',
+            conditions: {
+              logicalOperator: 'OR',
+              rules: [
+                { field: 'currentPost.title', operator: 'regex', value: '^[A-Z\\s]{20,}$' },
+                { field: 'currentPost.body', operator: 'regex_i', value: '(\\w+\\s?)+$' },
+              ],
+            },
+            action: 'FLAG',
+          },
+          {
+            id: 'ip-address',
+            conditions: { field: 'currentPost.body', operator: 'regex', value: '(\\d{1,3}\\.){3}\\d{1,3}' },
+            action: 'FLAG',
+          },
+        ],
+      });
+
+      const result = await RuleSchemaValidator.validateAndMigrate(json);
+
+      expect(result.success).toBe(true);
+      expect(result.warnings).toEqual([
+        expect.stringContaining(
+          "Rule 0 (shouting): 'conditions.rules[1]' regex '(\\w+\\s?)+$' is unsafe: nested quantifier"
+        ),
+      ]);
+      expect(result.warnings![0]).toContain('rule disabled');
+      expect(result.data!.rules.map((rule) => rule.enabled)).toEqual([false, true]);
+      expect(await validateRulesSetting(json)).toBeUndefined();
+    });
+
+    it('should warn about regexes that never match', async () => {
+      const json = JSON.stringify({
+        rules: [
+          {
+            conditions: {
+              logicalOperator: 'OR',
+              rules: [
+                { field: 'currentPost.body', operator: 'regex', value: '[unclosed' },
+                { field: 'currentPost.body', operator: 'regex', value: 'a'.repeat(201) },
+              ],
+            },
+            action: 'FLAG',
+          },
+        ],
+      });
+
+      const result = await RuleSchemaValidator.validateAndMigrate(json);
+
+      expect(result.success).toBe(true);
+      expect(result.warnings).toEqual([
+        expect.stringContaining('has an invalid pattern'),
+        expect.stringContaining('longer than 200 characters'),
+      ]);
+    });
+  });
+
+  describe('Named lists', () => {
+    it('should validate lists and the references to them', async () => {
+      const json = JSON.stringify({
+        lists: {
+          scam_domains: ['spam.example', 42],
+          'bad name': ['x'],
+          keywords: 'telegram',
+        },
+        rules: [
+          {
+            conditions: {
+              logicalOperator: 'OR',
+              rules: [
+                { field: 'currentPost.domains', operator: 'intersects', value: '@list:scam_domains' },
+                { field: 'currentPost.body', operator: 'contains_any', value: '@list:keywords' },
+                { field: 'currentPost.title', operator: 'contains', value: '@list:scam_domains' },
+              ],
+            },
+            action: 'REMOVE',
+          },
+        ],
+      });
+
+      const result = await RuleSchemaValidator.validateAndMigrate(json);
+
+      expect(result.data!.lists).toEqual({ scam_domains: ['spam.example'] });
+      expect(result.warnings).toEqual([
+        "List 'scam_domains': non-string items removed",
+        "List 'bad name': name may only contain letters, digits, '_' and '-', ignoring",
+        "List 'keywords': must be an array, ignoring",
+        expect.stringContaining("operator 'contains_any' references unknown list 'keywords'"),
+        expect.stringContaining("operator 'contains' can't use list 'scam_domains'"),
+      ]);
+    });
+  });
+
+  describe('Scheduled rules', () => {
+    it('should disable rules with unreadable schedules', async () => {
+      const json = JSON.stringify({
+        rules: [
+          {
+            id: 'bad-date',
+            conditions: { field: 'profile.totalKarma', operator: '<', value: 10 },
+            action: 'REMOVE',
+            activeUntil: 'next friday',
+          },
+          {
+            id: 'windows',
+            conditions: { field: 'profile.totalKarma', operator: '<', value: 10 },
+            action: 'REMOVE',
+            activeWindows: [{ days: [6, 7] }, { days: [0], startHour: 8, endHour: 20 }],
+          },
+          {
+            id: 'no-windows',
+            conditions: { field: 'profile.totalKarma', operator: '<', value: 10 },
+            action: 'REMOVE',
+            activeWindows: [{ startHour: 25 }],
+          },
+        ],
+      });
+
+      const result = await RuleSchemaValidator.validateAndMigrate(json);
+      const [badDate, windows, noWindows] = result.data!.rules;
+
+      expect(badDate.enabled).toBe(false);
+      expect(windows.enabled).toBe(true);
+      expect(windows.activeWindows).toEqual([{ days: [0], startHour: 8, endHour: 20 }]);
+      expect(noWindows.enabled).toBe(false);
+      expect(result.warnings).toHaveLength(4);
+      expect(result.warnings![0]).toContain("'activeUntil' must be an ISO 8601 date");
+    });
+  });
+
+  describe('Escalation', () => {
+    it('should validate steps and require a fixed rule id', async () => {
+      const json = JSON.stringify({
+        rules: [
+          {
+            id: 'spam-ladder',
+            conditions: { field: 'profile.totalKarma', operator: '<', value: 10 },
+            escalation: {
+              steps: [
+                { action: 'COMMENT' },
+                { action: 'DELETE' },
+                { actions: [{ action: 'REMOVE' }, { action: 'BAN' }] },
+              ],
+              expireDays: -1,
+            },
+          },
+          {
+            conditions: { field: 'profile.totalKarma', operator: '<', value: 10 },
+            action: 'FLAG',
+            escalation: { steps: [{ action: 'REMOVE' }] },
+          },
+        ],
+      });
+
+      const result = await RuleSchemaValidator.validateAndMigrate(json);
+      const [ladder, anonymous] = result.data!.rules;
+
+      expect(ladder.enabled).toBe(true);
+      expect(ladder.action).toBe('COMMENT');
+      expect(ladder.escalation!.expireDays).toBe(30);
+      expect(ladder.escalation!.steps.map((step) => step.action)).toEqual(['COMMENT', 'BAN']);
+      expect(anonymous.escalation).toBeUndefined();
+      expect(result.warnings).toHaveLength(3);
+      expect(result.warnings![2]).toContain("'escalation' requires a fixed 'id'");
+    });
+  });
+});
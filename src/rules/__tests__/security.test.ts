@@ -142,6 +142,16 @@ describe('Security Tests', () => {
       consoleSpy.mockRestore();
     });
 
+    it('should only match regexes against the start of very long fields', () => {
+      const longContext = {
+        ...mockContext,
+        currentPost: { ...mockContext.currentPost, body: `${'x'.repeat(20000)} telegram` },
+      };
+
+      expect(evaluator.evaluate({ field: 'currentPost.body', operator: 'regex' as const, value: 'telegram' }, longContext)).toBe(false);
+      expect(evaluator.evaluate({ field: 'currentPost.body', operator: 'contains' as const, value: 'telegram' }, longContext)).toBe(true);
+    });
+
     it('should enforce regex cache size limits', () => {
       // Create more than 100 unique regex patterns
       for (let i = 0; i < 105; i++) {
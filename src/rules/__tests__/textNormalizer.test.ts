@@ -0,0 +1,55 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Tests for text normalization against filter evasion
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { normalizeText, normalizeValue } from '../textNormalizer.js';
+
+describe('Text normalization', () => {
+  it('should fold Unicode evasion tricks', () => {
+    const samples: Array<[string, string]> = [
+      ['Тelegram', 'Telegram'], // Cyrillic Т
+      ['tеlеgrаm', 'telegram'], // Cyrillic е, а
+      ['Tele\u200Bgr\u200Dam', 'Telegram'], // Zero-width space and joiner
+      ['Ｔｅｌｅｇｒａｍ', 'Telegram'], // Fullwidth
+      ['\u{1D42D}\u{1D41E}\u{1D425}\u{1D41E}', 'tele'], // Math bold
+      ['cryptô wället', 'crypto wallet'], // Accents
+      ['ΒΙΤCΟΙΝ', 'BITCOIN'], // Greek capitals
+      ['WhatsApp', 'WhatsApp'], // Plain text is unchanged
+    ];
+
+    for (const [evasion, expected] of samples) {
+      expect(normalizeText(evasion, true)).toBe(expected);
+    }
+  });
+
+  it('should only fold leetspeak when asked', () => {
+    expect(normalizeText('Т3legram', true)).toBe('T3legram');
+    expect(normalizeText('Т3legram', 'leetspeak')).toBe('Telegram');
+    expect(normalizeText('fr33 b1tc0in $ign@l$', 'leetspeak')).toBe('free bitcoin signals');
+    expect(normalizeText('Т\u200B3legram', false)).toBe('Т\u200B3legram');
+  });
+
+  it('should normalize strings inside arrays and leave other values alone', () => {
+    expect(normalizeValue(['tеlegram', 42], true)).toEqual(['telegram', 42]);
+    expect(normalizeValue(7, 'leetspeak')).toBe(7);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Tests for loading rules from a wiki page
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { loadRulesFromWiki, validateWikiContent } from '../wikiSource.js';
+
+const yamlRules = `
+rules:
+  - id: spam-links
+    conditions:
+      field: currentPost.domains
+      operator: contains
+      value: spam.example
+    action: REMOVE
+`;
+
+/**
+ * Create a minimal Devvit context serving one wiki page revision
+ */
+function createContext(content: string, revisionId: string): any {
+  const store = new Map<string, string>();
+  return {
+    subredditId: 't5_test',
+    reddit: {
+      getWikiPage: jest.fn(async () => ({ content, revisionId, revisionAuthor: { username: 'editor' } })),
+      modMail: { createModInboxConversation: jest.fn(async () => ({})) },
+    },
+    redis: {
+      get: async (key: string) => store.get(key),
+      set: async (key: string, value: string) => {
+        store.set(key, value);
+      },
+    },
+  };
+}
+
+describe('Wiki rules', () => {
+  it('should accept JSON and YAML pages', async () => {
+    const fromYaml = await validateWikiContent(yamlRules);
+    const fromJson = await validateWikiContent(
+      JSON.stringify({ rules: [{ id: 'spam-links', conditions: { field: 'currentPost.domains', operator: 'contains', value: 'spam.example' }, action: 'REMOVE' }] })
+    );
+
+    expect('ruleSet' in fromYaml && fromYaml.ruleSet.rules[0].id).toBe('spam-links');
+    expect('ruleSet' in fromJson && fromJson.ruleSet.rules[0].action).toBe('REMOVE');
+  });
+
+  it('should report invalid revisions once and fall back', async () => {
+    const context = createContext('rules: [ {', 'rev-2');
+
+    expect(await loadRulesFromWiki(context, 'testsubreddit', 'aiautomod')).toBeNull();
+    expect(await loadRulesFromWiki(context, 'testsubreddit', 'aiautomod')).toBeNull();
+
+    const alert = context.reddit.modMail.createModInboxConversation;
+    expect(alert).toHaveBeenCalledTimes(1);
+    expect(alert.mock.calls[0][0].bodyMarkdown).toContain('YAML parsing failed');
+    expect(alert.mock.calls[0][0].bodyMarkdown).toContain('revision rev-2 by u/editor');
+  });
+
+  it('should cache the validated rule set per revision', async () => {
+    const context = createContext(yamlRules, 'rev-1');
+
+    const first = await loadRulesFromWiki(context, 'testsubreddit', 'aiautomod');
+    context.reddit.getWikiPage = async () => ({ content: 'not: [valid', revisionId: 'rev-1' });
+    const second = await loadRulesFromWiki(context, 'testsubreddit', 'aiautomod');
+
+    expect(first!.rules[0].id).toBe('spam-links');
+    expect(second).toEqual(first);
+  });
+
+  it('should not read the page again for every rule load', async () => {
+    const context = createContext(yamlRules, 'rev-1');
+
+    await loadRulesFromWiki(context, 'testsubreddit', 'aiautomod');
+    await loadRulesFromWiki(context, 'testsubreddit', 'aiautomod');
+    const third = await loadRulesFromWiki(context, 'testsubreddit', 'aiautomod');
+
+    expect(third!.rules[0].id).toBe('spam-links');
+    expect(context.reddit.getWikiPage).toHaveBeenCalledTimes(1);
+  });
+});
@@ -25,17 +25,55 @@
  * - Applies dry-run mode
  * - Returns the appropriate moderation action
  *
- * The engine uses a priority-based evaluation strategy, stopping at the first
- * matching rule (highest priority wins).
+ * The engine uses a priority-based evaluation strategy. By default it stops at
+ * the first matching rule (highest priority wins); a rule set can opt into
+ * 'most_severe' or 'collect_all' evaluation to consider every matching rule.
+ * TAG rules never end evaluation: they attach tags that lower-priority rules
+ * can read as `tags.<name>`. In 'score' mode every matching rule adds its
+ * points and the rule set's thresholds map the total to an action.
  *
  * @module rules/engine
  */
 
 import { Devvit, Context } from '@devvit/public-api';
-import { Rule, RuleEvaluationContext, RuleEvaluationResult } from '../types/rules.js';
+import {
+  Rule,
+  RuleEvaluationContext,
+  RuleEvaluationResult,
+  ResolvedActionStep,
+  ActionConfig,
+  BanConfig,
+  FlairConfig,
+  EvaluationMode,
+  MatchedRule,
+  RuleTrace,
+  ScoreThreshold,
+  StrikeInfo,
+  ACTION_SEVERITY,
+} from '../types/rules.js';
 import { ConditionEvaluator } from './evaluator.js';
 import { VariableSubstitutor } from './variables.js';
+import { compactExplanation } from './explanation.js';
+import { getTimeContext, isRuleActive } from './schedule.js';
 import { loadRulesFromSettings } from './schemaValidator.js';
+import { AIQuestion } from '../types/ai.js';
+import { getSettingsVersion } from '../storage/keyBuilder.js';
+import { getStrikeCount } from '../storage/strikes.js';
+import { recordRuleEvaluations } from '../storage/ruleStats.js';
+
+/**
+ * Rules applicable to one evaluation, sorted by priority
+ */
+interface LoadedRules {
+  /** Evaluation mode of the rule set */
+  evaluationMode: EvaluationMode;
+  /** Named lists of the rule set */
+  lists: Record<string, string[]>;
+  /** Score thresholds, highest first ('score' mode) */
+  thresholds: ScoreThreshold[];
+  /** Applicable rules (highest priority first) */
+  rules: Rule[];
+}
 
 /**
  * Rules Engine class
@@ -59,9 +97,9 @@ export class RulesEngine {
    * 1. Loads rules for the subreddit (including global rules)
    * 2. Filters rules by content type
    * 3. Sorts by priority
-   * 4. Evaluates each rule until one matches
+   * 4. Evaluates each rule until one matches (or all rules, per evaluationMode)
    * 5. Applies dry-run mode if enabled
-   * 6. Returns the appropriate action
+   * 6. Returns the appropriate action and every matched rule
    *
    * @param evalContext - The complete evaluation context
    * @param contentType - Content type being evaluated ('submission' or 'comment')
@@ -87,108 +125,275 @@ export class RulesEngine {
     const startTime = Date.now();
 
     try {
-      // 1. Load rules from settings (validated and typed)
-      const ruleSet = await loadRulesFromSettings(this.context, evalContext.subreddit);
-      const rules = ruleSet.rules;
-
-      // 2. Add global rules from settings
-      const globalRuleSet = await loadRulesFromSettings(this.context, 'global');
-      const allRules = [...rules, ...globalRuleSet.rules];
+      // 1-4. Load, filter and sort rules
+      const loaded = await this.loadApplicableRules(evalContext.subreddit, contentType);
+      const timedContext = { ...evalContext, now: getTimeContext(new Date(startTime)) };
 
-      // 3. Filter rules by content type
-      const applicableRules = allRules.filter((rule) => {
-        const ruleContentType = rule.contentType || 'submission';
-        // Normalize 'post' to 'submission'
-        const normalizedRuleType = ruleContentType === 'post' ? 'submission' : ruleContentType;
-        return normalizedRuleType === 'any' || normalizedRuleType === contentType;
+      return await this.evaluateLoadedRules(loaded, timedContext, startTime, true);
+    } catch (error) {
+      // Catastrophic failure - default to FLAG for manual review (safer than auto-approve)
+      console.error('[RulesEngine] Critical error during rule evaluation', {
+        subreddit: evalContext.subreddit,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined
       });
 
-      // 4. Sort by priority (highest first)
-      applicableRules.sort((a, b) => b.priority - a.priority);
+      return {
+        action: 'FLAG',
+        reason: 'Rule evaluation error - requires manual review',
+        matchedRule: 'error',
+        confidence: 0,
+        dryRun: false,
+      };
+    }
+  }
+
+  /**
+   * Evaluate rules with a per-rule trace, without side effects
+   *
+   * Returns the result evaluateRules would produce plus, for every applicable
+   * rule, its status and full condition trace (all rules are traced regardless
+   * of evaluation mode). Used by the "Test Rules" menu action.
+   *
+   * @param evalContext - The complete evaluation context
+   * @param contentType - Content type being evaluated ('submission' or 'comment')
+   * @returns Evaluation result and per-rule traces in priority order
+   */
+  async traceRules(
+    evalContext: RuleEvaluationContext,
+    contentType: 'submission' | 'comment' = 'submission'
+  ): Promise<{ result: RuleEvaluationResult; rules: RuleTrace[] }> {
+    const startTime = Date.now();
+    const loaded = await this.loadApplicableRules(evalContext.subreddit, contentType);
+    const timedContext = { ...evalContext, now: getTimeContext(new Date(startTime)) };
+    const result = await this.evaluateLoadedRules(loaded, timedContext, startTime);
+
+    // Tags accumulate in priority order, as in evaluateLoadedRules
+    const tags: string[] = [];
+
+    const rules = loaded.rules.map((rule): RuleTrace => {
+      const base = {
+        ruleId: rule.id,
+        ruleName: rule.name,
+        priority: rule.priority,
+        action: rule.action,
+        mode: rule.mode ?? 'live',
+        ...(loaded.evaluationMode === 'score' && rule.action !== 'TAG' ? { points: rule.points ?? 0 } : {}),
+      };
 
-      // 5. Get global dry-run mode from Settings UI
-      const settings = await this.context.settings.getAll();
-      const dryRunMode = (settings.dryRunMode as boolean) ?? true; // Default to safe mode
+      if (!rule.enabled) {
+        return { ...base, status: 'disabled' };
+      }
 
-      // 6. Evaluate each rule
-      let rulesEvaluated = 0;
+      if (!isRuleActive(rule, new Date(startTime))) {
+        return { ...base, status: 'inactive' };
+      }
 
-      for (const rule of applicableRules) {
-        // Skip disabled rules
-        if (!rule.enabled) {
-          continue;
+      if (rule.type === 'AI' && !evalContext.aiAnalysis) {
+        return { ...base, status: 'skipped_ai' };
+      }
+
+      try {
+        this.evaluator.setCurrentRule(rule);
+        const trace = this.evaluator.evaluateWithTrace(rule.conditions, { ...timedContext, tags: [...tags] });
+        if (trace.matched && rule.action === 'TAG' && rule.mode !== 'shadow') {
+          this.addTags(tags, rule.actionConfig.tags ?? []);
         }
+        return { ...base, status: trace.matched ? 'matched' : 'not_matched', trace };
+      } catch (error) {
+        return {
+          ...base,
+          status: 'error',
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    });
 
-        rulesEvaluated++;
+    return { result, rules };
+  }
+
+  /**
+   * Load the rules that apply to a content type, sorted by priority
+   *
+   * @param subreddit - The subreddit name
+   * @param contentType - Content type being evaluated
+   * @returns Rule set evaluation mode, named lists, thresholds and applicable rules (highest priority first)
+   */
+  private async loadApplicableRules(
+    subreddit: string,
+    contentType: 'submission' | 'comment'
+  ): Promise<LoadedRules> {
+    // 1. Load rules from settings (validated and typed)
+    const ruleSet = await loadRulesFromSettings(this.context, subreddit);
+    const rules = ruleSet.rules;
+
+    // 2. Add global rules from settings
+    const globalRuleSet = await loadRulesFromSettings(this.context, 'global');
+    const allRules = [...rules, ...globalRuleSet.rules];
+
+    // 3. Filter rules by content type
+    const applicableRules = allRules.filter((rule) => {
+      const ruleContentType = rule.contentType || 'submission';
+      // Normalize 'post' to 'submission'
+      const normalizedRuleType = ruleContentType === 'post' ? 'submission' : ruleContentType;
+      return normalizedRuleType === 'any' || normalizedRuleType === contentType;
+    });
+
+    // 4. Sort by priority (highest first)
+    applicableRules.sort((a, b) => b.priority - a.priority);
+
+    return {
+      evaluationMode: ruleSet.evaluationMode ?? 'first_match',
+      lists: ruleSet.lists ?? {},
+      thresholds: ruleSet.thresholds ?? [],
+      rules: applicableRules,
+    };
+  }
+
+  /**
+   * Evaluate loaded rules and build the result
+   *
+   * @param loaded - Applicable rules, evaluation mode and named lists
+   * @param evalContext - The complete evaluation context
+   * @param startTime - Evaluation start time (schedule checks and logging)
+   * @param recordStats - Whether to count evaluations and matches in the per-rule statistics
+   * @returns The evaluation result
+   */
+  private async evaluateLoadedRules(
+    loaded: LoadedRules,
+    evalContext: RuleEvaluationContext,
+    startTime: number,
+    recordStats = false
+  ): Promise<RuleEvaluationResult> {
+    const { evaluationMode, rules: applicableRules } = loaded;
+    const now = new Date(startTime);
+    this.evaluator.setLists(loaded.lists);
+
+    // Tags attached so far; rules evaluated later see them as tags.<name>
+    const tags: string[] = [];
+    const taggedContext: RuleEvaluationContext = { ...evalContext, tags };
+
+    // 5. Get global dry-run mode from Settings UI
+    const settings = await this.context.settings.getAll();
+    const dryRunMode = (settings.dryRunMode as boolean) ?? true; // Default to safe mode
+
+    // 6. Evaluate each rule (first_match stops at the first live match;
+    //    shadow and TAG rules are always evaluated but never act)
+    const matches: MatchedRule[] = [];
+    const shadowMatches: MatchedRule[] = [];
+    const evaluatedRuleIds: string[] = [];
+    const tagMatchIds: string[] = [];
+    const scoredRules: Rule[] = [];
+    let rulesEvaluated = 0;
+
+    for (const rule of applicableRules) {
+      // Skip disabled rules
+      if (!rule.enabled) {
+        continue;
+      }
+
+      // Skip rules outside their schedule (activeFrom/activeUntil/activeWindows)
+      if (!isRuleActive(rule, now)) {
+        continue;
+      }
+
+      const isShadow = rule.mode === 'shadow';
+      const isTag = rule.action === 'TAG';
+
+      // After the first live match only shadow and TAG rules still need evaluating
+      if (evaluationMode === 'first_match' && matches.length > 0 && !isShadow && !isTag) {
+        continue;
+      }
+
+      rulesEvaluated++;
+
+      // Skip AI rules if no AI analysis available
+      if (rule.type === 'AI' && !evalContext.aiAnalysis) {
+        console.log('[RulesEngine] Skipping AI rule (no analysis):', {
+          ruleId: rule.id,
+          ruleName: rule.name,
+        });
+        continue;
+      }
+
+      try {
+        // Set current rule for ai.* field access in both evaluator and substitutor
+        this.evaluator.setCurrentRule(rule);
+        this.substitutor.setCurrentRule(rule);
 
-        // Skip AI rules if no AI analysis available
-        if (rule.type === 'AI' && !evalContext.aiAnalysis) {
-          console.log('[RulesEngine] Skipping AI rule (no analysis):', {
+        // Evaluate condition
+        const matched = this.evaluator.evaluate(rule.conditions, taggedContext);
+        evaluatedRuleIds.push(rule.id);
+
+        if (matched && isShadow) {
+          // Shadow rules never act - record what they would have done
+          const shadowMatch = await this.buildMatchedRule(rule, taggedContext);
+          shadowMatches.push(shadowMatch);
+
+          console.log('[RulesEngine] Shadow rule matched (no action taken):', {
             ruleId: rule.id,
             ruleName: rule.name,
+            wouldAction: shadowMatch.action,
+            wouldActions: shadowMatch.actions?.map((step) => step.action),
+            reason: shadowMatch.reason,
           });
-          continue;
-        }
+        } else if (matched && isTag) {
+          // TAG rules only label the content and evaluation continues
+          this.addTags(tags, rule.actionConfig.tags ?? []);
+          tagMatchIds.push(rule.id);
 
-        try {
-          // Set current rule for ai.* field access in both evaluator and substitutor
-          this.evaluator.setCurrentRule(rule);
-          this.substitutor.setCurrentRule(rule);
-
-          // Evaluate condition
-          const matched = this.evaluator.evaluate(rule.conditions, evalContext);
-
-          if (matched) {
-            // Rule matched! Prepare result
-            const reason = this.substitutor.substitute(rule.actionConfig.reason, evalContext);
-            const modlog = rule.actionConfig.modlog
-              ? this.substitutor.substitute(rule.actionConfig.modlog, evalContext)
-              : null;
-
-            // Get confidence
-            const confidence = this.getConfidence(rule, evalContext);
-
-            // Apply dry-run mode
-            // In dry-run, all actions except APPROVE become FLAG
-            const action = dryRunMode && rule.action !== 'APPROVE' ? 'FLAG' : rule.action;
-
-            const executionTimeMs = Date.now() - startTime;
-
-            console.log('[RulesEngine] Rule matched:', {
-              ruleId: rule.id,
-              ruleName: rule.name,
-              originalAction: rule.action,
-              actualAction: action,
-              dryRunMode,
-              confidence,
-              executionTimeMs,
-              rulesEvaluated,
-            });
-
-            return {
-              action,
-              reason: dryRunMode && rule.action !== 'APPROVE' ? `[DRY RUN] ${reason}` : reason,
-              modlog: dryRunMode ? null : modlog,
-              matchedRule: rule.id,
-              confidence,
-              dryRun: dryRunMode,
-            };
-          }
-        } catch (error) {
-          // Log error but continue evaluating other rules
-          console.error('[RulesEngine] Rule evaluation failed:', {
+          console.log('[RulesEngine] Tag rule matched:', {
             ruleId: rule.id,
             ruleName: rule.name,
-            error: error instanceof Error ? error.message : String(error),
+            tags: rule.actionConfig.tags,
           });
+        } else if (matched && evaluationMode === 'score') {
+          // Built once the total is known, so {score} works in their text
+          scoredRules.push(rule);
+        } else if (matched) {
+          matches.push(await this.buildMatchedRule(rule, taggedContext));
         }
+      } catch (error) {
+        // Log error but continue evaluating other rules
+        console.error('[RulesEngine] Rule evaluation failed:', {
+          ruleId: rule.id,
+          ruleName: rule.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
       }
+    }
 
-      // No rules matched - default to APPROVE
-      const executionTimeMs = Date.now() - startTime;
+    if (recordStats) {
+      await recordRuleEvaluations(
+        this.context.redis,
+        evaluatedRuleIds,
+        [
+          ...matches.map((match) => match.ruleId),
+          ...scoredRules.map((rule) => rule.id),
+          ...shadowMatches.map((match) => match.ruleId),
+          ...tagMatchIds,
+        ]
+      );
+    }
+
+    if (evaluationMode === 'score') {
+      return await this.buildScoreResult(loaded.thresholds, scoredRules, taggedContext, {
+        shadowMatches,
+        dryRunMode,
+        startTime,
+        rulesEvaluated,
+      });
+    }
+
+    const executionTimeMs = Date.now() - startTime;
 
+    if (matches.length === 0) {
+      // No rules matched - default to APPROVE
       console.log('[RulesEngine] No rules matched - default approve:', {
         subreddit: evalContext.subreddit,
+        evaluationMode,
+        shadowMatches: shadowMatches.map((match) => match.ruleId),
+        tags,
         rulesEvaluated,
         executionTimeMs,
       });
@@ -197,25 +402,344 @@ export class RulesEngine {
         action: 'APPROVE',
         reason: 'No rules matched',
         matchedRule: 'none',
+        matchedRules: [],
+        evaluationMode,
+        shadowMatches,
+        tags,
         confidence: 100,
         dryRun: false,
       };
-    } catch (error) {
-      // Catastrophic failure - default to FLAG for manual review (safer than auto-approve)
-      console.error('[RulesEngine] Critical error during rule evaluation', {
-        subreddit: evalContext.subreddit,
-        error: error instanceof Error ? error.message : String(error),
-        stack: error instanceof Error ? error.stack : undefined
-      });
+    }
 
+    // 7. Pick the match whose action is taken
+    const primary = evaluationMode === 'first_match' ? matches[0] : this.getMostSevereMatch(matches);
+    const reason = evaluationMode === 'collect_all'
+      ? this.combineText(matches.map((match) => match.reason))
+      : primary.reason;
+    const modlog = evaluationMode === 'collect_all'
+      ? this.combineText(matches.map((match) => match.modlog)) || null
+      : primary.modlog;
+
+    // 8. Apply dry-run mode
+    // In dry-run, all actions except APPROVE become FLAG
+    // (multi-action rules collapse to a single FLAG as well)
+    const action = dryRunMode && primary.action !== 'APPROVE' ? 'FLAG' : primary.action;
+
+    console.log('[RulesEngine] Rule matched:', {
+      ruleId: primary.ruleId,
+      ruleName: primary.ruleName,
+      originalAction: primary.action,
+      originalActions: primary.actions?.map((step) => step.action),
+      actualAction: action,
+      evaluationMode,
+      matchedRules: matches.map((match) => match.ruleId),
+      shadowMatches: shadowMatches.map((match) => match.ruleId),
+      tags,
+      dryRunMode,
+      confidence: primary.confidence,
+      executionTimeMs,
+      rulesEvaluated,
+    });
+
+    return {
+      action,
+      actions: dryRunMode ? undefined : primary.actions,
+      reason: dryRunMode && primary.action !== 'APPROVE' ? `[DRY RUN] ${reason}` : reason,
+      modlog: dryRunMode ? null : modlog,
+      ban: dryRunMode ? undefined : primary.ban,
+      flair: dryRunMode ? undefined : primary.flair,
+      matchedRule: primary.ruleId,
+      matchedRules: matches,
+      evaluationMode,
+      shadowMatches,
+      confidence: primary.confidence,
+      explanation: primary.explanation,
+      strike: primary.strike,
+      tags,
+      dryRun: dryRunMode,
+    };
+  }
+
+  /**
+   * Build the result of a 'score' mode evaluation
+   *
+   * Adds up the points of the matching rules and takes the action of the
+   * highest threshold the total reaches (APPROVE if it reaches none). The
+   * rule with the most points is reported as the matched rule.
+   *
+   * @param thresholds - Score thresholds, highest first
+   * @param scoredRules - Matching live rules in priority order
+   * @param context - The evaluation context (with tags)
+   * @param evaluation - Shadow matches, dry-run mode and timing of the evaluation
+   * @returns The evaluation result with the score breakdown
+   */
+  private async buildScoreResult(
+    thresholds: ScoreThreshold[],
+    scoredRules: Rule[],
+    context: RuleEvaluationContext,
+    evaluation: { shadowMatches: MatchedRule[]; dryRunMode: boolean; startTime: number; rulesEvaluated: number }
+  ): Promise<RuleEvaluationResult> {
+    const { shadowMatches, dryRunMode } = evaluation;
+    const total = scoredRules.reduce((sum, rule) => sum + (rule.points ?? 0), 0);
+    const scoredContext: RuleEvaluationContext = { ...context, score: total };
+
+    const matches: MatchedRule[] = [];
+    for (const rule of scoredRules) {
+      this.evaluator.setCurrentRule(rule);
+      this.substitutor.setCurrentRule(rule);
+      matches.push(await this.buildMatchedRule(rule, scoredContext));
+    }
+
+    const threshold = thresholds.find((candidate) => total >= candidate.score);
+    const score = {
+      total,
+      threshold: threshold?.score ?? null,
+      contributions: scoredRules.map((rule) => ({ ruleId: rule.id, ruleName: rule.name, points: rule.points ?? 0 })),
+    };
+    const breakdown = score.contributions
+      .map((contribution) => `${contribution.ruleName} ${contribution.points >= 0 ? '+' : ''}${contribution.points}`)
+      .join(', ');
+
+    console.log('[RulesEngine] Score evaluated:', {
+      score: total,
+      threshold: score.threshold,
+      action: threshold?.action ?? 'APPROVE',
+      contributions: score.contributions.map((contribution) => `${contribution.ruleId}:${contribution.points}`),
+      shadowMatches: shadowMatches.map((match) => match.ruleId),
+      tags: context.tags,
+      dryRunMode,
+      rulesEvaluated: evaluation.rulesEvaluated,
+      executionTimeMs: Date.now() - evaluation.startTime,
+    });
+
+    if (!threshold) {
       return {
-        action: 'FLAG',
-        reason: 'Rule evaluation error - requires manual review',
-        matchedRule: 'error',
-        confidence: 0,
+        action: 'APPROVE',
+        reason: `Score ${total} is below every threshold`,
+        matchedRule: 'none',
+        matchedRules: [],
+        evaluationMode: 'score',
+        shadowMatches,
+        tags: context.tags,
+        score,
+        confidence: 100,
         dryRun: false,
       };
     }
+
+    // The top contributor stands for the score (statistics, explanation)
+    let primary: MatchedRule | undefined;
+    let primaryPoints = -Infinity;
+    matches.forEach((match, index) => {
+      if (score.contributions[index].points > primaryPoints) {
+        primary = match;
+        primaryPoints = score.contributions[index].points;
+      }
+    });
+
+    const config = threshold.actionConfig ?? {};
+    const reason = config.reason
+      ? this.substitutor.substitute(config.reason, scoredContext)
+      : `Score ${total} reached the ${threshold.action} threshold (${threshold.score})`;
+    const modlog = config.modlog
+      ? this.substitutor.substitute(config.modlog, scoredContext)
+      : `Score ${total}: ${breakdown || 'no matching rules'}`;
+    const action = dryRunMode && threshold.action !== 'APPROVE' ? 'FLAG' : threshold.action;
+
+    return {
+      action,
+      reason: dryRunMode && threshold.action !== 'APPROVE' ? `[DRY RUN] ${reason}` : reason,
+      modlog: dryRunMode ? null : modlog,
+      ...(dryRunMode ? {} : this.resolveActionOptions(config, scoredContext)),
+      matchedRule: primary?.ruleId ?? 'none',
+      matchedRules: matches,
+      evaluationMode: 'score',
+      shadowMatches,
+      confidence: primary?.confidence ?? 100,
+      explanation: primary?.explanation,
+      tags: context.tags,
+      score,
+      dryRun: dryRunMode,
+    };
+  }
+
+  /**
+   * Build the match record for a rule whose conditions matched
+   *
+   * Conditions are re-evaluated with tracing to record why the rule fired;
+   * this only happens for matching rules so the normal path stays short-circuited.
+   * Escalating rules act with the step for the author's next strike.
+   *
+   * @param rule - The matched rule
+   * @param context - The evaluation context
+   * @returns Match with substituted text and resolved action steps
+   */
+  private async buildMatchedRule(rule: Rule, context: RuleEvaluationContext): Promise<MatchedRule> {
+    const { rule: actingRule, strike } = await this.resolveEscalation(rule, context);
+
+    return {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      action: actingRule.action,
+      actions: this.resolveActionSteps(actingRule, context),
+      reason: this.substitutor.substitute(actingRule.actionConfig.reason, context),
+      modlog: actingRule.actionConfig.modlog
+        ? this.substitutor.substitute(actingRule.actionConfig.modlog, context)
+        : null,
+      ...this.resolveActionOptions(actingRule.actionConfig, context),
+      confidence: this.getConfidence(rule, context),
+      explanation: compactExplanation(this.evaluator.evaluateWithTrace(rule.conditions, context)),
+      strike,
+    };
+  }
+
+  /**
+   * Pick the escalation step for the author's next strike on a rule
+   *
+   * Strikes are only read here; they are recorded by the submit handlers once
+   * the action has actually been taken. The last step repeats for further strikes.
+   *
+   * @param rule - The matched rule
+   * @param context - The evaluation context
+   * @returns The rule with the step's action fields, and the strike (rule unchanged if it doesn't escalate)
+   */
+  private async resolveEscalation(
+    rule: Rule,
+    context: RuleEvaluationContext
+  ): Promise<{ rule: Rule; strike?: StrikeInfo }> {
+    if (!rule.escalation) {
+      return { rule };
+    }
+
+    const { steps, expireDays } = rule.escalation;
+    const settingsVersion = await getSettingsVersion(this.context);
+    const previousStrikes = await getStrikeCount(
+      this.context.redis,
+      context.profile.userId,
+      rule.id,
+      expireDays,
+      settingsVersion
+    );
+
+    const count = previousStrikes + 1;
+    const step = steps[Math.min(count, steps.length) - 1];
+
+    return {
+      rule: {
+        ...rule,
+        action: step.action,
+        actions: step.actions,
+        actionConfig: { ...rule.actionConfig, ...step.actionConfig },
+      },
+      strike: { count, expireDays },
+    };
+  }
+
+  /**
+   * Get the match with the most severe action
+   *
+   * Matches are in priority order, so ties go to the higher-priority rule.
+   *
+   * @param matches - Matched rules in priority order (non-empty)
+   * @returns The most severe match
+   */
+  private getMostSevereMatch(matches: MatchedRule[]): MatchedRule {
+    return matches.reduce((most, match) =>
+      ACTION_SEVERITY[match.action] > ACTION_SEVERITY[most.action] ? match : most
+    );
+  }
+
+  /**
+   * Attach tags, keeping each tag once in the order first attached
+   *
+   * @param tags - Tags attached so far (mutated)
+   * @param added - Tags of a matching TAG rule
+   */
+  private addTags(tags: string[], added: string[]): void {
+    for (const tag of added) {
+      if (!tags.includes(tag)) {
+        tags.push(tag);
+      }
+    }
+  }
+
+  /**
+   * Combine text from several matches, dropping empty and duplicate entries
+   *
+   * @param texts - Texts in priority order
+   * @returns Texts joined with '; '
+   */
+  private combineText(texts: Array<string | null | undefined>): string {
+    return [...new Set(texts.filter((text): text is string => !!text))].join('; ');
+  }
+
+  /**
+   * Resolve the ordered action steps of a multi-action rule
+   *
+   * Each step inherits the rule's actionConfig and may override reason/modlog.
+   * Variables are substituted per step so every action gets its own text.
+   *
+   * @param rule - The matched rule
+   * @param context - The evaluation context
+   * @returns Resolved steps, or undefined for single-action rules
+   */
+  private resolveActionSteps(
+    rule: Rule,
+    context: RuleEvaluationContext
+  ): ResolvedActionStep[] | undefined {
+    if (!rule.actions || rule.actions.length === 0) {
+      return undefined;
+    }
+
+    return rule.actions.map((step) => {
+      const reasonTemplate = step.actionConfig?.reason || rule.actionConfig.reason;
+      const modlogTemplate =
+        step.actionConfig?.modlog !== undefined ? step.actionConfig.modlog : rule.actionConfig.modlog;
+
+      return {
+        action: step.action,
+        reason: this.substitutor.substitute(reasonTemplate, context),
+        modlog: modlogTemplate ? this.substitutor.substitute(modlogTemplate, context) : null,
+        ...this.resolveActionOptions(
+          {
+            ban: step.actionConfig?.ban ?? rule.actionConfig.ban,
+            flair: step.actionConfig?.flair ?? rule.actionConfig.flair,
+          },
+          context
+        ),
+      };
+    });
+  }
+
+  /**
+   * Resolve BAN/SET_FLAIR options, substituting variables in user-facing text
+   *
+   * @param config - Action config holding the options
+   * @param context - The evaluation context
+   * @returns Resolved ban and flair options (undefined when not configured)
+   */
+  private resolveActionOptions(
+    config: Partial<ActionConfig>,
+    context: RuleEvaluationContext
+  ): { ban?: BanConfig; flair?: FlairConfig } {
+    return {
+      ban: config.ban
+        ? {
+            ...config.ban,
+            message: config.ban.message
+              ? this.substitutor.substitute(config.ban.message, context)
+              : undefined,
+          }
+        : undefined,
+      flair: config.flair
+        ? {
+            ...config.flair,
+            text: config.flair.text
+              ? this.substitutor.substitute(config.flair.text, context)
+              : undefined,
+          }
+        : undefined,
+    };
   }
 
   /**
@@ -277,7 +801,8 @@ export class RulesEngine {
         return normalizedRuleType === 'any' || normalizedRuleType === contentType;
       });
 
-      return applicableRules.some((rule) => rule.type === 'AI' && rule.enabled);
+      const now = new Date();
+      return applicableRules.some((rule) => rule.type === 'AI' && rule.enabled && isRuleActive(rule, now));
     } catch (error) {
       console.error('[RulesEngine] Error checking AI analysis need:', {
         subreddit,
@@ -292,8 +817,11 @@ export class RulesEngine {
   /**
    * Get AI questions needed for this subreddit and content type
    *
-   * Returns all unique AI question IDs from enabled AI rules.
+   * Returns all unique AI question IDs from enabled AI rules that are
+   * currently active (see activeFrom/activeUntil/activeWindows).
    * This can be used to batch AI analysis requests efficiently.
+   * A rule's preferred provider/model (`ai.provider`, `ai.model`) is passed
+   * along so the analyzer can batch questions per provider/model.
    *
    * @param subreddit - The subreddit name
    * @param contentType - Content type being evaluated ('submission' or 'comment')
@@ -302,7 +830,7 @@ export class RulesEngine {
   async getRequiredAIQuestions(
     subreddit: string,
     contentType: 'submission' | 'comment' = 'submission'
-  ): Promise<Array<{ id: string; question: string; context?: string }>> {
+  ): Promise<AIQuestion[]> {
     try {
       const ruleSet = await loadRulesFromSettings(this.context, subreddit);
       const globalRuleSet = await loadRulesFromSettings(this.context, 'global');
@@ -315,14 +843,14 @@ export class RulesEngine {
         return normalizedRuleType === 'any' || normalizedRuleType === contentType;
       });
 
-      // Filter to enabled AI rules
-      const aiRules = applicableRules.filter((rule) => rule.type === 'AI' && rule.enabled);
+      // Filter to enabled AI rules inside their schedule (no AI cost for inactive rules)
+      const now = new Date();
+      const aiRules = applicableRules.filter(
+        (rule) => rule.type === 'AI' && rule.enabled && isRuleActive(rule, now)
+      );
 
       // Extract unique questions
-      const questionsMap = new Map<
-        string,
-        { id: string; question: string; context?: string }
-      >();
+      const questionsMap = new Map<string, AIQuestion>();
 
       for (const rule of aiRules) {
         if (rule.type === 'AI') {
@@ -331,7 +859,13 @@ export class RulesEngine {
           if (aiData && aiData.id) {
             const { id, question, context } = aiData;
             if (!questionsMap.has(id)) {
-              questionsMap.set(id, { id, question, context });
+              questionsMap.set(id, {
+                id,
+                question,
+                context,
+                ...(rule.ai?.provider ? { provider: rule.ai.provider } : {}),
+                ...(rule.ai?.model ? { model: rule.ai.model } : {}),
+              });
             }
           }
         }
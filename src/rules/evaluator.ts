@@ -26,11 +26,21 @@
  * - AI analysis field access (e.g., "aiAnalysis.answers.dating_intent.confidence")
  * - All comparison, text, array, and regex operators
  * - Graceful handling of undefined/null values
+ * - Per-condition text normalization against filter evasion (`normalize`)
  *
  * @module rules/evaluator
  */
 
-import { Condition, RuleEvaluationContext, ConditionOperator, Rule } from '../types/rules.js';
+import {
+  Condition,
+  RuleEvaluationContext,
+  ConditionOperator,
+  ConditionTrace,
+  Rule,
+  LIST_REFERENCE_PREFIX,
+} from '../types/rules.js';
+import { normalizeValue } from './textNormalizer.js';
+import { findRegexHazard, MAX_REGEX_PATTERN_LENGTH, MAX_REGEX_INPUT_LENGTH } from './regexSafety.js';
 
 /**
  * Condition Evaluator class
@@ -40,11 +50,14 @@ export class ConditionEvaluator {
   // Cache for compiled regex patterns to improve performance
   private regexCache: Map<string, RegExp> = new Map();
   private readonly MAX_CACHE_SIZE = 100;
-  private readonly MAX_PATTERN_LENGTH = 200;
+  private readonly MAX_PATTERN_LENGTH = MAX_REGEX_PATTERN_LENGTH;
 
   // Current rule being evaluated (for ai.answer shorthand access)
   private currentRule?: Rule;
 
+  // Named lists of the rule set being evaluated (for "@list:<name>" values)
+  private lists: Record<string, string[]> = {};
+
   /**
    * Set the current rule being evaluated (for ai.answer shorthand access)
    *
@@ -55,7 +68,16 @@ export class ConditionEvaluator {
   }
 
   /**
-   * Evaluate a condition (supports nested AND/OR logic)
+   * Set the named lists of the rule set being evaluated
+   *
+   * @param lists - Lists by name, referenced from condition values as "@list:<name>"
+   */
+  setLists(lists: Record<string, string[]>): void {
+    this.lists = lists;
+  }
+
+  /**
+   * Evaluate a condition (supports nested AND/OR/NOT logic)
    *
    * @param condition - The condition to evaluate (can be nested)
    * @param context - The evaluation context with all data
@@ -75,7 +97,7 @@ export class ConditionEvaluator {
    * ```
    */
   evaluate(condition: Condition, context: RuleEvaluationContext): boolean {
-    // Handle nested conditions (AND/OR)
+    // Handle nested conditions (AND/OR/NOT)
     if (condition.logicalOperator && condition.rules) {
       return this.evaluateNested(condition, context);
     }
@@ -91,9 +113,58 @@ export class ConditionEvaluator {
   }
 
   /**
-   * Evaluate nested AND/OR condition
+   * Evaluate a condition and record the outcome of every node
+   *
+   * Unlike evaluate(), every child of a nested condition is evaluated so the
+   * trace shows all leaf results. The top-level matched value is the same as
+   * evaluate() would return.
+   *
+   * @param condition - The condition to evaluate (can be nested)
+   * @param context - The evaluation context with all data
+   * @returns Trace tree mirroring the condition structure
+   */
+  evaluateWithTrace(condition: Condition, context: RuleEvaluationContext): ConditionTrace {
+    // Handle nested conditions (AND/OR/NOT)
+    if (condition.logicalOperator && condition.rules) {
+      const children = condition.rules.map((rule) => this.evaluateWithTrace(rule, context));
+      const matched =
+        children.length > 0 &&
+        (condition.logicalOperator === 'AND'
+          ? children.every((child) => child.matched)
+          : condition.logicalOperator === 'OR'
+            ? children.some((child) => child.matched)
+            : condition.logicalOperator === 'NOT'
+              ? !children.some((child) => child.matched)
+              : false);
+
+      return { matched, logicalOperator: condition.logicalOperator, children };
+    }
+
+    // Handle leaf condition
+    if (condition.field && condition.operator) {
+      const actual = this.getFieldValue(condition.field, context);
+
+      return {
+        matched: this.matchesLeafValue(actual, condition),
+        field: condition.field,
+        operator: condition.operator,
+        expected: condition.value,
+        actual,
+      };
+    }
+
+    // Invalid condition structure
+    console.error('[ConditionEvaluator] Invalid condition structure:', condition);
+    return { matched: false };
+  }
+
+  /**
+   * Evaluate nested AND/OR/NOT condition
    * Uses short-circuit evaluation for performance
    *
+   * NOT matches when none of its child conditions match, so a single child
+   * is a plain negation and several children read as "neither ... nor".
+   *
    * @param condition - Nested condition with logicalOperator and rules
    * @param context - The evaluation context
    * @returns true if nested condition matches, false otherwise
@@ -120,6 +191,14 @@ export class ConditionEvaluator {
         }
       }
       return false;
+    } else if (condition.logicalOperator === 'NOT') {
+      // No condition may be true (short-circuit on first true)
+      for (const rule of condition.rules) {
+        if (this.evaluate(rule, context)) {
+          return false;
+        }
+      }
+      return true;
     }
 
     console.error('[ConditionEvaluator] Unknown logical operator:', condition.logicalOperator);
@@ -142,15 +221,84 @@ export class ConditionEvaluator {
     // Resolve field value from context
     const actualValue = this.getFieldValue(condition.field, context);
 
+    return this.matchesLeafValue(actualValue, condition);
+  }
+
+  /**
+   * Compare a resolved field value against a leaf condition
+   *
+   * @param actualValue - Resolved field value
+   * @param condition - Leaf condition with operator and expected value
+   * @returns true if comparison matches, false otherwise
+   */
+  private matchesLeafValue(actualValue: any, condition: Condition): boolean {
+    const isMissing = actualValue === undefined || actualValue === null;
+
+    // Existence operators are the explicit null checks
+    switch (condition.operator) {
+      case 'exists':
+        return !isMissing;
+
+      case 'not_exists':
+        return isMissing;
+
+      case 'is_empty':
+        if (isMissing) {
+          return true;
+        }
+        if (typeof actualValue === 'string') {
+          return actualValue.trim().length === 0;
+        }
+        if (Array.isArray(actualValue)) {
+          return actualValue.length === 0;
+        }
+        return false;
+    }
+
     // Handle undefined/null values gracefully
-    // Conditions fail if field doesn't exist (except for explicit null checks)
-    if (actualValue === undefined || actualValue === null) {
-      // Only return true if we're explicitly checking for null/undefined
+    // Conditions fail if field doesn't exist
+    if (isMissing) {
+      return false;
+    }
+
+    const expected = this.resolveValue(condition.value);
+    if (expected === undefined && condition.value !== undefined) {
       return false;
     }
 
+    // Fold look-alike text on both sides (regex patterns are matched against the folded text as written)
+    if (condition.normalize) {
+      const isRegex = condition.operator === 'regex' || condition.operator === 'regex_i';
+      return this.compareValues(
+        normalizeValue(actualValue, condition.normalize),
+        condition.operator!,
+        isRegex ? expected : normalizeValue(expected, condition.normalize)
+      );
+    }
+
     // Evaluate the comparison
-    return this.compareValues(actualValue, condition.operator, condition.value);
+    return this.compareValues(actualValue, condition.operator!, expected);
+  }
+
+  /**
+   * Resolve a "@list:<name>" reference to the named list's items
+   *
+   * @param value - Condition value
+   * @returns The list items for a reference, otherwise the value unchanged
+   *   (undefined if the referenced list doesn't exist)
+   */
+  private resolveValue(value: any): any {
+    if (typeof value !== 'string' || !value.startsWith(LIST_REFERENCE_PREFIX)) {
+      return value;
+    }
+
+    const name = value.slice(LIST_REFERENCE_PREFIX.length);
+    if (!Object.prototype.hasOwnProperty.call(this.lists, name)) {
+      console.error('[ConditionEvaluator] Unknown list referenced:', name);
+      return undefined;
+    }
+
+    return this.lists[name];
   }
 
   /**
@@ -167,6 +315,11 @@ export class ConditionEvaluator {
       'postHistory.',
       'aiAnalysis.',
       'ai.',  // New shorthand for AI fields
+      'activity.',  // Author's activity counters in this subreddit
+      'thread.',  // Thread context (comments only)
+      'textStats.',  // Text-quality features
+      'now.',  // Evaluation time (UTC)
+      'tags.',  // Tags attached by TAG rules
       'subreddit'
     ];
 
@@ -181,6 +334,10 @@ export class ConditionEvaluator {
    * Supports:
    * - Simple paths: "profile.commentKarma"
    * - Nested paths: "currentPost.body"
+   * - Activity counters: "activity.postsLast24h"
+   * - Thread context (comments): "thread.authorIsOP"
+   * - Text-quality features: "textStats.capsRatio"
+   * - Tags attached by TAG rules: "tags.new-user" (true/false)
    * - Legacy AI answers: "aiAnalysis.answers.dating_intent.confidence"
    * - New AI shorthand (current rule): "ai.answer", "ai.confidence", "ai.reasoning"
    * - New AI shorthand (other rules): "ai.dating_intent.answer", "ai.dating_intent.confidence"
@@ -214,6 +371,11 @@ export class ConditionEvaluator {
       return this.getAIFieldValue(fieldPath, context);
     }
 
+    // Tags are flags: a tag no TAG rule attached is false, not missing
+    if (fieldPath.startsWith('tags.')) {
+      return context.tags?.includes(fieldPath.slice('tags.'.length)) ?? false;
+    }
+
     const parts = fieldPath.split('.');
     const MAX_DEPTH = 10;
 
@@ -307,10 +469,17 @@ export class ConditionEvaluator {
    *
    * Implements all supported operators:
    * - Comparison: <, >, <=, >=, ==, !=
-   * - Text: contains, not_contains, contains_i, not_contains_i
-   * - Array: in, not_in
+   * - Text: contains, not_contains, contains_i, not_contains_i, starts_with,
+   *   ends_with, starts_with_i, ends_with_i, contains_word, contains_any,
+   *   contains_all
+   * - Array: in, not_in, intersects, subset_of
+   * - Length: length_eq, length_lt, length_lte, length_gt, length_gte
+   * - Range: between
    * - Regex: regex, regex_i
    *
+   * Existence operators (exists, not_exists, is_empty) are handled by
+   * matchesLeafValue() before the missing-value check.
+   *
    * @param actual - The actual value from context
    * @param operator - The comparison operator
    * @param expected - The expected value from condition
@@ -352,6 +521,12 @@ export class ConditionEvaluator {
           }
           return !String(actual).includes(String(expected));
 
+        case 'starts_with':
+          return String(actual).startsWith(String(expected));
+
+        case 'ends_with':
+          return String(actual).endsWith(String(expected));
+
         // Text operators (case-insensitive)
         case 'contains_i':
           return String(actual).toLowerCase().includes(String(expected).toLowerCase());
@@ -359,6 +534,34 @@ export class ConditionEvaluator {
         case 'not_contains_i':
           return !String(actual).toLowerCase().includes(String(expected).toLowerCase());
 
+        case 'starts_with_i':
+          return String(actual).toLowerCase().startsWith(String(expected).toLowerCase());
+
+        case 'ends_with_i':
+          return String(actual).toLowerCase().endsWith(String(expected).toLowerCase());
+
+        case 'contains_word': {
+          const wordRegex = this.getWordRegex(String(expected));
+          if (Array.isArray(actual)) {
+            return actual.some((item) => wordRegex.test(String(item)));
+          }
+          return wordRegex.test(String(actual));
+        }
+
+        // List operators (case-insensitive; arrays match whole items, text matches substrings)
+        case 'contains_any':
+        case 'contains_all': {
+          if (!Array.isArray(expected)) {
+            console.error(`[ConditionEvaluator] "${operator}" operator requires array as expected value`);
+            return false;
+          }
+          const matchesTerm = (term: any) =>
+            Array.isArray(actual)
+              ? actual.some((item) => this.sameItem(item, term))
+              : String(actual).toLowerCase().includes(String(term).toLowerCase());
+          return operator === 'contains_any' ? expected.some(matchesTerm) : expected.every(matchesTerm);
+        }
+
         // Array membership operators
         case 'in':
           if (!Array.isArray(expected)) {
@@ -374,15 +577,57 @@ export class ConditionEvaluator {
           }
           return !expected.includes(actual);
 
-        // Regex operators (with caching)
+        case 'intersects':
+        case 'subset_of': {
+          if (!Array.isArray(actual) || !Array.isArray(expected)) {
+            console.error(`[ConditionEvaluator] "${operator}" operator requires array field and array expected value`);
+            return false;
+          }
+          const inExpected = (item: any) => expected.some((candidate) => this.sameItem(item, candidate));
+          return operator === 'intersects' ? actual.some(inExpected) : actual.every(inExpected);
+        }
+
+        // Length operators (characters for text, items for arrays)
+        case 'length_eq':
+        case 'length_lt':
+        case 'length_lte':
+        case 'length_gt':
+        case 'length_gte': {
+          const length = Array.isArray(actual) ? actual.length : String(actual).length;
+          const limit = Number(expected);
+          switch (operator) {
+            case 'length_eq':
+              return length === limit;
+            case 'length_lt':
+              return length < limit;
+            case 'length_lte':
+              return length <= limit;
+            case 'length_gt':
+              return length > limit;
+            default:
+              return length >= limit;
+          }
+        }
+
+        // Range operator (inclusive)
+        case 'between': {
+          if (!Array.isArray(expected) || expected.length !== 2) {
+            console.error('[ConditionEvaluator] "between" operator requires [min, max] as expected value');
+            return false;
+          }
+          const value = Number(actual);
+          return value >= Number(expected[0]) && value <= Number(expected[1]);
+        }
+
+        // Regex operators (with caching; only the first MAX_REGEX_INPUT_LENGTH characters are matched)
         case 'regex': {
           const regex = this.getCompiledRegex(String(expected), '');
-          return regex.test(String(actual));
+          return regex.test(String(actual).slice(0, MAX_REGEX_INPUT_LENGTH));
         }
 
         case 'regex_i': {
           const regex = this.getCompiledRegex(String(expected), 'i');
-          return regex.test(String(actual));
+          return regex.test(String(actual).slice(0, MAX_REGEX_INPUT_LENGTH));
         }
 
         default:
@@ -400,13 +645,41 @@ export class ConditionEvaluator {
     }
   }
 
+  /**
+   * Compare two list items (case-insensitive for strings)
+   *
+   * @param item - Item from the field value
+   * @param candidate - Item from the condition value
+   * @returns true if the items are equal
+   */
+  private sameItem(item: any, candidate: any): boolean {
+    if (typeof item === 'string' && typeof candidate === 'string') {
+      return item.toLowerCase() === candidate.toLowerCase();
+    }
+    return item === candidate;
+  }
+
+  /**
+   * Get a case-insensitive whole-word regex for a literal word or phrase
+   *
+   * The word is escaped, so rule authors can't inject regex syntax. Word
+   * boundaries are Unicode-aware (letters, digits and underscore).
+   *
+   * @param word - Literal word or phrase
+   * @returns Compiled RegExp (cached)
+   */
+  private getWordRegex(word: string): RegExp {
+    const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return this.getCompiledRegex(`(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`, 'iu');
+  }
+
   /**
    * Get compiled regex from cache or compile and cache it
    * Improves performance by avoiding repeated regex compilation
    *
    * Security features:
    * - Pattern length validation (max 200 chars)
-   * - Detection of dangerous nested quantifier patterns (ReDoS prevention)
+   * - Detection of nested quantifiers and overlapping alternations (ReDoS prevention, see regexSafety)
    * - LRU cache with size limit
    * - Safe error handling
    *
@@ -429,27 +702,15 @@ export class ConditionEvaluator {
           return this.regexCache.get(key)!;
         }
 
-        // Check for dangerous nested quantifiers that could cause ReDoS
-        // These patterns can cause exponential backtracking
-        const dangerousPatterns = [
-          /(\([\w\s]+[*+]\))+[*+]/,     // Nested quantifiers like (w+)+
-          /(\[[\w\s]+[*+]\])+[*+]/,     // Nested quantifiers in character classes
-          /(\.\*)+/,                      // Nested .* patterns
-          /(\.\+)+/,                      // Nested .+ patterns
-          /(\\d\+)+/,                     // Nested \d+ patterns
-          /(\\w\+)+/,                     // Nested \w+ patterns
-          /(\\s\*)+/,                     // Nested \s* patterns
-        ];
-
-        for (const dangerous of dangerousPatterns) {
-          if (dangerous.test(pattern)) {
-            console.error('[ConditionEvaluator] Potentially dangerous regex pattern detected:', {
-              pattern,
-              reason: 'Nested quantifiers can cause ReDoS'
-            });
-            this.regexCache.set(key, new RegExp('(?!)'));
-            return this.regexCache.get(key)!;
-          }
+        // Reject patterns that can backtrack catastrophically (ReDoS)
+        const hazard = findRegexHazard(pattern, flags);
+        if (hazard) {
+          console.error('[ConditionEvaluator] Potentially dangerous regex pattern detected:', {
+            pattern,
+            reason: hazard
+          });
+          this.regexCache.set(key, new RegExp('(?!)'));
+          return this.regexCache.get(key)!;
         }
 
         // Implement simple LRU by removing oldest entry if cache is full
@@ -0,0 +1,143 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Condition explanations - compaction and formatting of condition traces
+ *
+ * A condition trace (see ConditionEvaluator.evaluateWithTrace) records the
+ * outcome of every node of a rule's condition tree. This module shrinks a
+ * trace to the path that fired so it can be stored with each decision, and
+ * formats traces for display in moderator forms.
+ *
+ * @module rules/explanation
+ */
+
+import { ConditionTrace } from '../types/rules.js';
+
+/** Maximum stored length of string values */
+const MAX_STRING_LENGTH = 100;
+
+/** Maximum stored array items */
+const MAX_ARRAY_ITEMS = 10;
+
+/** Maximum displayed length of a formatted value */
+const MAX_DISPLAY_LENGTH = 80;
+
+/**
+ * Reduce a condition trace to the path that decided the outcome
+ *
+ * - Matched OR nodes keep only their matched children (the branches that fired)
+ * - Failed AND nodes keep only their failed children (the branches that blocked)
+ * - Failed NOT nodes keep only their matched children (the branches that blocked)
+ * - Long strings and arrays are truncated
+ *
+ * @param trace - Full condition trace
+ * @returns Compact trace with the same shape
+ */
+export function compactExplanation(trace: ConditionTrace): ConditionTrace {
+  if (trace.children) {
+    const decisive = trace.children.filter((child) => isDecisive(trace, child));
+
+    return {
+      matched: trace.matched,
+      logicalOperator: trace.logicalOperator,
+      children: decisive.map(compactExplanation),
+    };
+  }
+
+  return {
+    matched: trace.matched,
+    field: trace.field,
+    operator: trace.operator,
+    expected: truncateValue(trace.expected),
+    actual: truncateValue(trace.actual),
+  };
+}
+
+/**
+ * Format a condition trace tree as indented lines
+ *
+ * @param trace - Condition trace node
+ * @param depth - Indentation depth
+ * @returns Lines for this node and its children
+ */
+export function formatConditionTrace(trace: ConditionTrace, depth = 0): string[] {
+  const indent = '  '.repeat(depth);
+  const mark = trace.matched ? '✓' : '✗';
+
+  if (trace.children) {
+    return [
+      `${indent}${mark} ${trace.logicalOperator}`,
+      ...trace.children.flatMap((child) => formatConditionTrace(child, depth + 1)),
+    ];
+  }
+
+  if (trace.field) {
+    return [
+      `${indent}${mark} ${trace.field} ${trace.operator} ${formatValue(trace.expected)} (actual: ${formatValue(trace.actual)})`,
+    ];
+  }
+
+  return [`${indent}${mark} (invalid condition)`];
+}
+
+/**
+ * Whether a child node decided its parent's outcome
+ */
+function isDecisive(parent: ConditionTrace, child: ConditionTrace): boolean {
+  switch (parent.logicalOperator) {
+    case 'OR':
+      return !parent.matched || child.matched;
+    case 'AND':
+      return parent.matched || !child.matched;
+    case 'NOT':
+      return parent.matched || child.matched;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Truncate a value for storage
+ */
+function truncateValue(value: any): any {
+  if (typeof value === 'string' && value.length > MAX_STRING_LENGTH) {
+    return `${value.substring(0, MAX_STRING_LENGTH - 3)}...`;
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map(truncateValue);
+    return value.length > MAX_ARRAY_ITEMS
+      ? [...items, `(+${value.length - MAX_ARRAY_ITEMS} more)`]
+      : items;
+  }
+
+  return value;
+}
+
+/**
+ * Format a value for trace display, shortening long text
+ */
+function formatValue(value: any): string {
+  if (value === undefined || value === null) {
+    return 'missing';
+  }
+
+  const text = typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+  return text.length > MAX_DISPLAY_LENGTH ? `${text.substring(0, MAX_DISPLAY_LENGTH - 3)}...` : text;
+}
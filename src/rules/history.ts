@@ -0,0 +1,339 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Rule History - Versioned snapshots of the rules configuration
+ *
+ * Every validated change of the rulesJson setting is stored as a numbered
+ * version with timestamp, editor and a summary of what changed. The last
+ * MAX_VERSIONS versions are kept.
+ *
+ * Apps can't write their own settings, so a rollback is stored as an override
+ * in Redis: the restored version is used instead of the rulesJson setting for
+ * as long as the setting keeps the text it had at rollback time. The next edit
+ * of the setting takes over again.
+ *
+ * @module rules/history
+ */
+
+import { RedisClient } from '@devvit/public-api';
+import crypto from 'crypto';
+import { Rule, RuleSet } from '../types/rules.js';
+import { RuleSchemaValidator } from './schemaValidator.js';
+
+/**
+ * One stored version of the rules configuration
+ */
+export interface RuleVersion {
+  /** Version number (increasing) */
+  version: number;
+  /** When the version was recorded (milliseconds since epoch) */
+  timestamp: number;
+  /** Username of the moderator who made the change */
+  editor: string;
+  /** Human-readable summary of the change against the previous version */
+  summary: string;
+  /** Rules configuration text */
+  rulesJson: string;
+  /** Hash of rulesJson (change detection) */
+  hash: string;
+  /** Version that was restored, if this version was created by a rollback */
+  rolledBackFrom?: number;
+}
+
+/**
+ * Active rollback override
+ */
+interface RollbackOverride {
+  /** Version whose rules are active */
+  version: number;
+  /** Hash of the rulesJson setting at rollback time */
+  settingsHash: string;
+}
+
+/**
+ * Redis key prefix for rule history
+ */
+const HISTORY_KEY_PREFIX = 'rules:history:';
+
+/**
+ * Number of versions kept
+ */
+const MAX_VERSIONS = 50;
+
+/**
+ * Rule History class
+ * Stores rule versions and the active rollback in Redis
+ */
+export class RuleHistory {
+  constructor(private redis: RedisClient) {}
+
+  /**
+   * Record a rules configuration as a new version if it changed
+   *
+   * Configurations that fail validation are not recorded.
+   *
+   * @param rulesJson - Rules configuration text
+   * @param editor - Username of the moderator making the change
+   * @returns The new version, or null if nothing was recorded
+   */
+  async recordVersion(rulesJson: string, editor: string): Promise<RuleVersion | null> {
+    try {
+      const hash = hashRules(rulesJson);
+      const latest = await this.getLatestVersion();
+      if (latest?.hash === hash) {
+        return null;
+      }
+
+      const next = await parseRuleSet(rulesJson);
+      if (!next) {
+        return null;
+      }
+
+      const previous = latest ? await parseRuleSet(latest.rulesJson) : null;
+      return await this.saveVersion({
+        timestamp: Date.now(),
+        editor,
+        summary: summarizeChanges(previous, next),
+        rulesJson,
+        hash,
+      });
+    } catch (error) {
+      console.error('[RuleHistory] Failed to record rules version:', {
+        editor,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Re-activate an older version
+   *
+   * Records the restored configuration as a new version and makes it override
+   * the rulesJson setting until the setting is edited again.
+   *
+   * @param version - Version number to restore
+   * @param settingsRulesJson - Current text of the rulesJson setting
+   * @param editor - Username of the moderator rolling back
+   * @returns The new version recording the rollback
+   * @throws Error with a user-facing message if the version doesn't exist
+   */
+  async rollback(version: number, settingsRulesJson: string, editor: string): Promise<RuleVersion> {
+    const target = await this.getVersion(version);
+    if (!target) {
+      throw new Error(`Version ${version} no longer exists.`);
+    }
+
+    const latest = await this.getLatestVersion();
+    const previous = latest ? await parseRuleSet(latest.rulesJson) : null;
+    const restored = await parseRuleSet(target.rulesJson);
+
+    const saved = await this.saveVersion({
+      timestamp: Date.now(),
+      editor,
+      summary: `Rolled back to version ${version}${restored ? `: ${summarizeChanges(previous, restored)}` : ''}`,
+      rulesJson: target.rulesJson,
+      hash: target.hash,
+      rolledBackFrom: version,
+    });
+
+    const override: RollbackOverride = { version: saved.version, settingsHash: hashRules(settingsRulesJson) };
+    await this.redis.set(`${HISTORY_KEY_PREFIX}rollback`, JSON.stringify(override));
+
+    console.log('[RuleHistory] Rolled back rules:', {
+      restoredVersion: version,
+      newVersion: saved.version,
+      editor,
+    });
+
+    return saved;
+  }
+
+  /**
+   * Get the rules configuration that overrides the setting after a rollback
+   *
+   * Clears the override once the setting no longer holds the text it had at
+   * rollback time.
+   *
+   * @param settingsRulesJson - Current text of the rulesJson setting
+   * @returns The restored configuration text, or null if the setting applies
+   */
+  async getActiveOverride(settingsRulesJson: string): Promise<string | null> {
+    try {
+      const stored = await this.redis.get(`${HISTORY_KEY_PREFIX}rollback`);
+      if (!stored) {
+        return null;
+      }
+
+      const override = JSON.parse(stored) as RollbackOverride;
+      if (override.settingsHash !== hashRules(settingsRulesJson)) {
+        console.log('[RuleHistory] Rules setting changed since rollback, clearing override:', {
+          version: override.version,
+        });
+        await this.redis.del(`${HISTORY_KEY_PREFIX}rollback`);
+        return null;
+      }
+
+      const version = await this.getVersion(override.version);
+      return version?.rulesJson ?? null;
+    } catch (error) {
+      console.error('[RuleHistory] Failed to read rollback override:', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Get the number of the version that is currently active through a rollback
+   *
+   * @returns Version number, or null if the rulesJson setting applies
+   */
+  async getRollbackVersion(): Promise<number | null> {
+    const stored = await this.redis.get(`${HISTORY_KEY_PREFIX}rollback`);
+    return stored ? (JSON.parse(stored) as RollbackOverride).version : null;
+  }
+
+  /**
+   * List stored versions, newest first
+   *
+   * @param limit - Maximum number of versions to return
+   * @returns Stored versions
+   */
+  async listVersions(limit = MAX_VERSIONS): Promise<RuleVersion[]> {
+    const latest = Number((await this.redis.get(`${HISTORY_KEY_PREFIX}counter`)) ?? 0);
+    const count = Math.min(limit, MAX_VERSIONS, latest);
+    if (count === 0) {
+      return [];
+    }
+
+    const keys = Array.from({ length: count }, (_, index) => `${HISTORY_KEY_PREFIX}v:${latest - index}`);
+    const stored = await this.redis.mGet(keys);
+
+    return stored
+      .filter((entry): entry is string => Boolean(entry))
+      .map((entry) => JSON.parse(entry) as RuleVersion);
+  }
+
+  /**
+   * Get one stored version
+   *
+   * @param version - Version number
+   * @returns The version, or null if it doesn't exist (or was pruned)
+   */
+  async getVersion(version: number): Promise<RuleVersion | null> {
+    const stored = await this.redis.get(`${HISTORY_KEY_PREFIX}v:${version}`);
+    return stored ? (JSON.parse(stored) as RuleVersion) : null;
+  }
+
+  /**
+   * Get the most recent version
+   */
+  private async getLatestVersion(): Promise<RuleVersion | null> {
+    const [latest] = await this.listVersions(1);
+    return latest ?? null;
+  }
+
+  /**
+   * Store a new version under the next version number and prune old versions
+   */
+  private async saveVersion(entry: Omit<RuleVersion, 'version'>): Promise<RuleVersion> {
+    const version = await this.redis.incrBy(`${HISTORY_KEY_PREFIX}counter`, 1);
+    const saved: RuleVersion = { version, ...entry };
+
+    await this.redis.set(`${HISTORY_KEY_PREFIX}v:${version}`, JSON.stringify(saved));
+    if (version > MAX_VERSIONS) {
+      await this.redis.del(`${HISTORY_KEY_PREFIX}v:${version - MAX_VERSIONS}`);
+    }
+
+    console.log('[RuleHistory] Recorded rules version:', {
+      version,
+      editor: entry.editor,
+      summary: entry.summary,
+    });
+
+    return saved;
+  }
+}
+
+/**
+ * Summarize the differences between two rule sets
+ *
+ * Rules are matched by name (IDs may be generated on every load). Rule
+ * changes ignore the ID and timestamps for the same reason.
+ *
+ * @param previous - Previous rule set (null for the first version)
+ * @param next - New rule set
+ * @returns Summary such as "1 added (Spam links); 1 changed (New accounts)"
+ */
+export function summarizeChanges(previous: RuleSet | null, next: RuleSet): string {
+  if (!previous) {
+    return `Initial version (${next.rules.length} rules)`;
+  }
+
+  const before = new Map(previous.rules.map((rule) => [rule.name, rule]));
+  const after = new Map(next.rules.map((rule) => [rule.name, rule]));
+
+  const added = [...after.keys()].filter((name) => !before.has(name));
+  const removed = [...before.keys()].filter((name) => !after.has(name));
+  const changed = [...after.keys()].filter(
+    (name) => before.has(name) && ruleContent(before.get(name)!) !== ruleContent(after.get(name)!)
+  );
+
+  const parts = [
+    added.length > 0 && `${added.length} added (${added.join(', ')})`,
+    removed.length > 0 && `${removed.length} removed (${removed.join(', ')})`,
+    changed.length > 0 && `${changed.length} changed (${changed.join(', ')})`,
+    (previous.evaluationMode ?? 'first_match') !== (next.evaluationMode ?? 'first_match') &&
+      `evaluation mode ${previous.evaluationMode ?? 'first_match'} → ${next.evaluationMode ?? 'first_match'}`,
+    JSON.stringify(previous.lists ?? {}) !== JSON.stringify(next.lists ?? {}) && 'lists changed',
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join('; ') : 'No rule changes (formatting only)';
+}
+
+/**
+ * Serialize a rule for comparison, without the fields the validator fills in
+ * differently on every parse (generated ID and timestamps)
+ */
+function ruleContent(rule: Rule): string {
+  const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...content } = rule;
+  return JSON.stringify(content);
+}
+
+/**
+ * Hash a rules configuration text
+ */
+function hashRules(rulesJson: string): string {
+  return crypto.createHash('md5').update(rulesJson.trim()).digest('hex');
+}
+
+/**
+ * Validate a rules configuration text
+ *
+ * @returns The validated rule set, or null if it is empty or invalid
+ */
+async function parseRuleSet(rulesJson: string): Promise<RuleSet | null> {
+  if (rulesJson.trim() === '') {
+    return null;
+  }
+
+  const result = await RuleSchemaValidator.validateAndMigrate(rulesJson);
+  return result.success ? result.data! : null;
+}
@@ -0,0 +1,153 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Last Known Good Rules - The most recent rules configuration that validated
+ *
+ * Saving the settings rejects invalid rules, but a stored configuration can
+ * still break (e.g. it was saved by an older version with a more lenient
+ * validator). Instead of silently switching to the default rules, the rule
+ * loader then keeps using the last configuration that validated, and the mod
+ * team is alerted once per broken configuration.
+ *
+ * @module rules/lastKnownGood
+ */
+
+import { RedisClient } from '@devvit/public-api';
+import crypto from 'crypto';
+import { RuleSet } from '../types/rules.js';
+
+/**
+ * Stored last known good rule set
+ */
+export interface LastKnownGoodEntry {
+  /** Validated rule set */
+  ruleSet: RuleSet;
+  /** Hash of the configuration text it was validated from */
+  hash: string;
+  /** When it was saved (milliseconds since epoch) */
+  savedAt: number;
+}
+
+/**
+ * Redis key prefix for last known good rules
+ */
+const LAST_KNOWN_GOOD_KEY_PREFIX = 'rules:lastKnownGood:';
+
+/**
+ * How long a broken configuration stays alerted (30 days in seconds)
+ */
+const BROKEN_ALERT_TTL = 30 * 24 * 60 * 60;
+
+/**
+ * Last Known Good Rules class
+ * Stores the last validated rule set and de-duplicates broken config alerts
+ */
+export class LastKnownGoodRules {
+  constructor(private redis: RedisClient) {}
+
+  /**
+   * Remember a validated rule set
+   *
+   * Only writes when the configuration text changed since the last save, so
+   * this is cheap to call on every rule load.
+   *
+   * @param rulesJson - Configuration text the rule set was validated from
+   * @param ruleSet - Validated rule set
+   */
+  async save(rulesJson: string, ruleSet: RuleSet): Promise<void> {
+    try {
+      const hash = hashRules(rulesJson);
+      if ((await this.redis.get(`${LAST_KNOWN_GOOD_KEY_PREFIX}hash`)) === hash) {
+        return;
+      }
+
+      const entry: LastKnownGoodEntry = { ruleSet, hash, savedAt: Date.now() };
+      await this.redis.set(`${LAST_KNOWN_GOOD_KEY_PREFIX}set`, JSON.stringify(entry));
+      await this.redis.set(`${LAST_KNOWN_GOOD_KEY_PREFIX}hash`, hash);
+
+      console.log('[LastKnownGood] Saved last known good rules:', {
+        ruleCount: ruleSet.rules.length,
+      });
+    } catch (error) {
+      console.error('[LastKnownGood] Failed to save last known good rules:', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Get the last validated rule set
+   *
+   * @returns The stored entry, or null if no configuration ever validated
+   */
+  async get(): Promise<LastKnownGoodEntry | null> {
+    try {
+      const stored = await this.redis.get(`${LAST_KNOWN_GOOD_KEY_PREFIX}set`);
+      return stored ? (JSON.parse(stored) as LastKnownGoodEntry) : null;
+    } catch (error) {
+      console.error('[LastKnownGood] Failed to read last known good rules:', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Mark a broken configuration as alerted
+   *
+   * @param rulesJson - Broken configuration text
+   * @returns True the first time a configuration is seen (alert now), false afterwards
+   */
+  async markBroken(rulesJson: string): Promise<boolean> {
+    const key = `${LAST_KNOWN_GOOD_KEY_PREFIX}broken:${hashRules(rulesJson)}`;
+    try {
+      if (await this.redis.get(key)) {
+        return false;
+      }
+      await this.redis.set(key, String(Date.now()), {
+        expiration: new Date(Date.now() + BROKEN_ALERT_TTL * 1000),
+      });
+      return true;
+    } catch (error) {
+      console.error('[LastKnownGood] Failed to record broken rules:', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+}
+
+/**
+ * Describe what stays active while the configured rules are broken
+ *
+ * @param saved - Last known good entry (null if no configuration ever validated)
+ * @returns Description for logs and the mod team alert
+ */
+export function describeFallback(saved: LastKnownGoodEntry | null): string {
+  return saved
+    ? `the last known good rules (saved ${new Date(saved.savedAt).toISOString()}) stay active`
+    : 'the default rules are used';
+}
+
+/**
+ * Hash a rules configuration text
+ */
+function hashRules(rulesJson: string): string {
+  return crypto.createHash('md5').update(rulesJson.trim()).digest('hex');
+}
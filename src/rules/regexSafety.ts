@@ -0,0 +1,424 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Regex Safety - Static detection of catastrophic backtracking (ReDoS)
+ *
+ * JavaScript regexes backtrack, so some patterns take exponential time on
+ * input that almost matches, which would hang a trigger handler. The two
+ * classic shapes are detected by parsing the pattern:
+ * - Nested quantifiers: a repeated group containing a repeated part that can
+ *   also match the start of the next iteration, e.g. `(a+)+` (but not the
+ *   delimited `(\w+\.)+`)
+ * - Overlapping alternation: a repeated group whose alternatives can start
+ *   with the same character, e.g. `(a|ab)*` or `(\w|\d)+`
+ *
+ * The schema validator disables rules using such patterns, and the evaluator
+ * refuses to compile them. Matching is additionally limited to the first
+ * MAX_REGEX_INPUT_LENGTH characters of the field.
+ *
+ * @module rules/regexSafety
+ */
+
+/**
+ * Maximum regex pattern length
+ */
+export const MAX_REGEX_PATTERN_LENGTH = 200;
+
+/**
+ * Maximum number of characters a regex condition is matched against
+ */
+export const MAX_REGEX_INPUT_LENGTH = 10000;
+
+/**
+ * Characters tried when checking whether two atoms can match the same character
+ */
+const OVERLAP_SAMPLE: string[] = [
+  ...Array.from({ length: 0x7f - 0x20 }, (_, index) => String.fromCharCode(0x20 + index)),
+  '\t',
+  '\n',
+  'é',
+  'ß',
+  'а',
+  '中',
+];
+
+/**
+ * Part of a parsed pattern: a single-character atom or a group, with its quantifier
+ */
+type PatternElement =
+  | { kind: 'atom'; source: string; min: number; max: number }
+  | { kind: 'group'; source: string; branches: PatternElement[][]; min: number; max: number };
+
+/**
+ * Find a catastrophic-backtracking hazard in a regex pattern
+ *
+ * A repeated group is only flagged when the same text can be split between
+ * its iterations in more than one way:
+ * - A repeated part inside it that is not followed by a required delimiter
+ *   it cannot match, e.g. `(a+)+` or `(\w+\s?)+` (but not `(\w+\.)+` or
+ *   `(\d{1,3}\.){3}`)
+ * - Alternatives that can start with the same character, e.g. `(a|ab)*`
+ * - A body that can match empty text, e.g. `(?:a?){25}`
+ *
+ * @param pattern - Regex source
+ * @param flags - Regex flags the pattern is compiled with ('i' affects overlap)
+ * @returns Why the pattern is unsafe, or null if no hazard was found
+ *
+ * @example
+ * ```typescript
+ * findRegexHazard('(a+)+'); // "nested quantifier '(a+)+' ..."
+ * findRegexHazard('(\\w+\\.)+com'); // null
+ * ```
+ */
+export function findRegexHazard(pattern: string, flags = ''): string | null {
+  const branches = parsePattern(pattern);
+  if (!branches) {
+    return null; // Unbalanced; compiling the pattern reports it
+  }
+  const overlaps = createOverlapCheck(flags);
+  return findHazardInBranches(branches, overlaps);
+}
+
+/**
+ * Check whether two atoms can match the same character
+ */
+type OverlapCheck = (a: string, b: string) => boolean;
+
+/**
+ * Search a list of alternatives (and every group inside them) for a hazard
+ */
+function findHazardInBranches(branches: PatternElement[][], overlaps: OverlapCheck): string | null {
+  for (const branch of branches) {
+    for (const element of branch) {
+      if (element.kind !== 'group') {
+        continue;
+      }
+      if (element.max > 1) {
+        const hazard = findRepeatedGroupHazard(element, overlaps);
+        if (hazard) {
+          return hazard;
+        }
+      }
+      const nested = findHazardInBranches(element.branches, overlaps);
+      if (nested) {
+        return nested;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a repeated group for ambiguous splits between its iterations
+ */
+function findRepeatedGroupHazard(
+  group: Extract<PatternElement, { kind: 'group' }>,
+  overlaps: OverlapCheck
+): string | null {
+  const groupFirsts = group.branches.flatMap(firstAtoms);
+
+  for (const branch of group.branches) {
+    for (let index = 0; index < branch.length; index++) {
+      const element = branch[index];
+      if (element.max <= 1 && !containsRepeat(element)) {
+        continue;
+      }
+      if (!isDelimited(allAtoms(element), branch.slice(index + 1), groupFirsts, overlaps)) {
+        return `nested quantifier '${group.source}' repeats a group whose repeated part can run into the next iteration`;
+      }
+    }
+  }
+
+  for (let a = 0; a < group.branches.length; a++) {
+    for (let b = a + 1; b < group.branches.length; b++) {
+      const first = firstAtoms(group.branches[a]);
+      const second = firstAtoms(group.branches[b]);
+      if (first.some((atomA) => second.some((atomB) => overlaps(atomA, atomB)))) {
+        return `overlapping alternation '${group.source}' repeats alternatives that can match the same text`;
+      }
+    }
+  }
+
+  if (group.branches.some(isNullable)) {
+    return `empty-matching repeat '${group.source}' repeats a group that can match empty text`;
+  }
+  return null;
+}
+
+/**
+ * Check whether a repeated part is ended by a required atom it cannot match
+ *
+ * Optional parts before the delimiter must not overlap the repeated part
+ * either. Without a delimiter in the rest of the branch, the next iteration
+ * of the group follows, so its first atoms must not overlap.
+ *
+ * @param repeated - Atoms the repeated part can match
+ * @param rest - Elements after the repeated part in the same alternative
+ * @param groupFirsts - First atoms of the enclosing group's alternatives
+ * @param overlaps - Overlap check
+ */
+function isDelimited(
+  repeated: string[],
+  rest: PatternElement[],
+  groupFirsts: string[],
+  overlaps: OverlapCheck
+): boolean {
+  const overlapsRepeated = (atoms: string[]) =>
+    atoms.some((atom) => repeated.some((repeatedAtom) => overlaps(atom, repeatedAtom)));
+
+  for (const element of rest) {
+    if (overlapsRepeated(allAtoms(element))) {
+      return false;
+    }
+    if (element.min >= 1) {
+      return true;
+    }
+  }
+  return !overlapsRepeated(groupFirsts);
+}
+
+/**
+ * Whether an alternative can match empty text (every part optional)
+ */
+function isNullable(branch: PatternElement[]): boolean {
+  return branch.every(
+    (element) => element.min === 0 || (element.kind === 'group' && element.branches.some(isNullable))
+  );
+}
+
+/**
+ * Whether any part of an element is repeated
+ */
+function containsRepeat(element: PatternElement): boolean {
+  return (
+    element.max > 1 ||
+    (element.kind === 'group' && element.branches.some((branch) => branch.some(containsRepeat)))
+  );
+}
+
+/**
+ * Every atom inside an element
+ */
+function allAtoms(element: PatternElement): string[] {
+  return element.kind === 'atom' ? [element.source] : element.branches.flat().flatMap(allAtoms);
+}
+
+/**
+ * Atoms an alternative can start with (skipping optional leading parts)
+ */
+function firstAtoms(branch: PatternElement[]): string[] {
+  const atoms: string[] = [];
+  for (const element of branch) {
+    atoms.push(...(element.kind === 'atom' ? [element.source] : element.branches.flatMap(firstAtoms)));
+    if (element.min >= 1) {
+      break;
+    }
+  }
+  return atoms;
+}
+
+/**
+ * Parse a pattern into alternatives of atoms and groups
+ *
+ * Anchors and word boundaries are skipped since they match no text.
+ *
+ * @returns Top-level alternatives, or null if the parentheses are unbalanced
+ */
+function parsePattern(pattern: string): PatternElement[][] | null {
+  let i = 0;
+
+  const parseAlternatives = (): PatternElement[][] => {
+    const branches: PatternElement[][] = [[]];
+
+    while (i < pattern.length && pattern[i] !== ')') {
+      const char = pattern[i];
+      const start = i;
+      let element: PatternElement;
+
+      if (char === '|') {
+        branches.push([]);
+        i++;
+        continue;
+      } else if (char === '^' || char === '$') {
+        i++;
+        continue;
+      } else if (char === '(') {
+        i += groupPrefixLength(pattern, i);
+        const inner = parseAlternatives();
+        if (pattern[i] !== ')') {
+          throw new Error('Unbalanced group');
+        }
+        i++;
+        element = { kind: 'group', source: '', branches: inner, min: 1, max: 1 };
+      } else if (char === '\\') {
+        const length = escapeLength(pattern, i);
+        i += length;
+        if (pattern[start + 1] === 'b' || pattern[start + 1] === 'B') {
+          continue;
+        }
+        element = { kind: 'atom', source: pattern.slice(start, i), min: 1, max: 1 };
+      } else if (char === '[') {
+        i += classLength(pattern, i);
+        element = { kind: 'atom', source: pattern.slice(start, i), min: 1, max: 1 };
+      } else {
+        i++;
+        element = { kind: 'atom', source: char, min: 1, max: 1 };
+      }
+
+      const quantifier = readQuantifier(pattern, i);
+      if (quantifier) {
+        i += quantifier.length;
+        element.min = quantifier.min;
+        element.max = quantifier.max;
+      }
+      element.source = pattern.slice(start, i);
+      branches[branches.length - 1].push(element);
+    }
+    return branches;
+  };
+
+  try {
+    const branches = parseAlternatives();
+    return i < pattern.length ? null : branches;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Length of a group's opening syntax: '(', '(?:', '(?=', '(?!', '(?<=', '(?<!' or '(?<name>'
+ */
+function groupPrefixLength(pattern: string, index: number): number {
+  if (pattern[index + 1] !== '?') {
+    return 1;
+  }
+  const next = pattern[index + 2];
+  if (next === '<' && pattern[index + 3] !== '=' && pattern[index + 3] !== '!') {
+    const end = pattern.indexOf('>', index);
+    return end === -1 ? 3 : end - index + 1;
+  }
+  return next === '<' ? 4 : 3;
+}
+
+/**
+ * Length of an escape sequence (e.g. '\d', '\x41', '\u0041', '\u{1F600}', '\p{L}')
+ */
+function escapeLength(pattern: string, index: number): number {
+  const next = pattern[index + 1];
+  if ((next === 'p' || next === 'P' || next === 'u') && pattern[index + 2] === '{') {
+    const end = pattern.indexOf('}', index);
+    return end === -1 ? 2 : end - index + 1;
+  }
+  if (next === 'u') {
+    return 6;
+  }
+  if (next === 'x') {
+    return 4;
+  }
+  return Math.min(2, pattern.length - index);
+}
+
+/**
+ * Length of a character class ('[...]'), honouring escapes inside it
+ */
+function classLength(pattern: string, index: number): number {
+  let i = index + 1;
+  if (pattern[i] === ']') {
+    i++; // A leading ']' is literal
+  }
+  while (i < pattern.length && pattern[i] !== ']') {
+    i += pattern[i] === '\\' ? 2 : 1;
+  }
+  return Math.min(i + 1, pattern.length) - index;
+}
+
+/**
+ * Read a quantifier at index: *, +, ?, {n}, {n,} or {n,m} (with optional lazy '?')
+ *
+ * @returns Quantifier length and its minimum/maximum repetitions, or null
+ */
+function readQuantifier(pattern: string, index: number): { length: number; min: number; max: number } | null {
+  const char = pattern[index];
+  let length = 1;
+  let min: number;
+  let max: number;
+
+  if (char === '*') {
+    [min, max] = [0, Infinity];
+  } else if (char === '+') {
+    [min, max] = [1, Infinity];
+  } else if (char === '?') {
+    [min, max] = [0, 1];
+  } else if (char === '{') {
+    const match = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(index, index + 20));
+    if (!match) {
+      return null; // Literal '{'
+    }
+    length = match[0].length;
+    min = Number(match[1]);
+    max = match[2] === undefined ? min : match[3] === '' ? Infinity : Number(match[3]);
+  } else {
+    return null;
+  }
+
+  if (pattern[index + length] === '?') {
+    length++;
+  }
+  return { length, min, max };
+}
+
+/**
+ * Create a check for whether two atoms can match the same character
+ *
+ * Atoms that can't be compiled on their own are treated as overlapping.
+ *
+ * @param flags - Regex flags
+ */
+function createOverlapCheck(flags: string): OverlapCheck {
+  const matchers = new Map<string, RegExp | null>();
+  const matcherFor = (atom: string) => {
+    if (!matchers.has(atom)) {
+      matchers.set(atom, compileAtom(atom, flags));
+    }
+    return matchers.get(atom)!;
+  };
+
+  return (a, b) => {
+    const first = matcherFor(a);
+    const second = matcherFor(b);
+    return !first || !second || OVERLAP_SAMPLE.some((char) => first.test(char) && second.test(char));
+  };
+}
+
+/**
+ * Compile a single atom into a one-character matcher
+ *
+ * @returns Matcher, or null if the atom can't be compiled on its own (treated as overlapping)
+ */
+function compileAtom(atom: string, flags: string): RegExp | null {
+  const caseFlag = flags.includes('i') ? 'i' : '';
+  for (const extra of ['u', '']) {
+    try {
+      return new RegExp(`^(?:${atom})$`, caseFlag + extra);
+    } catch (error) {
+      // Not valid in this mode, try the next one
+    }
+  }
+  return null;
+}
@@ -0,0 +1,92 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Rule schedules - time-based rule activation
+ *
+ * Rules can be limited to a date range (activeFrom/activeUntil) and to
+ * recurring UTC weekday/hour windows (activeWindows). All times are UTC.
+ *
+ * @module rules/schedule
+ */
+
+import { ActiveWindow, BaseRule, TimeContext } from '../types/rules.js';
+
+/**
+ * Build the `now.*` condition fields for a point in time
+ *
+ * @param now - Evaluation time
+ * @returns UTC hour and weekday
+ */
+export function getTimeContext(now: Date): TimeContext {
+  return {
+    hourUTC: now.getUTCHours(),
+    dayOfWeek: now.getUTCDay(),
+  };
+}
+
+/**
+ * Check whether a rule's schedule allows it to run at a point in time
+ *
+ * - activeFrom is inclusive, activeUntil is exclusive
+ * - With activeWindows, at least one window must contain the time
+ * - Rules without a schedule are always active
+ *
+ * @param rule - Rule with optional schedule fields
+ * @param now - Evaluation time
+ * @returns true if the rule is active
+ */
+export function isRuleActive(
+  rule: Pick<BaseRule, 'activeFrom' | 'activeUntil' | 'activeWindows'>,
+  now: Date
+): boolean {
+  const time = now.getTime();
+
+  if (rule.activeFrom !== undefined && time < Date.parse(rule.activeFrom)) {
+    return false;
+  }
+
+  if (rule.activeUntil !== undefined && time >= Date.parse(rule.activeUntil)) {
+    return false;
+  }
+
+  if (rule.activeWindows && rule.activeWindows.length > 0) {
+    const { hourUTC, dayOfWeek } = getTimeContext(now);
+    return rule.activeWindows.some((window) => isInWindow(window, hourUTC, dayOfWeek));
+  }
+
+  return true;
+}
+
+/**
+ * Check whether a UTC hour and weekday fall inside a window
+ *
+ * Hour ranges wrap past midnight when startHour > endHour (e.g. 22-6).
+ */
+function isInWindow(window: ActiveWindow, hourUTC: number, dayOfWeek: number): boolean {
+  if (window.days && !window.days.includes(dayOfWeek)) {
+    return false;
+  }
+
+  const start = window.startHour ?? 0;
+  const end = window.endHour ?? 24;
+
+  return start <= end
+    ? hourUTC >= start && hourUTC < end
+    : hourUTC >= start || hourUTC < end;
+}
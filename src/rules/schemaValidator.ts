@@ -24,24 +24,45 @@
  * provides a migration framework for future schema versions.
  *
  * Features:
- * - JSON syntax validation with error position extraction
+ * - JSON or YAML input, with syntax error position extraction
  * - Required field validation with helpful warnings
  * - Rule structure validation (type, action, priority checks)
- * - AI question ID uniqueness validation
+ * - AI question ID uniqueness and provider/model override validation
  * - Versioned schema support with migration framework
  * - Graceful error handling with fallback to defaults
+ * - JSON Schema of the rules format for editor autocompletion
  *
  * @module rules/schemaValidator
  */
 
 import { Context } from '@devvit/public-api';
-import { RuleSet, ValidationResult, ModerationAction } from '../types/rules.js';
+import {
+  RuleSet,
+  ValidationResult,
+  ModerationAction,
+  EvaluationMode,
+  ConditionOperator,
+  LogicalOperator,
+  NormalizeMode,
+  FieldTypeInfo,
+  ACTION_SEVERITY,
+  AVAILABLE_FIELDS,
+  LIST_REFERENCE_PREFIX,
+} from '../types/rules.js';
 import {
   FRIENDSOVER40_RULES,
   FRIENDSOVER50_RULES,
   BITCOINTAXES_RULES,
 } from './defaults.js';
-import { randomUUID } from 'crypto';
+import { RuleHistory } from './history.js';
+import { loadRulesFromWiki } from './wikiSource.js';
+import { describeFallback, LastKnownGoodRules } from './lastKnownGood.js';
+import { sendRulesValidationAlert } from '../notifications/rulesAlert.js';
+import { AIProviderType } from '../types/ai.js';
+import { isKnownModel, MODEL_PRICING } from '../config/ai.js';
+import { findRegexHazard, MAX_REGEX_PATTERN_LENGTH } from './regexSafety.js';
+import { createHash } from 'crypto';
+import YAML from 'yaml';
 
 /**
  * Rule Schema Validator
@@ -62,15 +83,145 @@ export class RuleSchemaValidator {
     'FLAG',
     'REMOVE',
     'COMMENT',
+    'BAN',
+    'MUTE',
+    'LOCK',
+    'SPAM',
+    'SET_FLAIR',
+    'TAG',
+  ];
+
+  /** Valid ruleset evaluation modes */
+  private static readonly VALID_EVALUATION_MODES: EvaluationMode[] = [
+    'first_match',
+    'most_severe',
+    'collect_all',
+    'score',
+  ];
+
+  /** Valid AI providers for per-question provider overrides */
+  private static readonly VALID_AI_PROVIDERS: AIProviderType[] = ['claude', 'openai', 'openai-compatible'];
+
+  /** Valid logical operators for nested conditions */
+  private static readonly VALID_LOGICAL_OPERATORS: LogicalOperator[] = ['AND', 'OR', 'NOT'];
+
+  /** Valid leaf condition operators */
+  private static readonly VALID_OPERATORS: ConditionOperator[] = [
+    '<',
+    '>',
+    '<=',
+    '>=',
+    '==',
+    '!=',
+    'contains',
+    'not_contains',
+    'contains_i',
+    'not_contains_i',
+    'starts_with',
+    'ends_with',
+    'starts_with_i',
+    'ends_with_i',
+    'contains_word',
+    'contains_any',
+    'contains_all',
+    'in',
+    'not_in',
+    'intersects',
+    'subset_of',
+    'length_eq',
+    'length_lt',
+    'length_lte',
+    'length_gt',
+    'length_gte',
+    'between',
+    'regex',
+    'regex_i',
+    'exists',
+    'not_exists',
+    'is_empty',
+  ];
+
+  /** Operators that only inspect the field and take no 'value' */
+  private static readonly VALUELESS_OPERATORS: ConditionOperator[] = ['exists', 'not_exists', 'is_empty'];
+
+  /** Operators whose 'value' must be a non-empty array */
+  private static readonly LIST_OPERATORS: ConditionOperator[] = [
+    'in',
+    'not_in',
+    'contains_any',
+    'contains_all',
+    'intersects',
+    'subset_of',
+  ];
+
+  /** Operators whose 'value' must be a non-empty string */
+  private static readonly TEXT_VALUE_OPERATORS: ConditionOperator[] = [
+    'starts_with',
+    'ends_with',
+    'starts_with_i',
+    'ends_with_i',
+    'contains_word',
   ];
 
+  /** Operators whose 'value' must be a non-negative number */
+  private static readonly LENGTH_OPERATORS: ConditionOperator[] = [
+    'length_eq',
+    'length_lt',
+    'length_lte',
+    'length_gt',
+    'length_gte',
+  ];
+
+  /** Field types each operator applies to (operators not listed apply to any type) */
+  private static readonly OPERATOR_FIELD_TYPES: Partial<Record<ConditionOperator, FieldTypeInfo['type'][]>> = {
+    '<': ['number'],
+    '>': ['number'],
+    '<=': ['number'],
+    '>=': ['number'],
+    between: ['number'],
+    contains_i: ['string'],
+    not_contains_i: ['string'],
+    starts_with: ['string'],
+    ends_with: ['string'],
+    starts_with_i: ['string'],
+    ends_with_i: ['string'],
+    regex: ['string'],
+    regex_i: ['string'],
+    contains_word: ['string', 'array'],
+    contains_any: ['string', 'array'],
+    contains_all: ['string', 'array'],
+    intersects: ['array'],
+    subset_of: ['array'],
+    length_eq: ['string', 'array'],
+    length_lt: ['string', 'array'],
+    length_lte: ['string', 'array'],
+    length_gt: ['string', 'array'],
+    length_gte: ['string', 'array'],
+  };
+
+  /** Allowed values of a condition's 'normalize' */
+  private static readonly NORMALIZE_MODES: NormalizeMode[] = [true, false, 'leetspeak'];
+
+  /** Allowed characters in named list names */
+  private static readonly LIST_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+  /** Allowed characters in tag names (tags are read as 'tags.<name>') */
+  private static readonly TAG_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+  /** Default number of days a strike counts for */
+  private static readonly DEFAULT_STRIKE_EXPIRE_DAYS = 30;
+
+  /** Maximum temporary ban length in days (Reddit limit) */
+  private static readonly MAX_BAN_DURATION = 999;
+
   /**
    * Validate and migrate rule JSON from settings
    *
-   * Main entry point for rule validation. Parses JSON, validates schema,
-   * and migrates to current version if needed.
+   * Main entry point for rule validation. Parses JSON (or YAML), validates
+   * schema, and migrates to current version if needed. Input starting with
+   * '{' or '[' is parsed as JSON, anything else as YAML.
    *
-   * @param json - Raw JSON string from settings
+   * @param json - Raw rules text from settings or a wiki page (JSON or YAML)
    * @returns ValidationResult with typed RuleSet or error
    *
    * @example
@@ -85,15 +236,16 @@ export class RuleSchemaValidator {
    */
   static async validateAndMigrate(json: string): Promise<ValidationResult<RuleSet>> {
     try {
-      // Step 1: Parse JSON with error position extraction
+      // Step 1: Parse JSON (or YAML) with error position extraction
+      const isJson = /^\s*[{[]/.test(json);
       let data: any;
       try {
-        data = JSON.parse(json);
+        data = isJson ? JSON.parse(json) : YAML.parse(json);
       } catch (error) {
         return {
           success: false,
-          error: this.formatValidationError(error),
-          details: 'JSON parsing failed',
+          error: this.formatValidationError(error, json),
+          details: isJson ? 'JSON parsing failed' : 'YAML parsing failed',
         };
       }
 
@@ -112,6 +264,7 @@ export class RuleSchemaValidator {
         success: true,
         data: migratedData,
         warnings: validationResult.warnings,
+        errors: validationResult.errors,
       };
     } catch (error) {
       return {
@@ -122,6 +275,258 @@ export class RuleSchemaValidator {
     }
   }
 
+  /**
+   * Build a JSON Schema (draft-07) of the rules format
+   *
+   * Generated from the validator's own action/operator lists and
+   * AVAILABLE_FIELDS, so editors get autocompletion for every accepted value.
+   * The schema only describes the input format; the validator remains the
+   * authority (e.g. for operator/field type compatibility). Published as
+   * docs/rules.schema.json.
+   *
+   * @returns JSON Schema object
+   */
+  static getJsonSchema(): Record<string, unknown> {
+    const actionEnum = { type: 'string', enum: this.VALID_ACTIONS };
+    const stepActionEnum = { type: 'string', enum: this.VALID_ACTIONS.filter((action) => action !== 'TAG') };
+    const listReference = {
+      type: 'string',
+      pattern: `^${LIST_REFERENCE_PREFIX}[A-Za-z0-9_-]+$`,
+      description: 'Reference to a named list of the rule set',
+    };
+    const aiQuestion = {
+      type: 'object',
+      required: ['question'],
+      properties: {
+        id: { type: 'string', description: 'Question ID (generated from the question if omitted)' },
+        question: { type: 'string', description: 'Yes/no question asked about the user and content' },
+        context: { type: 'string', description: 'Additional context for the AI' },
+        provider: {
+          type: 'string',
+          enum: this.VALID_AI_PROVIDERS,
+          description: 'Preferred AI provider for this question (defaults to the primary provider)',
+        },
+        model: {
+          type: 'string',
+          minLength: 1,
+          description: "Preferred model of 'provider' (defaults to the provider's model)",
+        },
+      },
+    };
+
+    return {
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      title: 'AI Automod rules',
+      description: 'Layer 3 custom rules (rulesJson setting or rules wiki page, as JSON or YAML)',
+      type: 'object',
+      required: ['rules'],
+      properties: {
+        $schema: { type: 'string' },
+        version: { type: 'string', enum: [this.CURRENT_VERSION] },
+        evaluationMode: {
+          type: 'string',
+          enum: this.VALID_EVALUATION_MODES,
+          description: 'How matching rules are combined (default first_match)',
+        },
+        thresholds: {
+          type: 'array',
+          description: "Score thresholds for evaluationMode 'score' (the highest threshold reached applies)",
+          items: { $ref: '#/definitions/threshold' },
+        },
+        lists: {
+          type: 'object',
+          description: 'Named lists referenced from condition values as "@list:<name>"',
+          propertyNames: { pattern: this.LIST_NAME_PATTERN.source },
+          additionalProperties: { type: 'array', items: { type: 'string' } },
+        },
+        rules: { type: 'array', items: { $ref: '#/definitions/rule' } },
+      },
+      definitions: {
+        rule: {
+          type: 'object',
+          required: ['conditions'],
+          anyOf: [
+            { required: ['action'] },
+            { required: ['actions'] },
+            { required: ['escalation'] },
+            { required: ['points'] },
+          ],
+          properties: {
+            id: { type: 'string', description: 'Fixed rule ID (needed for escalation and statistics)' },
+            name: { type: 'string' },
+            type: { type: 'string', enum: this.VALID_TYPES },
+            enabled: { type: 'boolean', default: true },
+            mode: { type: 'string', enum: ['live', 'shadow'], default: 'live' },
+            priority: { type: 'number', description: 'Higher runs first (defaults to array order)' },
+            contentType: { type: 'string', enum: ['post', 'comment', 'all', 'submission', 'any'], default: 'all' },
+            activeFrom: { type: 'string', description: 'ISO 8601 date/time the rule starts applying (inclusive)' },
+            activeUntil: { type: 'string', description: 'ISO 8601 date/time the rule stops applying (exclusive)' },
+            activeWindows: { type: 'array', items: { $ref: '#/definitions/activeWindow' } },
+            conditions: { $ref: '#/definitions/condition' },
+            action: actionEnum,
+            actions: { type: 'array', minItems: 1, items: { $ref: '#/definitions/actionStep' } },
+            actionConfig: { $ref: '#/definitions/actionConfig' },
+            escalation: { $ref: '#/definitions/escalation' },
+            points: { type: 'number', description: "Points added to the score when the rule matches (evaluationMode 'score')" },
+            ai: aiQuestion,
+            aiQuestion,
+          },
+        },
+        condition: {
+          anyOf: [{ $ref: '#/definitions/leafCondition' }, { $ref: '#/definitions/conditionGroup' }],
+        },
+        leafCondition: {
+          type: 'object',
+          required: ['field', 'operator'],
+          properties: {
+            field: { $ref: '#/definitions/field' },
+            operator: { type: 'string', enum: this.VALID_OPERATORS },
+            value: { description: 'Expected value (omit for exists/not_exists/is_empty)' },
+            normalize: {
+              enum: this.NORMALIZE_MODES,
+              description: 'Fold look-alike text before comparing (true), also reading leetspeak ("leetspeak")',
+            },
+          },
+          allOf: [
+            {
+              if: { properties: { operator: { enum: this.LIST_OPERATORS } } },
+              then: {
+                properties: {
+                  value: { anyOf: [{ type: 'array', minItems: 1 }, listReference] },
+                },
+              },
+            },
+            {
+              if: { properties: { operator: { enum: this.TEXT_VALUE_OPERATORS } } },
+              then: { properties: { value: { type: 'string', minLength: 1 } } },
+            },
+            {
+              if: { properties: { operator: { enum: ['regex', 'regex_i'] } } },
+              then: { properties: { value: { type: 'string', maxLength: MAX_REGEX_PATTERN_LENGTH } } },
+            },
+            {
+              if: { properties: { operator: { enum: this.LENGTH_OPERATORS } } },
+              then: { properties: { value: { type: 'number', minimum: 0 } } },
+            },
+            {
+              if: { properties: { operator: { const: 'between' } } },
+              then: {
+                properties: { value: { type: 'array', items: { type: 'number' }, minItems: 2, maxItems: 2 } },
+              },
+            },
+          ],
+        },
+        conditionGroup: {
+          type: 'object',
+          required: ['logicalOperator', 'rules'],
+          properties: {
+            logicalOperator: { type: 'string', enum: this.VALID_LOGICAL_OPERATORS },
+            rules: { type: 'array', minItems: 1, items: { $ref: '#/definitions/condition' } },
+          },
+        },
+        field: {
+          anyOf: [
+            ...Object.values(AVAILABLE_FIELDS).map((field) => ({
+              const: field.path,
+              description: `${field.type}: ${field.description}`,
+            })),
+            {
+              type: 'string',
+              pattern: '^ai\\.',
+              description: 'AI answer fields (ai.answer, ai.confidence, ai.<questionId>.answer, ...)',
+            },
+            {
+              type: 'string',
+              pattern: `^tags\\.${this.TAG_NAME_PATTERN.source.slice(1)}`,
+              description: 'boolean: Whether a TAG rule attached the tag (tags.<name>)',
+            },
+          ],
+        },
+        activeWindow: {
+          type: 'object',
+          properties: {
+            days: { type: 'array', items: { type: 'integer', minimum: 0, maximum: 6 } },
+            startHour: { type: 'integer', minimum: 0, maximum: 23 },
+            endHour: { type: 'integer', minimum: 1, maximum: 24 },
+          },
+        },
+        actionStep: {
+          type: 'object',
+          required: ['action'],
+          properties: {
+            action: stepActionEnum,
+            actionConfig: { $ref: '#/definitions/actionConfig' },
+          },
+        },
+        actionConfig: {
+          type: 'object',
+          properties: {
+            reason: { type: 'string', description: 'User-facing reason (supports {variables})' },
+            modlog: { type: ['string', 'null'] },
+            variables: { type: 'object', additionalProperties: { type: 'string' } },
+            ban: {
+              type: 'object',
+              properties: {
+                duration: {
+                  type: 'number',
+                  exclusiveMinimum: 0,
+                  maximum: this.MAX_BAN_DURATION,
+                  description: 'Days (fractions round up; omitted = permanent)',
+                },
+                permanent: { type: 'boolean', description: "Permanent ban (can't be combined with duration)" },
+                message: { type: 'string' },
+              },
+            },
+            flair: {
+              type: 'object',
+              properties: {
+                target: { type: 'string', enum: ['post', 'user'] },
+                text: { type: 'string' },
+                templateId: { type: 'string' },
+                cssClass: { type: 'string' },
+              },
+            },
+            tags: {
+              type: 'array',
+              minItems: 1,
+              items: { type: 'string', pattern: this.TAG_NAME_PATTERN.source },
+              description: 'Tags attached by the TAG action',
+            },
+          },
+        },
+        threshold: {
+          type: 'object',
+          required: ['score', 'action'],
+          properties: {
+            score: { type: 'number', description: 'Minimum total score (inclusive)' },
+            action: stepActionEnum,
+            actionConfig: { $ref: '#/definitions/actionConfig' },
+          },
+        },
+        escalation: {
+          type: 'object',
+          required: ['steps'],
+          properties: {
+            steps: {
+              type: 'array',
+              minItems: 1,
+              items: {
+                type: 'object',
+                anyOf: [{ required: ['action'] }, { required: ['actions'] }],
+                properties: {
+                  action: stepActionEnum,
+                  actions: { type: 'array', minItems: 1, items: { $ref: '#/definitions/actionStep' } },
+                  actionConfig: { $ref: '#/definitions/actionConfig' },
+                },
+              },
+            },
+            expireDays: { type: 'number', exclusiveMinimum: 0, default: this.DEFAULT_STRIKE_EXPIRE_DAYS },
+          },
+        },
+      },
+    };
+  }
+
   /**
    * Migrate old schema versions to current version
    *
@@ -175,6 +580,23 @@ export class RuleSchemaValidator {
     return (rule.aiQuestion || rule.ai) ? 'AI' : 'HARD';
   }
 
+  /**
+   * Generate a rule ID from its name and position
+   *
+   * The same rules always get the same ID, so per-rule statistics are counted
+   * under one Redis key however often the rules are loaded.
+   *
+   * @param name - Rule name as written (may be missing)
+   * @param index - Position in the rules array
+   * @returns ID such as 'rule-1a2b3c4d5e6f'
+   */
+  private static generateRuleId(name: unknown, index: number): string {
+    const hash = createHash('sha256')
+      .update(`${typeof name === 'string' ? name : ''}:${index}`)
+      .digest('hex');
+    return `rule-${hash.substring(0, 12)}`;
+  }
+
   /**
    * Generate a sanitized ID from a question string
    *
@@ -260,6 +682,7 @@ export class RuleSchemaValidator {
    */
   private static validateSchema(data: any): ValidationResult<RuleSet> {
     const warnings: string[] = [];
+    const errors: string[] = [];
 
     // Validate top-level structure
     if (typeof data !== 'object' || data === null) {
@@ -282,6 +705,29 @@ export class RuleSchemaValidator {
       data.updatedAt = Date.now();
     }
 
+    // Evaluation mode defaults to first_match (classic "first match wins")
+    if (data.evaluationMode === undefined) {
+      data.evaluationMode = 'first_match';
+    } else if (!this.VALID_EVALUATION_MODES.includes(data.evaluationMode)) {
+      warnings.push(
+        `Invalid 'evaluationMode' (must be one of ${this.VALID_EVALUATION_MODES.join(', ')}, got '${data.evaluationMode}'), using 'first_match'`
+      );
+      data.evaluationMode = 'first_match';
+    }
+
+    // Score thresholds (score mode only)
+    if (data.evaluationMode === 'score') {
+      this.validateThresholds(data, warnings);
+    } else if (data.thresholds !== undefined) {
+      warnings.push(`'thresholds' only apply to evaluationMode 'score' (ignored)`);
+    }
+
+    // Named lists are optional
+    if (data.lists !== undefined) {
+      this.validateLists(data, warnings);
+    }
+    const lists: Record<string, string[]> = data.lists ?? {};
+
     // Rules array is required
     if (!Array.isArray(data.rules)) {
       return {
@@ -295,10 +741,17 @@ export class RuleSchemaValidator {
 
     for (let i = 0; i < data.rules.length; i++) {
       const rule = data.rules[i];
+      if (typeof rule !== 'object' || rule === null || Array.isArray(rule)) {
+        return {
+          success: false,
+          error: `'rules[${i}]' must be an object`,
+        };
+      }
 
-      // Auto-generate id if missing
+      // Auto-generate id if missing (stable across loads so stats keep one key)
+      const hasFixedId = Boolean(rule.id);
       if (!rule.id) {
-        rule.id = randomUUID();
+        rule.id = this.generateRuleId(rule.name, i);
       }
 
       const rulePrefix = `Rule ${i} (${rule.id})`;
@@ -358,45 +811,82 @@ export class RuleSchemaValidator {
         rule.updatedAt = Date.now();
       }
 
+      // Mode defaults to live; anything unrecognized is treated as shadow (safer than acting)
+      if (rule.mode === undefined) {
+        rule.mode = 'live';
+      } else if (rule.mode !== 'live' && rule.mode !== 'shadow') {
+        warnings.push(`${rulePrefix}: invalid 'mode' (must be 'live' or 'shadow', got '${rule.mode}'), using 'shadow'`);
+        rule.mode = 'shadow';
+      }
+
+      // Schedule (optional): date range and recurring UTC windows
+      if (rule.activeFrom !== undefined || rule.activeUntil !== undefined || rule.activeWindows !== undefined) {
+        this.validateSchedule(rule, rulePrefix, warnings);
+      }
+
       // Subreddit field (optional, for rule-level overrides)
       if (rule.subreddit === undefined) {
         rule.subreddit = null;
       }
 
+      // Points (score mode: matching rules add points, the thresholds pick the action)
+      if (rule.points !== undefined && (typeof rule.points !== 'number' || !Number.isFinite(rule.points))) {
+        warnings.push(`${rulePrefix}: 'points' must be a number (got '${rule.points}'), using 0`);
+        rule.points = 0;
+      }
+      if (data.evaluationMode === 'score') {
+        this.validateScoreRule(rule, rulePrefix, warnings);
+      } else if (rule.points !== undefined) {
+        warnings.push(`${rulePrefix}: 'points' only applies to evaluationMode 'score' (ignored)`);
+      }
+
+      // Multi-action rules: validate steps and derive the primary action
+      if (rule.actions !== undefined) {
+        this.validateActionSteps(rule, rulePrefix, warnings);
+      }
+
+      // Escalation ladder (strikes are stored per rule ID, so it must be fixed)
+      if (rule.escalation !== undefined) {
+        if (!hasFixedId) {
+          warnings.push(
+            `${rulePrefix}: 'escalation' requires a fixed 'id' (strikes are stored per rule ID), escalation ignored`
+          );
+          delete rule.escalation;
+        } else {
+          this.validateEscalation(rule, rulePrefix, warnings);
+        }
+        if (!rule.action && rule.escalation) {
+          rule.action = rule.escalation.steps[0].action;
+        }
+      }
+
       // Validate action (required)
       if (!rule.action) {
-        warnings.push(`${rulePrefix}: missing 'action' field`);
+        this.addStructuralError(`${rulePrefix}: missing 'action' field`, warnings, errors);
       } else if (!this.VALID_ACTIONS.includes(rule.action)) {
-        warnings.push(
-          `${rulePrefix}: invalid 'action' (must be one of ${this.VALID_ACTIONS.join(', ')}, got '${rule.action}')`
+        this.addStructuralError(
+          `${rulePrefix}: invalid 'action' (must be one of ${this.VALID_ACTIONS.join(', ')}, got '${rule.action}')`,
+          warnings,
+          errors
         );
+      } else if (rule.action === 'TAG') {
+        this.validateTagRule(rule, rulePrefix, warnings);
       }
 
       // Conditions check (basic structure)
       if (!rule.conditions) {
-        warnings.push(`${rulePrefix}: missing 'conditions' field`);
+        this.addStructuralError(`${rulePrefix}: missing 'conditions' field`, warnings, errors);
       } else if (typeof rule.conditions !== 'object') {
-        warnings.push(`${rulePrefix}: 'conditions' must be an object`);
+        this.addStructuralError(`${rulePrefix}: 'conditions' must be an object`, warnings, errors);
       } else {
-        // Basic condition structure validation
-        const hasField = 'field' in rule.conditions;
-        const hasOperator = 'operator' in rule.conditions;
-        const hasLogical = 'logicalOperator' in rule.conditions;
-        const hasRules = 'rules' in rule.conditions;
-
-        // Either leaf condition (field + operator) or nested (logicalOperator + rules)
-        if (!hasField && !hasLogical) {
-          warnings.push(
-            `${rulePrefix}: 'conditions' must have either 'field' or 'logicalOperator'`
-          );
-        }
+        this.validateCondition(rule.conditions, 'conditions', lists, rulePrefix, warnings, errors);
 
-        if (hasField && !hasOperator) {
-          warnings.push(`${rulePrefix}: 'conditions' with 'field' must have 'operator'`);
-        }
-
-        if (hasLogical && !hasRules) {
-          warnings.push(`${rulePrefix}: 'conditions' with 'logicalOperator' must have 'rules'`);
+        // A regex that can backtrack catastrophically would hang the trigger handler.
+        // Only this rule is disabled; the rest of the rule set still loads.
+        const unsafeRegex = this.findUnsafeRegex(rule.conditions, 'conditions');
+        if (unsafeRegex) {
+          warnings.push(`${rulePrefix}: ${unsafeRegex} (catastrophic backtracking), rule disabled`);
+          rule.enabled = false;
         }
       }
 
@@ -421,6 +911,8 @@ export class RuleSchemaValidator {
           if (!rule.ai.question) {
             warnings.push(`${rulePrefix}: AI rule missing 'ai.question'`);
           }
+
+          this.validateAIRoute(rule.ai, rulePrefix, warnings);
         }
       }
 
@@ -430,14 +922,748 @@ export class RuleSchemaValidator {
       } else if (!rule.actionConfig.reason) {
         rule.actionConfig.reason = 'Rule matched';
       }
+
+      // BAN/SET_FLAIR options (rule-level and per-step)
+      this.validateActionOptions(rule, rule.actionConfig, `${rulePrefix}: actionConfig`, warnings);
+      rule.actions?.forEach((step: any, index: number) => {
+        if (step.actionConfig) {
+          this.validateActionOptions(rule, step.actionConfig, `${rulePrefix}: actions[${index}].actionConfig`, warnings);
+        }
+      });
+      rule.escalation?.steps.forEach((step: any, index: number) => {
+        const stepPrefix = `${rulePrefix}: escalation.steps[${index}]`;
+        if (step.actionConfig) {
+          this.validateActionOptions(rule, step.actionConfig, `${stepPrefix}.actionConfig`, warnings);
+        }
+        step.actions?.forEach((subStep: any, subIndex: number) => {
+          if (subStep.actionConfig) {
+            this.validateActionOptions(rule, subStep.actionConfig, `${stepPrefix}.actions[${subIndex}].actionConfig`, warnings);
+          }
+        });
+      });
+
+      const executedSteps: any[] = [
+        ...(rule.actions ?? [{ action: rule.action }]),
+        ...(rule.escalation?.steps.flatMap((step: any) =>
+          (step.actions ?? [step]).map((subStep: any) => ({
+            action: subStep.action,
+            actionConfig: { ...step.actionConfig, ...subStep.actionConfig },
+          }))
+        ) ?? []),
+      ];
+      for (const step of executedSteps) {
+        if (step.action === 'SET_FLAIR' && !(step.actionConfig?.flair ?? rule.actionConfig.flair)) {
+          warnings.push(`${rulePrefix}: SET_FLAIR requires 'actionConfig.flair' with 'text' or 'templateId'`);
+        }
+      }
     }
 
-    // If we have warnings but no critical errors, still succeed
+    this.validateTagReferences(data.rules, warnings);
+
+    // Structural errors only reject a save; loading still succeeds with warnings
     return {
       success: true,
       data: data as RuleSet,
       warnings: warnings.length > 0 ? warnings : undefined,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  /**
+   * Record a structural problem: a warning at load time, an error on save
+   *
+   * @param message - Problem with its rule and condition path
+   * @param warnings - Warning accumulator
+   * @param errors - Structural error accumulator
+   */
+  private static addStructuralError(message: string, warnings: string[], errors: string[]): void {
+    warnings.push(message);
+    errors.push(message);
+  }
+
+  /**
+   * Validate a condition tree (recursively for nested conditions)
+   *
+   * @param condition - Condition node
+   * @param path - Location of the node for warnings (e.g. "conditions.rules[1]")
+   * @param lists - Validated named lists of the rule set
+   * @param rulePrefix - Prefix for warning messages
+   * @param warnings - Warning accumulator
+   * @param errors - Structural error accumulator
+   */
+  private static validateCondition(
+    condition: any,
+    path: string,
+    lists: Record<string, string[]>,
+    rulePrefix: string,
+    warnings: string[],
+    errors: string[]
+  ): void {
+    if (typeof condition !== 'object' || condition === null) {
+      this.addStructuralError(`${rulePrefix}: '${path}' must be an object`, warnings, errors);
+      return;
+    }
+
+    const hasField = 'field' in condition;
+    const hasOperator = 'operator' in condition;
+    const hasLogical = 'logicalOperator' in condition;
+    const hasRules = 'rules' in condition;
+
+    // Either leaf condition (field + operator) or nested (logicalOperator + rules)
+    if (!hasField && !hasLogical) {
+      this.addStructuralError(`${rulePrefix}: '${path}' must have either 'field' or 'logicalOperator'`, warnings, errors);
+    }
+
+    if (hasField && !hasOperator) {
+      this.addStructuralError(`${rulePrefix}: '${path}' with 'field' must have 'operator'`, warnings, errors);
+    }
+
+    if (hasOperator && !this.VALID_OPERATORS.includes(condition.operator)) {
+      this.addStructuralError(
+        `${rulePrefix}: '${path}' has invalid 'operator' (must be one of ${this.VALID_OPERATORS.join(', ')}, got '${condition.operator}')`,
+        warnings,
+        errors
+      );
+    } else if (hasOperator) {
+      this.validateOperator(condition, path, lists, rulePrefix, warnings);
+    }
+
+    if (hasLogical && !this.VALID_LOGICAL_OPERATORS.includes(condition.logicalOperator)) {
+      this.addStructuralError(
+        `${rulePrefix}: '${path}' has invalid 'logicalOperator' (must be one of ${this.VALID_LOGICAL_OPERATORS.join(', ')}, got '${condition.logicalOperator}')`,
+        warnings,
+        errors
+      );
+    }
+
+    if (hasLogical && !hasRules) {
+      this.addStructuralError(`${rulePrefix}: '${path}' with 'logicalOperator' must have 'rules'`, warnings, errors);
+    } else if (hasRules) {
+      if (!Array.isArray(condition.rules) || condition.rules.length === 0) {
+        this.addStructuralError(`${rulePrefix}: '${path}.rules' must be a non-empty array`, warnings, errors);
+      } else {
+        condition.rules.forEach((child: any, index: number) =>
+          this.validateCondition(child, `${path}.rules[${index}]`, lists, rulePrefix, warnings, errors)
+        );
+      }
+    }
+  }
+
+  /**
+   * Find the first regex condition whose pattern can backtrack catastrophically
+   *
+   * @param condition - Condition node
+   * @param path - Location of the node (e.g. "conditions.rules[1]")
+   * @returns Description of the unsafe pattern, or null if every regex is safe
+   */
+  private static findUnsafeRegex(condition: any, path: string): string | null {
+    if (typeof condition !== 'object' || condition === null) {
+      return null;
+    }
+
+    const { operator, value } = condition;
+    if (
+      (operator === 'regex' || operator === 'regex_i') &&
+      typeof value === 'string' &&
+      value.length <= MAX_REGEX_PATTERN_LENGTH
+    ) {
+      const hazard = findRegexHazard(value, operator === 'regex_i' ? 'i' : '');
+      if (hazard) {
+        return `'${path}' regex '${value}' is unsafe: ${hazard}`;
+      }
+    }
+
+    if (Array.isArray(condition.rules)) {
+      for (let index = 0; index < condition.rules.length; index++) {
+        const found = this.findUnsafeRegex(condition.rules[index], `${path}.rules[${index}]`);
+        if (found) {
+          return found;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Check a leaf condition's value shape and field type against its operator
+   *
+   * Field types come from AVAILABLE_FIELDS; fields not listed there (e.g. ai.*)
+   * are not type-checked.
+   *
+   * @param condition - Leaf condition with a valid operator
+   * @param path - Location of the node for warnings
+   * @param lists - Validated named lists of the rule set
+   * @param rulePrefix - Prefix for warning messages
+   * @param warnings - Warning accumulator
+   */
+  private static validateOperator(
+    condition: any,
+    path: string,
+    lists: Record<string, string[]>,
+    rulePrefix: string,
+    warnings: string[]
+  ): void {
+    const { operator, value } = condition;
+    const prefix = `${rulePrefix}: '${path}' operator '${operator}'`;
+
+    if (typeof value === 'string' && value.startsWith(LIST_REFERENCE_PREFIX)) {
+      const name = value.slice(LIST_REFERENCE_PREFIX.length);
+      if (!this.LIST_OPERATORS.includes(operator)) {
+        warnings.push(
+          `${prefix} can't use list '${name}' (lists work with ${this.LIST_OPERATORS.join(', ')})`
+        );
+      } else if (!Object.prototype.hasOwnProperty.call(lists, name)) {
+        warnings.push(`${prefix} references unknown list '${name}' (condition will never match)`);
+      }
+    } else if (this.VALUELESS_OPERATORS.includes(operator)) {
+      if (value !== undefined) {
+        warnings.push(`${prefix} takes no 'value' (ignored)`);
+      }
+    } else if (this.LIST_OPERATORS.includes(operator)) {
+      if (!Array.isArray(value) || value.length === 0) {
+        warnings.push(`${prefix} requires a non-empty array 'value'`);
+      }
+    } else if (this.TEXT_VALUE_OPERATORS.includes(operator)) {
+      if (typeof value !== 'string' || value.length === 0) {
+        warnings.push(`${prefix} requires a non-empty string 'value'`);
+      }
+    } else if (this.LENGTH_OPERATORS.includes(operator)) {
+      if (typeof value !== 'number' || value < 0) {
+        warnings.push(`${prefix} requires a non-negative number 'value'`);
+      }
+    } else if ((operator === 'regex' || operator === 'regex_i') && typeof value === 'string') {
+      if (value.length > MAX_REGEX_PATTERN_LENGTH) {
+        warnings.push(`${prefix} pattern is longer than ${MAX_REGEX_PATTERN_LENGTH} characters (condition will never match)`);
+      } else {
+        try {
+          new RegExp(value, operator === 'regex_i' ? 'i' : '');
+        } catch (error) {
+          warnings.push(
+            `${prefix} has an invalid pattern: ${error instanceof Error ? error.message : String(error)} (condition will never match)`
+          );
+        }
+      }
+    } else if (operator === 'between') {
+      const isRange =
+        Array.isArray(value) &&
+        value.length === 2 &&
+        typeof value[0] === 'number' &&
+        typeof value[1] === 'number' &&
+        value[0] <= value[1];
+      if (!isRange) {
+        warnings.push(`${prefix} requires 'value' as [min, max] numbers with min <= max`);
+      }
+    }
+
+    const isTagField = typeof condition.field === 'string' && condition.field.startsWith('tags.');
+    if (isTagField && !this.TAG_NAME_PATTERN.test(condition.field.slice('tags.'.length))) {
+      warnings.push(`${rulePrefix}: '${path}' has invalid tag field '${condition.field}' (tag names use letters, digits, '-' and '_')`);
+    }
+
+    const fieldType = isTagField
+      ? 'boolean'
+      : typeof condition.field === 'string'
+        ? AVAILABLE_FIELDS[condition.field]?.type
+        : undefined;
+    const allowedTypes = this.OPERATOR_FIELD_TYPES[operator as ConditionOperator];
+    if (fieldType && allowedTypes && !allowedTypes.includes(fieldType)) {
+      warnings.push(
+        `${prefix} does not apply to ${fieldType} field '${condition.field}' (expects ${allowedTypes.join(' or ')})`
+      );
+    }
+
+    if (condition.normalize !== undefined) {
+      if (!this.NORMALIZE_MODES.includes(condition.normalize)) {
+        warnings.push(
+          `${rulePrefix}: '${path}' has invalid 'normalize' (must be true, false or 'leetspeak', got '${condition.normalize}'), ignored`
+        );
+        delete condition.normalize;
+      } else if (condition.normalize && fieldType && fieldType !== 'string' && fieldType !== 'array') {
+        warnings.push(`${rulePrefix}: '${path}' 'normalize' has no effect on ${fieldType} field '${condition.field}'`);
+      }
+    }
+  }
+
+  /**
+   * Validate a rule's schedule fields
+   *
+   * An unreadable schedule disables the rule rather than letting it run at
+   * all times (e.g. a weekend-only removal rule running all week). Invalid
+   * windows are dropped; if none are left the rule is disabled.
+   *
+   * @param rule - Rule object being validated (mutated in place)
+   * @param rulePrefix - Prefix for warning messages
+   * @param warnings - Warning accumulator
+   */
+  private static validateSchedule(rule: any, rulePrefix: string, warnings: string[]): void {
+    for (const key of ['activeFrom', 'activeUntil']) {
+      if (rule[key] !== undefined && (typeof rule[key] !== 'string' || isNaN(Date.parse(rule[key])))) {
+        warnings.push(`${rulePrefix}: '${key}' must be an ISO 8601 date (got '${rule[key]}'), rule disabled`);
+        rule.enabled = false;
+      }
+    }
+
+    if (
+      rule.enabled &&
+      rule.activeFrom &&
+      rule.activeUntil &&
+      Date.parse(rule.activeFrom) >= Date.parse(rule.activeUntil)
+    ) {
+      warnings.push(`${rulePrefix}: 'activeFrom' is not before 'activeUntil', rule will never be active`);
+    }
+
+    if (rule.activeWindows === undefined) {
+      return;
+    }
+
+    if (!Array.isArray(rule.activeWindows) || rule.activeWindows.length === 0) {
+      warnings.push(`${rulePrefix}: 'activeWindows' must be a non-empty array, rule disabled`);
+      rule.enabled = false;
+      delete rule.activeWindows;
+      return;
+    }
+
+    const isIntInRange = (value: any, min: number, max: number) =>
+      value === undefined || (Number.isInteger(value) && value >= min && value <= max);
+
+    rule.activeWindows = rule.activeWindows.filter((window: any, index: number) => {
+      const valid =
+        typeof window === 'object' &&
+        window !== null &&
+        (window.days === undefined ||
+          (Array.isArray(window.days) && window.days.every((day: any) => isIntInRange(day, 0, 6)))) &&
+        isIntInRange(window.startHour, 0, 23) &&
+        isIntInRange(window.endHour, 1, 24);
+
+      if (!valid) {
+        warnings.push(
+          `${rulePrefix}: activeWindows[${index}] is invalid (days 0-6, startHour 0-23, endHour 1-24), ignoring`
+        );
+      }
+      return valid;
+    });
+
+    if (rule.activeWindows.length === 0) {
+      warnings.push(`${rulePrefix}: no valid 'activeWindows' left, rule disabled`);
+      rule.enabled = false;
+      delete rule.activeWindows;
+    }
+  }
+
+  /**
+   * Validate the rule set's named lists
+   *
+   * Lists must be arrays of strings under names made of letters, digits, '_'
+   * and '-'. Invalid lists are dropped and non-string items are removed, with
+   * a warning for each.
+   *
+   * @param data - Rule set being validated (lists mutated in place)
+   * @param warnings - Warning accumulator
+   */
+  private static validateLists(data: any, warnings: string[]): void {
+    if (typeof data.lists !== 'object' || data.lists === null || Array.isArray(data.lists)) {
+      warnings.push(`'lists' must be an object of named arrays, ignoring`);
+      delete data.lists;
+      return;
+    }
+
+    for (const [name, items] of Object.entries<any>(data.lists)) {
+      if (!this.LIST_NAME_PATTERN.test(name)) {
+        warnings.push(`List '${name}': name may only contain letters, digits, '_' and '-', ignoring`);
+        delete data.lists[name];
+      } else if (!Array.isArray(items)) {
+        warnings.push(`List '${name}': must be an array, ignoring`);
+        delete data.lists[name];
+      } else if (items.some((item) => typeof item !== 'string')) {
+        warnings.push(`List '${name}': non-string items removed`);
+        data.lists[name] = items.filter((item) => typeof item === 'string');
+      }
+    }
+  }
+
+  /**
+   * Validate the 'actions' list of a multi-action rule
+   *
+   * Each step must be an object with a valid 'action'. Invalid steps are
+   * dropped with a warning. The rule's primary 'action' is set to the most
+   * severe step so audit logging and trust tracking keep working.
+   *
+   * @param rule - Rule object being validated (mutated in place)
+   * @param rulePrefix - Prefix for warning messages
+   * @param warnings - Warning accumulator
+   */
+  private static validateActionSteps(rule: any, rulePrefix: string, warnings: string[]): void {
+    if (!Array.isArray(rule.actions)) {
+      warnings.push(`${rulePrefix}: 'actions' must be an array`);
+      delete rule.actions;
+      return;
+    }
+
+    const validSteps = rule.actions.filter((step: any, index: number) => {
+      if (typeof step !== 'object' || step === null) {
+        warnings.push(`${rulePrefix}: actions[${index}] must be an object`);
+        return false;
+      }
+      if (!this.VALID_ACTIONS.includes(step.action)) {
+        warnings.push(
+          `${rulePrefix}: actions[${index}] has invalid 'action' (must be one of ${this.VALID_ACTIONS.join(', ')}, got '${step.action}')`
+        );
+        return false;
+      }
+      if (step.action === 'TAG') {
+        warnings.push(`${rulePrefix}: actions[${index}] can't be TAG (TAG is a rule's only action), step dropped`);
+        return false;
+      }
+      if (step.actionConfig !== undefined && (typeof step.actionConfig !== 'object' || step.actionConfig === null)) {
+        warnings.push(`${rulePrefix}: actions[${index}].actionConfig must be an object`);
+        delete step.actionConfig;
+      }
+      return true;
+    });
+
+    if (validSteps.length === 0) {
+      warnings.push(`${rulePrefix}: 'actions' has no valid steps`);
+      delete rule.actions;
+      return;
+    }
+
+    rule.actions = validSteps;
+
+    // Primary action = most severe step
+    const primary = validSteps.reduce((most: any, step: any) =>
+      ACTION_SEVERITY[step.action as ModerationAction] > ACTION_SEVERITY[most.action as ModerationAction]
+        ? step
+        : most
+    ).action;
+
+    if (rule.action && rule.action !== primary) {
+      warnings.push(
+        `${rulePrefix}: 'action' (${rule.action}) is ignored when 'actions' is set, using most severe step '${primary}'`
+      );
+    }
+    rule.action = primary;
+  }
+
+  /**
+   * Validate a rule's escalation ladder
+   *
+   * Each step is checked like a rule's own action fields (single 'action' or
+   * 'actions' list). Invalid steps are dropped; without any valid step the
+   * escalation is removed and the rule's own action applies.
+   *
+   * @param rule - Rule object being validated (mutated in place)
+   * @param rulePrefix - Prefix for warning messages
+   * @param warnings - Warning accumulator
+   */
+  private static validateEscalation(rule: any, rulePrefix: string, warnings: string[]): void {
+    const escalation = rule.escalation;
+    if (typeof escalation !== 'object' || escalation === null || !Array.isArray(escalation.steps)) {
+      warnings.push(`${rulePrefix}: 'escalation' must be an object with a 'steps' array, escalation ignored`);
+      delete rule.escalation;
+      return;
+    }
+
+    if (escalation.expireDays === undefined) {
+      escalation.expireDays = this.DEFAULT_STRIKE_EXPIRE_DAYS;
+    } else if (typeof escalation.expireDays !== 'number' || !(escalation.expireDays > 0)) {
+      warnings.push(
+        `${rulePrefix}: escalation.expireDays must be a positive number of days (got '${escalation.expireDays}'), using ${this.DEFAULT_STRIKE_EXPIRE_DAYS}`
+      );
+      escalation.expireDays = this.DEFAULT_STRIKE_EXPIRE_DAYS;
+    }
+
+    escalation.steps = escalation.steps.filter((step: any, index: number) => {
+      const stepPrefix = `${rulePrefix}: escalation.steps[${index}]`;
+      if (typeof step !== 'object' || step === null) {
+        warnings.push(`${stepPrefix} must be an object`);
+        return false;
+      }
+      if (step.actions !== undefined) {
+        this.validateActionSteps(step, stepPrefix, warnings);
+      }
+      if (!this.VALID_ACTIONS.includes(step.action) || step.action === 'TAG') {
+        warnings.push(
+          `${stepPrefix} has invalid 'action' (must be one of ${this.VALID_ACTIONS.filter((action) => action !== 'TAG').join(', ')}, got '${step.action}')`
+        );
+        return false;
+      }
+      if (step.actionConfig !== undefined && (typeof step.actionConfig !== 'object' || step.actionConfig === null)) {
+        warnings.push(`${stepPrefix}.actionConfig must be an object`);
+        delete step.actionConfig;
+      }
+      return true;
+    });
+
+    if (escalation.steps.length === 0) {
+      warnings.push(`${rulePrefix}: 'escalation' has no valid steps, escalation ignored`);
+      delete rule.escalation;
+    }
+  }
+
+  /**
+   * Validate the score thresholds of a 'score' mode rule set
+   *
+   * Invalid thresholds are dropped. The rest are sorted highest first, so the
+   * engine can take the first one the total score reaches.
+   *
+   * @param data - Rule set being validated (mutated in place)
+   * @param warnings - Warning accumulator
+   */
+  private static validateThresholds(data: any, warnings: string[]): void {
+    if (!Array.isArray(data.thresholds) || data.thresholds.length === 0) {
+      warnings.push(`evaluationMode 'score' needs a non-empty 'thresholds' array (content is always approved)`);
+      data.thresholds = [];
+      return;
+    }
+
+    data.thresholds = data.thresholds.filter((threshold: any, index: number) => {
+      const prefix = `thresholds[${index}]`;
+      if (typeof threshold !== 'object' || threshold === null) {
+        warnings.push(`${prefix} must be an object`);
+        return false;
+      }
+      if (typeof threshold.score !== 'number' || !Number.isFinite(threshold.score)) {
+        warnings.push(`${prefix}.score must be a number (got '${threshold.score}'), threshold dropped`);
+        return false;
+      }
+      if (!this.VALID_ACTIONS.includes(threshold.action) || threshold.action === 'TAG') {
+        warnings.push(
+          `${prefix} has invalid 'action' (must be one of ${this.VALID_ACTIONS.filter((action) => action !== 'TAG').join(', ')}, got '${threshold.action}'), threshold dropped`
+        );
+        return false;
+      }
+      if (threshold.actionConfig !== undefined && (typeof threshold.actionConfig !== 'object' || threshold.actionConfig === null)) {
+        warnings.push(`${prefix}.actionConfig must be an object`);
+        delete threshold.actionConfig;
+      }
+
+      // Same BAN/SET_FLAIR checks as rules; a threshold that would be disabled is dropped
+      const check = { enabled: true };
+      if (threshold.actionConfig) {
+        this.validateActionOptions(check, threshold.actionConfig, `${prefix}.actionConfig`, warnings);
+      }
+      if (!check.enabled) {
+        warnings.push(`${prefix} dropped`);
+        return false;
+      }
+      if (threshold.action === 'SET_FLAIR' && !threshold.actionConfig?.flair) {
+        warnings.push(`${prefix}: SET_FLAIR requires 'actionConfig.flair' with 'text' or 'templateId', threshold dropped`);
+        return false;
+      }
+      return true;
+    });
+
+    data.thresholds.sort((a: any, b: any) => b.score - a.score);
+  }
+
+  /**
+   * Validate a rule of a 'score' mode rule set
+   *
+   * Score rules only add points; the thresholds pick the action. Their own
+   * action fields are ignored (the action is set to APPROVE as a placeholder
+   * that is never taken). TAG rules keep tagging but add no points.
+   *
+   * @param rule - Rule object being validated (mutated in place)
+   * @param rulePrefix - Prefix for warning messages
+   * @param warnings - Warning accumulator
+   */
+  private static validateScoreRule(rule: any, rulePrefix: string, warnings: string[]): void {
+    if (rule.actions !== undefined || rule.escalation !== undefined) {
+      warnings.push(`${rulePrefix}: 'actions' and 'escalation' don't apply in score mode (thresholds pick the action), ignored`);
+      delete rule.actions;
+      delete rule.escalation;
+    }
+
+    if (rule.action === 'TAG') {
+      if (rule.points !== undefined) {
+        warnings.push(`${rulePrefix}: TAG rules add no points ('points' ignored)`);
+        delete rule.points;
+      }
+      return;
+    }
+
+    if (rule.action !== undefined && rule.action !== 'APPROVE') {
+      warnings.push(`${rulePrefix}: 'action' (${rule.action}) is ignored in score mode (thresholds pick the action)`);
+    }
+    rule.action = 'APPROVE';
+
+    if (rule.points === undefined) {
+      warnings.push(`${rulePrefix}: no 'points' (adds nothing to the score)`);
+    }
+  }
+
+  /**
+   * Validate an AI question's preferred provider and model
+   *
+   * An invalid override is dropped with a warning, so the question is asked
+   * with the default providers instead. A model only makes sense together
+   * with the provider it belongs to.
+   *
+   * @param ai - The rule's (normalized) ai block
+   * @param rulePrefix - Prefix for warning messages
+   * @param warnings - Array to add warnings to
+   */
+  private static validateAIRoute(ai: any, rulePrefix: string, warnings: string[]): void {
+    if (ai.provider !== undefined && !this.VALID_AI_PROVIDERS.includes(ai.provider)) {
+      warnings.push(
+        `${rulePrefix}: invalid 'ai.provider' (must be one of ${this.VALID_AI_PROVIDERS.join(', ')}, got '${ai.provider}'), default provider used`
+      );
+      delete ai.provider;
+    }
+
+    if (ai.model !== undefined) {
+      if (typeof ai.model !== 'string' || ai.model.trim() === '') {
+        warnings.push(`${rulePrefix}: 'ai.model' must be a non-empty string (ignored)`);
+        delete ai.model;
+      } else if (ai.provider === undefined) {
+        warnings.push(`${rulePrefix}: 'ai.model' requires 'ai.provider' (ignored)`);
+        delete ai.model;
+      } else if (!isKnownModel(ai.provider, ai.model)) {
+        // Unpriced models would be billed at the default model's price, undercounting the budget
+        const known = Object.keys(MODEL_PRICING[ai.provider as AIProviderType] ?? {});
+        warnings.push(
+          `${rulePrefix}: unknown '${ai.provider}' model '${ai.model}' (must be one of ${known.join(', ')}), default model used`
+        );
+        delete ai.model;
+      }
+    }
+  }
+
+  /**
+   * Validate a TAG rule's tags
+   *
+   * Invalid tag names are dropped; a TAG rule without any valid tag would do
+   * nothing, so it is disabled. Escalation doesn't apply to TAG rules (they
+   * never act on content, so there are no strikes).
+   *
+   * @param rule - Rule object being validated (mutated in place, may be disabled)
+   * @param rulePrefix - Prefix for warning messages
+   * @param warnings - Warning accumulator
+   */
+  private static validateTagRule(rule: any, rulePrefix: string, warnings: string[]): void {
+    if (rule.escalation !== undefined) {
+      warnings.push(`${rulePrefix}: 'escalation' doesn't apply to TAG rules, escalation ignored`);
+      delete rule.escalation;
+    }
+
+    const tags = rule.actionConfig?.tags;
+    if (!Array.isArray(tags)) {
+      warnings.push(`${rulePrefix}: TAG requires 'actionConfig.tags' (a list of tag names), rule disabled`);
+      rule.enabled = false;
+      return;
+    }
+
+    const validTags = tags.filter((tag: any) => {
+      if (typeof tag !== 'string' || !this.TAG_NAME_PATTERN.test(tag)) {
+        warnings.push(`${rulePrefix}: invalid tag '${tag}' (tag names use letters, digits, '-' and '_'), tag dropped`);
+        return false;
+      }
+      return true;
+    });
+
+    if (validTags.length === 0) {
+      warnings.push(`${rulePrefix}: TAG requires at least one valid tag in 'actionConfig.tags', rule disabled`);
+      rule.enabled = false;
+    }
+    rule.actionConfig.tags = validTags;
+  }
+
+  /**
+   * Warn about tag conditions that no TAG rule can satisfy
+   *
+   * @param rules - Validated rules of the rule set
+   * @param warnings - Warning accumulator
+   */
+  private static validateTagReferences(rules: any[], warnings: string[]): void {
+    const attached = new Set<string>(
+      rules
+        .filter((rule) => rule.action === 'TAG' && rule.enabled)
+        .flatMap((rule) => rule.actionConfig?.tags ?? [])
+    );
+
+    const collect = (condition: any, found: Set<string>): Set<string> => {
+      if (typeof condition?.field === 'string' && condition.field.startsWith('tags.')) {
+        found.add(condition.field.slice('tags.'.length));
+      }
+      if (Array.isArray(condition?.rules)) {
+        condition.rules.forEach((child: any) => collect(child, found));
+      }
+      return found;
     };
+
+    rules.forEach((rule, index) => {
+      for (const tag of collect(rule.conditions, new Set())) {
+        if (!attached.has(tag)) {
+          warnings.push(`Rule ${index} (${rule.id}): tag '${tag}' is not attached by any TAG rule (tags.${tag} is always false)`);
+        }
+      }
+    });
+  }
+
+  /**
+   * Validate BAN and SET_FLAIR options of an action config
+   *
+   * A ban duration that can't be read as a number of days disables the rule,
+   * since dropping it would silently turn the ban permanent, as does a
+   * contradicting 'permanent' flag. Durations are rounded up to whole days
+   * (at least 1) and clamped; a duration of 0 is turned into an explicit
+   * 'permanent: true'. Flair options without text or template ID are dropped.
+   *
+   * @param rule - Rule object being validated (may be disabled)
+   * @param config - actionConfig object to validate (mutated in place)
+   * @param prefix - Prefix for warning messages
+   * @param warnings - Warning accumulator
+   */
+  private static validateActionOptions(rule: any, config: any, prefix: string, warnings: string[]): void {
+    if (config.ban !== undefined) {
+      if (typeof config.ban !== 'object' || config.ban === null) {
+        warnings.push(`${prefix}.ban must be an object`);
+        delete config.ban;
+      } else if (config.ban.permanent !== undefined && typeof config.ban.permanent !== 'boolean') {
+        warnings.push(`${prefix}.ban.permanent must be true or false (got '${config.ban.permanent}'), rule disabled`);
+        rule.enabled = false;
+      } else if (config.ban.permanent === true && config.ban.duration !== undefined) {
+        warnings.push(`${prefix}.ban can't have both 'permanent: true' and a 'duration', rule disabled`);
+        rule.enabled = false;
+      } else if (config.ban.permanent === false && config.ban.duration === undefined) {
+        warnings.push(`${prefix}.ban has 'permanent: false' but no 'duration', rule disabled to avoid a permanent ban`);
+        rule.enabled = false;
+      } else if (config.ban.duration !== undefined) {
+        const duration = Number(config.ban.duration);
+        if (config.ban.duration === null || config.ban.duration === '' || !Number.isFinite(duration) || duration < 0) {
+          warnings.push(
+            `${prefix}.ban.duration must be a number of days (got '${config.ban.duration}'), rule disabled to avoid a permanent ban`
+          );
+          rule.enabled = false;
+        } else if (duration === 0) {
+          warnings.push(`${prefix}.ban.duration 0 is read as a permanent ban, use 'permanent: true' instead`);
+          delete config.ban.duration;
+          config.ban.permanent = true;
+        } else {
+          const days = Math.min(Math.max(1, Math.ceil(duration)), this.MAX_BAN_DURATION);
+          if (days !== duration) {
+            warnings.push(`${prefix}.ban.duration adjusted from ${config.ban.duration} to ${days}`);
+          }
+          config.ban.duration = days;
+        }
+      }
+    }
+
+    if (config.flair !== undefined) {
+      if (typeof config.flair !== 'object' || config.flair === null) {
+        warnings.push(`${prefix}.flair must be an object`);
+        delete config.flair;
+        return;
+      }
+      if (config.flair.target !== undefined && config.flair.target !== 'post' && config.flair.target !== 'user') {
+        warnings.push(`${prefix}.flair.target must be 'post' or 'user' (got '${config.flair.target}'), using 'post'`);
+        config.flair.target = 'post';
+      }
+      if (!config.flair.text && !config.flair.templateId) {
+        warnings.push(`${prefix}.flair must have 'text' or 'templateId'`);
+        delete config.flair;
+      }
+    }
   }
 
   /**
@@ -447,13 +1673,18 @@ export class RuleSchemaValidator {
    * to help moderators identify and fix syntax errors.
    *
    * @param error - Error object from JSON.parse or validation
+   * @param source - Parsed text (used to turn a JSON position into line/column)
    * @returns Formatted error message
    */
-  private static formatValidationError(error: any): string {
+  private static formatValidationError(error: any, source?: string): string {
     if (error instanceof SyntaxError) {
       // Try to extract position from error message
       // JSON.parse errors typically include position information
       const positionMatch = error.message.match(/position (\d+)/);
+      if (positionMatch && source !== undefined) {
+        const before = source.slice(0, Number(positionMatch[1])).split('\n');
+        return `JSON syntax error at line ${before.length}, column ${before[before.length - 1].length + 1}: ${error.message}`;
+      }
       if (positionMatch) {
         return `JSON syntax error at position ${positionMatch[1]}: ${error.message}`;
       }
@@ -469,6 +1700,12 @@ export class RuleSchemaValidator {
       return `JSON syntax error: ${error.message}`;
     }
 
+    // YAML errors only get line, column and a source excerpt once made pretty
+    if (error instanceof Error && error.name.startsWith('YAML')) {
+      (error as any).makePretty?.();
+      return `YAML syntax error: ${error.message}`;
+    }
+
     // For other errors, return message or string representation
     return error.message || String(error);
   }
@@ -500,21 +1737,53 @@ function getDefaultRuleSet(subredditName: string): RuleSet {
   }
 }
 
+/**
+ * Validate the rulesJson setting when a moderator saves the settings
+ *
+ * Used by the setting's onValidate: invalid rules are rejected on save
+ * instead of being discovered (and replaced) at runtime. Structural errors
+ * (unknown action, operator or logicalOperator, missing conditions) reject
+ * the save too; other warnings don't block saving.
+ *
+ * @param rulesJson - New value of the rulesJson setting
+ * @returns Error message rejecting the save, or undefined if the rules are valid
+ */
+export async function validateRulesSetting(rulesJson: string): Promise<string | undefined> {
+  if (rulesJson.trim() === '') {
+    return undefined;
+  }
+
+  const result = await RuleSchemaValidator.validateAndMigrate(rulesJson);
+  if (result.success && result.errors) {
+    return `Rules not saved: ${result.errors.join('; ')}`;
+  }
+  if (result.success) {
+    return undefined;
+  }
+
+  return `Rules not saved: ${result.error}${result.details ? ` (${result.details})` : ''}`;
+}
+
 /**
  * Load and validate rules from settings
  *
  * Main helper function for loading rules from Devvit settings. Handles:
  * - Empty settings (returns defaults)
- * - Invalid JSON (logs error, returns defaults)
- * - Valid JSON (validates and returns)
+ * - Invalid JSON (logs error, alerts the mod team once, returns the last
+ *   known good rules, or defaults if rules never validated)
+ * - Valid JSON (validates, remembers as last known good, and returns)
  * - Warnings (logs but still uses rules)
+ * - Rollback (uses the restored version until the setting is edited again)
+ * - Wiki page (if rulesWikiPage is set, its rules are used instead of the
+ *   rulesJson setting; an unreadable or invalid page falls back to the last
+ *   known good rules, like an invalid setting)
  *
  * This function never throws - it always returns valid rules by falling
- * back to defaults on any error.
+ * back to the last known good rules (or defaults) on any error.
  *
  * @param context - Devvit context for accessing settings
  * @param subredditName - Subreddit name for default rule selection
- * @returns Validated RuleSet (either from settings or defaults)
+ * @returns Validated RuleSet (from settings, last known good, or defaults)
  *
  * @example
  * ```typescript
@@ -527,10 +1796,34 @@ export async function loadRulesFromSettings(
   context: Context,
   subredditName: string
 ): Promise<RuleSet> {
+  // The rulesJson setting is per-installation and is already loaded for the
+  // subreddit itself, so the global set only ever holds built-in defaults.
+  // Loading it again would evaluate every configured rule twice.
+  if (subredditName === 'global') {
+    return getDefaultRuleSet(subredditName);
+  }
+
   try {
-    // Get rules JSON from settings
     const settings = await context.settings.getAll();
-    const rulesJson = settings.rulesJson as string | undefined;
+
+    // Rules from a wiki page take precedence over the rulesJson setting
+    const wikiPage = (settings.rulesWikiPage as string | undefined)?.trim();
+    if (wikiPage) {
+      const wikiRuleSet = await loadRulesFromWiki(context, subredditName, wikiPage);
+      if (wikiRuleSet) {
+        return wikiRuleSet;
+      }
+      console.error('[RuleSchemaValidator] Rules wiki page unavailable or invalid:', {
+        subreddit: subredditName,
+        page: wikiPage,
+      });
+      return await loadFallbackRuleSet(context, subredditName);
+    }
+
+    // Get rules JSON from settings, unless a rollback restored an older version
+    const settingsRulesJson = (settings.rulesJson as string | undefined) ?? '';
+    const rolledBackJson = await new RuleHistory(context.redis).getActiveOverride(settingsRulesJson);
+    const rulesJson = rolledBackJson ?? settingsRulesJson;
 
     // If no rules configured, use defaults
     if (!rulesJson || rulesJson.trim() === '') {
@@ -547,10 +1840,12 @@ export async function loadRulesFromSettings(
         details: result.details,
         subreddit: subredditName,
       });
-      console.error('[RuleSchemaValidator] Falling back to default rules');
-      return getDefaultRuleSet(subredditName);
+      const error = result.details ? `${result.error} (${result.details})` : result.error!;
+      return await loadFallbackRuleSet(context, subredditName, rulesJson, error);
     }
 
+    await new LastKnownGoodRules(context.redis).save(rulesJson, result.data!);
+
     // Log warnings if any
     if (result.warnings && result.warnings.length > 0) {
       console.warn('[RuleSchemaValidator] Rules loaded with warnings:', {
@@ -573,7 +1868,47 @@ export async function loadRulesFromSettings(
       error: error instanceof Error ? error.message : String(error),
       subreddit: subredditName,
     });
-    console.error('[RuleSchemaValidator] Falling back to default rules');
+    return await loadFallbackRuleSet(context, subredditName);
+  }
+}
+
+/**
+ * Get the rules to use while the configured rules can't be loaded
+ *
+ * Prefers the last known good rules; defaults are only used if no
+ * configuration ever validated. When the configuration is broken (rather
+ * than e.g. Redis being unavailable), the mod team gets one modmail per
+ * broken configuration.
+ *
+ * @param context - Devvit context
+ * @param subredditName - Subreddit name for default rule selection
+ * @param brokenRulesJson - Configuration text that failed validation
+ * @param error - Validation error message
+ * @returns Last known good rules, or defaults
+ */
+async function loadFallbackRuleSet(
+  context: Context,
+  subredditName: string,
+  brokenRulesJson?: string,
+  error?: string
+): Promise<RuleSet> {
+  try {
+    const lastKnownGood = new LastKnownGoodRules(context.redis);
+    const saved = await lastKnownGood.get();
+    const fallback = describeFallback(saved);
+
+    console.error(`[RuleSchemaValidator] Falling back: ${fallback}`);
+
+    if (brokenRulesJson !== undefined && error !== undefined && (await lastKnownGood.markBroken(brokenRulesJson))) {
+      await sendRulesValidationAlert(context, 'the rules setting', error, fallback);
+    }
+
+    return saved?.ruleSet ?? getDefaultRuleSet(subredditName);
+  } catch (fallbackError) {
+    console.error('[RuleSchemaValidator] Failed to load fallback rules, using defaults:', {
+      error: fallbackError instanceof Error ? fallbackError.message : String(fallbackError),
+      subreddit: subredditName,
+    });
     return getDefaultRuleSet(subredditName);
   }
 }
@@ -0,0 +1,130 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Text Normalizer - Folds look-alike text before conditions compare it
+ *
+ * Filter evasion writes "Telegram" as "Т3legram" (Cyrillic Т), hides zero-width
+ * characters inside words, or uses fullwidth/math letters. Conditions with
+ * `normalize: true` compare the folded text instead:
+ * 1. Zero-width and invisible formatting characters are removed
+ * 2. NFKC folds compatibility forms (fullwidth, 𝐛𝐨𝐥𝐝, ligatures)
+ * 3. Accents are stripped (é -> e)
+ * 4. Cyrillic/Greek look-alikes are mapped to Latin letters
+ * 5. With `normalize: "leetspeak"`, digits and symbols are read as letters (3 -> e)
+ *
+ * @module rules/textNormalizer
+ */
+
+import { NormalizeMode } from '../types/rules.js';
+
+/**
+ * Zero-width and invisible formatting characters
+ * (ZWSP/ZWNJ/ZWJ, word joiner and invisible operators, BOM, soft hyphen, Mongolian vowel separator)
+ */
+const INVISIBLE_CHARACTERS = /[\u200B-\u200D\u2060-\u2064\uFEFF\u00AD\u180E]/g;
+
+/**
+ * Combining marks left after canonical decomposition (accents)
+ */
+const COMBINING_MARKS = /\p{M}/gu;
+
+/**
+ * Cyrillic and Greek letters that look like Latin letters
+ */
+const CONFUSABLES: Record<string, string> = {
+  // Cyrillic uppercase
+  'А': 'A', 'В': 'B', 'Е': 'E', 'К': 'K', 'М': 'M', 'Н': 'H', 'О': 'O', 'Р': 'P',
+  'С': 'C', 'Т': 'T', 'Х': 'X', 'У': 'Y', 'Ү': 'Y', 'І': 'I', 'Ј': 'J', 'Ѕ': 'S',
+  // Cyrillic lowercase
+  'а': 'a', 'е': 'e', 'о': 'o', 'р': 'p', 'с': 'c', 'у': 'y', 'ү': 'y', 'х': 'x',
+  'і': 'i', 'ј': 'j', 'ѕ': 's', 'һ': 'h', 'ԁ': 'd', 'ԛ': 'q', 'ԝ': 'w', 'ӏ': 'l',
+  // Greek uppercase
+  'Α': 'A', 'Β': 'B', 'Ε': 'E', 'Ζ': 'Z', 'Η': 'H', 'Ι': 'I', 'Κ': 'K', 'Μ': 'M',
+  'Ν': 'N', 'Ο': 'O', 'Ρ': 'P', 'Τ': 'T', 'Υ': 'Y', 'Χ': 'X',
+  // Greek lowercase
+  'α': 'a', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'υ': 'u', 'χ': 'x',
+  // Latin look-alikes
+  'ı': 'i', 'ȷ': 'j',
+};
+
+/**
+ * Digits and symbols read as letters in leetspeak mode
+ * ("1" is read as "i"; "|" covers the "l" spelling)
+ */
+const LEETSPEAK: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b',
+  '@': 'a', '$': 's', '!': 'i', '|': 'l',
+};
+
+/**
+ * Character table for leetspeak mode (look-alikes plus leetspeak)
+ */
+const CONFUSABLES_AND_LEETSPEAK: Record<string, string> = { ...CONFUSABLES, ...LEETSPEAK };
+
+/**
+ * Normalize text for evasion-resistant comparison
+ *
+ * @param text - Text to normalize
+ * @param mode - true for Unicode folding, 'leetspeak' to also fold leetspeak
+ * @returns Folded text (unchanged if mode is false/undefined)
+ *
+ * @example
+ * ```typescript
+ * normalizeText('Т3le\u200Bgram', 'leetspeak'); // 'Telegram'
+ * ```
+ */
+export function normalizeText(text: string, mode: NormalizeMode | undefined): string {
+  if (!mode) {
+    return text;
+  }
+
+  const folded = text
+    .replace(INVISIBLE_CHARACTERS, '')
+    .normalize('NFKC')
+    .normalize('NFD')
+    .replace(COMBINING_MARKS, '');
+
+  const table = mode === 'leetspeak' ? CONFUSABLES_AND_LEETSPEAK : CONFUSABLES;
+  let result = '';
+  for (const char of folded) {
+    result += table[char] ?? char;
+  }
+
+  return result.normalize('NFC');
+}
+
+/**
+ * Normalize a condition operand: strings, and the strings inside arrays
+ *
+ * @param value - Field value or condition value
+ * @param mode - Normalization mode
+ * @returns Normalized value (non-text values unchanged)
+ */
+export function normalizeValue(value: any, mode: NormalizeMode | undefined): any {
+  if (!mode) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return normalizeText(value, mode);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => (typeof item === 'string' ? normalizeText(item, mode) : item));
+  }
+  return value;
+}
@@ -23,6 +23,7 @@
  * It supports:
  * - Dot notation field paths: {profile.commentKarma}
  * - AI analysis fields: {aiAnalysis.answers.dating_intent.confidence}
+ * - The total score in 'score' evaluation mode: {score}
  * - Safe handling of undefined/null values
  * - JSON formatting for complex objects
  *
@@ -101,6 +102,11 @@ export class VariableSubstitutor {
       'postHistory.',
       'aiAnalysis.',
       'ai.',  // New shorthand for AI fields
+      'activity.',  // Author's activity counters in this subreddit
+      'thread.',  // Thread context (comments only)
+      'textStats.',  // Text-quality features
+      'now.',  // Evaluation time (UTC)
+      'score.',  // Total score ('score' evaluation mode), as {score}
       'subreddit'
     ];
 
@@ -116,6 +122,10 @@ export class VariableSubstitutor {
    * - Profile fields: profile.commentKarma
    * - Post fields: currentPost.title
    * - History fields: postHistory.totalPosts
+   * - Activity fields: activity.postsLast24h
+   * - Thread fields: thread.postTitle (comments only)
+   * - Text-quality fields: textStats.capsRatio
+   * - Time fields: now.hourUTC
    * - Legacy AI fields: aiAnalysis.answers.{id}.confidence
    * - New AI shorthand (current rule): ai.answer, ai.confidence, ai.reasoning
    * - New AI shorthand (other rules): ai.dating_intent.answer, ai.dating_intent.confidence
@@ -0,0 +1,182 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Wiki Rule Source - Loads rules from a subreddit wiki page
+ *
+ * Like AutoModerator, rules can live on a wiki page (JSON or YAML) instead of
+ * the rulesJson setting, which gives them Reddit's wiki revision history.
+ *
+ * The page is read at most once a minute, and the validated RuleSet is cached
+ * per wiki revision, so each revision is only parsed once (and generated rule
+ * IDs stay stable for that revision). Valid revisions are remembered as the
+ * last known good rules; when a revision fails validation those stay active
+ * and the moderators get one modmail with the errors.
+ *
+ * @module rules/wikiSource
+ */
+
+import { Context } from '@devvit/public-api';
+import { RuleSet } from '../types/rules.js';
+import { RuleSchemaValidator } from './schemaValidator.js';
+import { sendRulesValidationAlert } from '../notifications/rulesAlert.js';
+import { describeFallback, LastKnownGoodRules } from './lastKnownGood.js';
+
+/**
+ * Cached outcome of validating one wiki revision
+ */
+type WikiRevisionResult = { ruleSet: RuleSet } | { error: string };
+
+/**
+ * Redis key prefix for cached wiki revisions
+ */
+const WIKI_CACHE_KEY_PREFIX = 'rules:wiki:';
+
+/**
+ * TTL for cached wiki revisions (30 days in seconds)
+ */
+const WIKI_CACHE_TTL = 30 * 24 * 60 * 60;
+
+/**
+ * How long the page's current revision is trusted before the page is read again (seconds)
+ *
+ * Rules are loaded several times per event (evaluation, AI question lookup),
+ * so without this every event would read the wiki page several times. Wiki
+ * edits take effect within this time.
+ */
+const WIKI_REVISION_CHECK_TTL = 60;
+
+/**
+ * Load and validate rules from a wiki page
+ *
+ * @param context - Devvit context
+ * @param subredditName - Subreddit the wiki page belongs to
+ * @param pageName - Wiki page name (e.g. 'aiautomod' or 'config/aiautomod')
+ * @returns Validated rule set, or null if the page can't be read or is invalid
+ */
+export async function loadRulesFromWiki(
+  context: Context,
+  subredditName: string,
+  pageName: string
+): Promise<RuleSet | null> {
+  // The page was read moments ago: use its revision without reading it again
+  const currentKey = `${WIKI_CACHE_KEY_PREFIX}${pageName}:current`;
+  try {
+    const revisionId = await context.redis.get(currentKey);
+    const cached = revisionId ? await context.redis.get(`${WIKI_CACHE_KEY_PREFIX}${pageName}:${revisionId}`) : undefined;
+    if (cached) {
+      const result = JSON.parse(cached) as WikiRevisionResult;
+      return 'ruleSet' in result ? result.ruleSet : null;
+    }
+  } catch (error) {
+    console.error('[WikiRules] Failed to read current wiki revision:', {
+      page: pageName,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  let page;
+  try {
+    page = await context.reddit.getWikiPage(subredditName, pageName);
+  } catch (error) {
+    console.error('[WikiRules] Failed to read rules wiki page:', {
+      subreddit: subredditName,
+      page: pageName,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+
+  const cacheKey = `${WIKI_CACHE_KEY_PREFIX}${pageName}:${page.revisionId}`;
+
+  try {
+    await context.redis.set(currentKey, page.revisionId, {
+      expiration: new Date(Date.now() + WIKI_REVISION_CHECK_TTL * 1000),
+    });
+    const cached = await context.redis.get(cacheKey);
+    if (cached) {
+      const result = JSON.parse(cached) as WikiRevisionResult;
+      return 'ruleSet' in result ? result.ruleSet : null;
+    }
+  } catch (error) {
+    console.error('[WikiRules] Failed to read cached wiki revision:', {
+      page: pageName,
+      revisionId: page.revisionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  // First time this revision is seen: validate, cache, and report errors
+  const result = await validateWikiContent(page.content);
+  const lastKnownGood = new LastKnownGoodRules(context.redis);
+
+  if ('error' in result) {
+    console.error('[WikiRules] Rules wiki page revision is invalid:', {
+      page: pageName,
+      revisionId: page.revisionId,
+      error: result.error,
+    });
+    await sendRulesValidationAlert(
+      context,
+      `wiki page "${pageName}" (revision ${page.revisionId} by u/${page.revisionAuthor?.username ?? 'unknown'})`,
+      result.error,
+      describeFallback(await lastKnownGood.get())
+    );
+  } else {
+    console.log('[WikiRules] Loaded rules from wiki page:', {
+      page: pageName,
+      revisionId: page.revisionId,
+      ruleCount: result.ruleSet.rules.length,
+    });
+    await lastKnownGood.save(page.content, result.ruleSet);
+  }
+
+  try {
+    await context.redis.set(cacheKey, JSON.stringify(result), {
+      expiration: new Date(Date.now() + WIKI_CACHE_TTL * 1000),
+    });
+  } catch (error) {
+    console.error('[WikiRules] Failed to cache wiki revision:', {
+      page: pageName,
+      revisionId: page.revisionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return 'ruleSet' in result ? result.ruleSet : null;
+}
+
+/**
+ * Parse (JSON or YAML) and validate wiki page content
+ *
+ * @param content - Raw wiki page content
+ * @returns Validated rule set, or an error message
+ */
+export async function validateWikiContent(content: string): Promise<WikiRevisionResult> {
+  if (content.trim() === '') {
+    return { error: 'Wiki page is empty' };
+  }
+
+  const validation = await RuleSchemaValidator.validateAndMigrate(content);
+  if (!validation.success) {
+    return { error: validation.details ? `${validation.error} (${validation.details})` : validation.error! };
+  }
+
+  validation.warnings?.forEach((warning) => console.warn('[WikiRules]', warning));
+  return { ruleSet: validation.data! };
+}
@@ -0,0 +1,122 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * User Activity Tracker
+ *
+ * Records each user's posts and comments per subreddit in Redis sorted sets
+ * (member = content ID, score = timestamp) and counts them over rolling
+ * 1h/24h/7d windows. The counts are exposed to rules as `activity.*` fields.
+ *
+ * Entries older than 7 days are trimmed on every write, and each set expires
+ * 7 days after the user's last submission.
+ */
+
+import { RedisClient } from '@devvit/public-api';
+import type { ActivityContext } from '../types/rules.js';
+import { UserKeys } from './keyBuilder.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+/**
+ * Record a post or comment for the author's activity counters
+ *
+ * Recording the same content ID twice only updates its timestamp.
+ *
+ * @param redis - Redis client
+ * @param userId - Author user ID
+ * @param subreddit - Subreddit name
+ * @param contentType - 'post' or 'comment'
+ * @param contentId - Post or comment ID (with t3_ or t1_ prefix)
+ * @param settingsVersion - Runtime settings version
+ */
+export async function recordActivity(
+  redis: RedisClient,
+  userId: string,
+  subreddit: string,
+  contentType: 'post' | 'comment',
+  contentId: string,
+  settingsVersion: string
+): Promise<void> {
+  const key = UserKeys.activity(userId, settingsVersion, subreddit, contentType);
+  const now = Date.now();
+
+  try {
+    await redis.zAdd(key, { member: contentId, score: now });
+    await redis.zRemRangeByScore(key, 0, now - WEEK_MS);
+    await redis.expire(key, WEEK_MS / 1000);
+  } catch (error) {
+    console.error('[ActivityTracker] Failed to record activity:', {
+      userId,
+      subreddit,
+      contentId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    // Don't throw - counters are best effort
+  }
+}
+
+/**
+ * Count a user's posts and comments in a subreddit over rolling windows
+ *
+ * @param redis - Redis client
+ * @param userId - Author user ID
+ * @param subreddit - Subreddit name
+ * @param settingsVersion - Runtime settings version
+ * @returns Activity counts, or undefined if they couldn't be read
+ */
+export async function getActivityCounts(
+  redis: RedisClient,
+  userId: string,
+  subreddit: string,
+  settingsVersion: string
+): Promise<ActivityContext | undefined> {
+  const now = Date.now();
+
+  try {
+    const [posts, comments] = await Promise.all([
+      redis.zRange(UserKeys.activity(userId, settingsVersion, subreddit, 'post'), now - WEEK_MS, now, {
+        by: 'score',
+      }),
+      redis.zRange(UserKeys.activity(userId, settingsVersion, subreddit, 'comment'), now - WEEK_MS, now, {
+        by: 'score',
+      }),
+    ]);
+
+    const countSince = (entries: Array<{ score: number }>, windowMs: number) =>
+      entries.filter((entry) => entry.score >= now - windowMs).length;
+
+    return {
+      postsLastHour: countSince(posts, HOUR_MS),
+      postsLast24h: countSince(posts, DAY_MS),
+      postsLast7d: posts.length,
+      commentsLastHour: countSince(comments, HOUR_MS),
+      commentsLast24h: countSince(comments, DAY_MS),
+      commentsLast7d: comments.length,
+    };
+  } catch (error) {
+    console.error('[ActivityTracker] Failed to read activity counts:', {
+      userId,
+      subreddit,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
+  }
+}
@@ -24,6 +24,7 @@
  */
 
 import { RedisClient } from '@devvit/public-api';
+import type { ModerationAction, ConditionTrace } from '../types/rules.js';
 
 /**
  * AI analysis history entry stored in Redis
@@ -33,8 +34,8 @@ export interface AnalysisHistoryEntry {
   contentId: string;
   /** Author username */
   authorName: string;
-  /** Action taken by AI Automod */
-  action: 'REMOVE' | 'FLAG' | 'COMMENT' | 'APPROVE';
+  /** Action taken by AI Automod (primary action for multi-action rules) */
+  action: ModerationAction;
   /** Name of the rule that matched */
   ruleName: string;
   /** Timestamp of the action (ISO string) */
@@ -79,10 +80,33 @@ export interface AnalysisHistoryEntry {
   aiReasoning?: string;
   /** Rule reason text (Layer 3) */
   ruleReason?: string;
+  /** Compact condition trace of the matched rule - the path that fired (Layer 3) */
+  explanation?: ConditionTrace;
   /** AI cost in USD (Layer 3 only, Layers 1-2 are free) */
   aiCostUSD?: number;
   /** Number of tokens used by AI (Layer 3) */
   aiTokensUsed?: number;
+
+  // Multi-action rules
+  /** Per-step results in execution order (only for rules with 'actions') */
+  actionResults?: Array<{
+    action: ModerationAction;
+    success: boolean;
+    error?: string;
+  }>;
+
+  // Shadow rules
+  /** Shadow rules that matched, with the action they would have taken */
+  shadowMatches?: Array<{
+    ruleId: string;
+    ruleName: string;
+    action: ModerationAction;
+    reason: string;
+  }>;
+
+  // Tagging rules
+  /** Tags attached by TAG rules (indexed for "Find Tagged Content") */
+  tags?: string[];
 }
 
 /**
@@ -90,6 +114,11 @@ export interface AnalysisHistoryEntry {
  */
 const ANALYSIS_KEY_PREFIX = 'ai_analysis:';
 
+/**
+ * Redis key prefix for the per-tag index (sorted set of content IDs by time)
+ */
+const TAG_INDEX_KEY_PREFIX = `${ANALYSIS_KEY_PREFIX}tag:`;
+
 /**
  * TTL for analysis history entries (90 days in seconds)
  */
@@ -113,6 +142,11 @@ export async function saveAnalysisHistory(
       expiration: new Date(Date.now() + ANALYSIS_TTL * 1000),
     });
 
+    // Index by tag so moderators can find content by tag
+    for (const tag of entry.tags ?? []) {
+      await indexTag(redis, tag, entry.contentId);
+    }
+
     console.log(`Saved analysis history for ${entry.contentId}`);
   } catch (error) {
     console.error('Failed to save analysis history:', {
@@ -180,3 +214,54 @@ export async function hasAnalysisHistory(
     return false;
   }
 }
+
+/**
+ * Add content to a tag's index, dropping entries older than the history TTL
+ *
+ * @param redis - Redis client
+ * @param tag - Tag attached to the content
+ * @param contentId - Post or comment ID (with t3_ or t1_ prefix)
+ */
+async function indexTag(redis: RedisClient, tag: string, contentId: string): Promise<void> {
+  const key = `${TAG_INDEX_KEY_PREFIX}${tag}`;
+  const now = Date.now();
+
+  await redis.zAdd(key, { member: contentId, score: now });
+  await redis.zRemRangeByScore(key, 0, now - ANALYSIS_TTL * 1000);
+  await redis.expire(key, ANALYSIS_TTL);
+}
+
+/**
+ * Find recent analysis history entries with a tag
+ *
+ * @param redis - Redis client
+ * @param tag - Tag to filter by
+ * @param limit - Maximum number of entries to return
+ * @returns Entries with the tag, newest first (empty on error)
+ */
+export async function findTaggedAnalysisHistory(
+  redis: RedisClient,
+  tag: string,
+  limit = 25
+): Promise<AnalysisHistoryEntry[]> {
+  try {
+    const members = await redis.zRange(`${TAG_INDEX_KEY_PREFIX}${tag}`, 0, limit - 1, {
+      by: 'rank',
+      reverse: true,
+    });
+    if (members.length === 0) {
+      return [];
+    }
+
+    const stored = await redis.mGet(members.map((entry) => `${ANALYSIS_KEY_PREFIX}${entry.member}`));
+    return stored
+      .filter((entry): entry is string => Boolean(entry))
+      .map((entry) => JSON.parse(entry) as AnalysisHistoryEntry);
+  } catch (error) {
+    console.error('Failed to find tagged analysis history:', {
+      error: error instanceof Error ? error.message : String(error),
+      tag,
+    });
+    return [];
+  }
+}
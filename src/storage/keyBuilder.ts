@@ -218,6 +218,12 @@ export const UserKeys = {
   /** User tracking data (all subreddits): v1:{sv}:user:{userId}:tracking */
   tracking: (userId: string, settingsVersion: string = DEFAULT_SETTINGS_VERSION) => buildUserKey(userId, settingsVersion, 'tracking'),
 
+  /** Activity timestamps per subreddit and content type: v1:{sv}:user:{userId}:activity:{subreddit}:{post|comment} */
+  activity: (userId: string, settingsVersion: string = DEFAULT_SETTINGS_VERSION, subreddit: string, contentType: 'post' | 'comment') => buildUserKey(userId, settingsVersion, 'activity', subreddit, contentType),
+
+  /** Strike timestamps per escalating rule: v1:{sv}:user:{userId}:strikes:{ruleId} */
+  strikes: (userId: string, settingsVersion: string = DEFAULT_SETTINGS_VERSION, ruleId: string) => buildUserKey(userId, settingsVersion, 'strikes', ruleId),
+
   /** AI questions tracking set: v1:{sv}:user:{userId}:ai:questions:keys */
   aiQuestionsKeys: (userId: string, settingsVersion: string = DEFAULT_SETTINGS_VERSION) => buildUserKey(userId, settingsVersion, 'ai', 'questions', 'keys'),
 
@@ -238,6 +244,9 @@ export const GlobalKeys = {
   /** Daily cost per provider: v1:{sv}:global:cost:daily:{date}:{provider} */
   costDailyProvider: (date: string, provider: string, settingsVersion: string = DEFAULT_SETTINGS_VERSION) => buildGlobalKey(settingsVersion, 'cost', 'daily', date, provider),
 
+  /** Daily cost per provider/model (hash of "{provider}:{model}" → cents): v1:{sv}:global:cost:daily:{date}:models */
+  costDailyModels: (date: string, settingsVersion: string = DEFAULT_SETTINGS_VERSION) => buildGlobalKey(settingsVersion, 'cost', 'daily', date, 'models'),
+
   /** Monthly cost total: v1:{sv}:global:cost:monthly:{month} */
   costMonthly: (month: string, settingsVersion: string = DEFAULT_SETTINGS_VERSION) => buildGlobalKey(settingsVersion, 'cost', 'monthly', month),
 
@@ -0,0 +1,221 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Rule Statistics Storage
+ *
+ * Per-rule counters kept in one Redis hash per rule ID:
+ * - evaluations: times the rule's conditions were evaluated
+ * - matches: times the conditions matched (shadow matches included)
+ * - actions: live actions successfully taken because of the rule
+ * - overrideApprovals: mod approvals of content the rule removed
+ * - overrideRemovals: mod removals of content the rule approved
+ *
+ * To detect overrides, each removal or approval made by a rule is remembered
+ * per content ID for 30 days and checked when a mod acts on that content.
+ */
+
+import { RedisClient } from '@devvit/public-api';
+import type { ModerationAction } from '../types/rules.js';
+
+/**
+ * Counters of one rule
+ */
+export interface RuleStats {
+  /** Rule ID */
+  ruleId: string;
+  /** Times the rule's conditions were evaluated */
+  evaluations: number;
+  /** Times the rule's conditions matched */
+  matches: number;
+  /** Live actions taken because of the rule */
+  actions: number;
+  /** Mod approvals of content the rule removed */
+  overrideApprovals: number;
+  /** Mod removals of content the rule approved */
+  overrideRemovals: number;
+}
+
+/**
+ * Rule action remembered for override detection
+ */
+interface RuleActionRecord {
+  ruleId: string;
+  outcome: 'removed' | 'approved';
+}
+
+/**
+ * Redis key prefix for rule counters and action records
+ */
+const RULE_STATS_KEY_PREFIX = 'rule_stats:';
+
+/**
+ * TTL for rule action records (30 days in seconds)
+ */
+const ACTION_RECORD_TTL = 30 * 24 * 60 * 60;
+
+/**
+ * Actions that remove the content
+ */
+const REMOVING_ACTIONS: ModerationAction[] = ['REMOVE', 'SPAM'];
+
+function statsKey(ruleId: string): string {
+  return `${RULE_STATS_KEY_PREFIX}${ruleId}`;
+}
+
+function actionRecordKey(contentId: string): string {
+  return `${RULE_STATS_KEY_PREFIX}content:${contentId}`;
+}
+
+/**
+ * Count one rules engine run
+ *
+ * @param redis - Redis client
+ * @param evaluatedRuleIds - Rules whose conditions were evaluated
+ * @param matchedRuleIds - Rules whose conditions matched
+ */
+export async function recordRuleEvaluations(
+  redis: RedisClient,
+  evaluatedRuleIds: string[],
+  matchedRuleIds: string[]
+): Promise<void> {
+  try {
+    await Promise.all([
+      ...evaluatedRuleIds.map((ruleId) => redis.hIncrBy(statsKey(ruleId), 'evaluations', 1)),
+      ...matchedRuleIds.map((ruleId) => redis.hIncrBy(statsKey(ruleId), 'matches', 1)),
+    ]);
+  } catch (error) {
+    console.error('[RuleStats] Failed to record evaluations:', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    // Don't throw - statistics are best effort
+  }
+}
+
+/**
+ * Count a live action taken because of a rule
+ *
+ * Removals and approvals are also remembered for the content so that a mod
+ * reversing them can be counted as an override.
+ *
+ * @param redis - Redis client
+ * @param ruleId - Rule the action came from
+ * @param contentId - Post or comment ID (with t3_ or t1_ prefix)
+ * @param actions - Actions executed (every step for multi-action rules)
+ */
+export async function recordRuleAction(
+  redis: RedisClient,
+  ruleId: string,
+  contentId: string,
+  actions: ModerationAction[]
+): Promise<void> {
+  const outcome = actions.some((action) => REMOVING_ACTIONS.includes(action))
+    ? 'removed'
+    : actions.includes('APPROVE')
+      ? 'approved'
+      : undefined;
+
+  try {
+    await redis.hIncrBy(statsKey(ruleId), 'actions', 1);
+
+    if (outcome) {
+      const record: RuleActionRecord = { ruleId, outcome };
+      await redis.set(actionRecordKey(contentId), JSON.stringify(record), {
+        expiration: new Date(Date.now() + ACTION_RECORD_TTL * 1000),
+      });
+    }
+  } catch (error) {
+    console.error('[RuleStats] Failed to record action:', {
+      ruleId,
+      contentId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    // Don't throw - the action was already taken
+  }
+}
+
+/**
+ * Count a mod action that reverses a rule's removal or approval
+ *
+ * Approving content a rule removed, or removing content a rule approved,
+ * counts as one override of that rule. Each rule action is counted at most once.
+ *
+ * @param redis - Redis client
+ * @param contentId - Post or comment ID the mod acted on
+ * @param modAction - Whether the mod approved or removed the content
+ * @returns ID of the overridden rule, or undefined if nothing was overridden
+ */
+export async function recordModOverride(
+  redis: RedisClient,
+  contentId: string,
+  modAction: 'approve' | 'remove'
+): Promise<string | undefined> {
+  try {
+    const data = await redis.get(actionRecordKey(contentId));
+    if (!data) {
+      return undefined;
+    }
+
+    const record = JSON.parse(data) as RuleActionRecord;
+    const field =
+      modAction === 'approve' && record.outcome === 'removed'
+        ? 'overrideApprovals'
+        : modAction === 'remove' && record.outcome === 'approved'
+          ? 'overrideRemovals'
+          : undefined;
+
+    if (!field) {
+      return undefined;
+    }
+
+    await redis.hIncrBy(statsKey(record.ruleId), field, 1);
+    await redis.del(actionRecordKey(contentId));
+    return record.ruleId;
+  } catch (error) {
+    console.error('[RuleStats] Failed to record override:', {
+      contentId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Read the counters of several rules
+ *
+ * @param redis - Redis client
+ * @param ruleIds - Rule IDs
+ * @returns Counters in the same order (all zero for rules without data)
+ */
+export async function getRuleStats(redis: RedisClient, ruleIds: string[]): Promise<RuleStats[]> {
+  return Promise.all(
+    ruleIds.map(async (ruleId) => {
+      const data = await redis.hGetAll(statsKey(ruleId));
+      const count = (field: string) => parseInt(data?.[field] || '0', 10);
+
+      return {
+        ruleId,
+        evaluations: count('evaluations'),
+        matches: count('matches'),
+        actions: count('actions'),
+        overrideApprovals: count('overrideApprovals'),
+        overrideRemovals: count('overrideRemovals'),
+      };
+    })
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Strike Storage
+ *
+ * Stores strikes for escalating rules per user per rule in Redis sorted sets
+ * (member = content ID, score = timestamp). Only strikes younger than the
+ * rule's expiry period count; older ones are trimmed on every write.
+ */
+
+import { RedisClient } from '@devvit/public-api';
+import { UserKeys } from './keyBuilder.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Count a user's unexpired strikes for a rule
+ *
+ * @param redis - Redis client
+ * @param userId - Author user ID
+ * @param ruleId - Escalating rule ID
+ * @param expireDays - Days a strike counts for
+ * @param settingsVersion - Runtime settings version
+ * @returns Number of strikes (0 if they couldn't be read)
+ */
+export async function getStrikeCount(
+  redis: RedisClient,
+  userId: string,
+  ruleId: string,
+  expireDays: number,
+  settingsVersion: string
+): Promise<number> {
+  const now = Date.now();
+
+  try {
+    const strikes = await redis.zRange(
+      UserKeys.strikes(userId, settingsVersion, ruleId),
+      now - expireDays * DAY_MS,
+      now,
+      { by: 'score' }
+    );
+    return strikes.length;
+  } catch (error) {
+    console.error('[Strikes] Failed to read strikes:', {
+      userId,
+      ruleId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return 0;
+  }
+}
+
+/**
+ * Record a strike for a user on a rule
+ *
+ * Recording the same content ID twice only updates its timestamp.
+ *
+ * @param redis - Redis client
+ * @param userId - Author user ID
+ * @param ruleId - Escalating rule ID
+ * @param contentId - Post or comment ID the strike is for
+ * @param expireDays - Days a strike counts for
+ * @param settingsVersion - Runtime settings version
+ */
+export async function recordStrike(
+  redis: RedisClient,
+  userId: string,
+  ruleId: string,
+  contentId: string,
+  expireDays: number,
+  settingsVersion: string
+): Promise<void> {
+  const key = UserKeys.strikes(userId, settingsVersion, ruleId);
+  const now = Date.now();
+
+  try {
+    await redis.zAdd(key, { member: contentId, score: now });
+    await redis.zRemRangeByScore(key, 0, now - expireDays * DAY_MS);
+    await redis.expire(key, expireDays * DAY_MS / 1000);
+  } catch (error) {
+    console.error('[Strikes] Failed to record strike:', {
+      userId,
+      ruleId,
+      contentId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    // Don't throw - the action was already taken
+  }
+}
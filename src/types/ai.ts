@@ -94,6 +94,16 @@ export interface AIProviderConfig {
   apiKey?: string;
 }
 
+/**
+ * Token pricing of a single model
+ */
+export interface ModelPricing {
+  /** Cost per million input tokens in USD */
+  costPerMTokenInput: number;
+  /** Cost per million output tokens in USD */
+  costPerMTokenOutput: number;
+}
+
 /**
  * Circuit breaker state for a single AI provider
  * Implements the Circuit Breaker pattern to prevent cascading failures
@@ -284,6 +294,10 @@ export interface CostRecord {
   costUSD: number;
   /** Whether result was served from cache (true = no actual API call) */
   cached: boolean;
+  /** Model used (optional - for per-model cost attribution) */
+  model?: string;
+  /** IDs of the questions answered by this call (question-based analysis) */
+  questionIds?: string[];
 }
 
 /**
@@ -537,6 +551,31 @@ export interface AIQuestion {
   question: string;
   /** Optional additional context specific to this question */
   context?: string;
+  /**
+   * Preferred provider for this question (optional - defaults to the primary provider)
+   *
+   * Questions with the same provider/model are answered in one batched call.
+   */
+  provider?: AIProviderType;
+  /** Preferred model for this question (optional - defaults to the provider's model) */
+  model?: string;
+}
+
+/**
+ * One batched AI call of a question-based analysis
+ * Questions are batched per preferred provider/model
+ */
+export interface AIQuestionGroupResult {
+  /** AI provider that answered the group */
+  provider: AIProviderType;
+  /** AI model that answered the group */
+  model: string;
+  /** IDs of the questions in the group */
+  questionIds: string[];
+  /** Number of tokens used by this call */
+  tokensUsed: number;
+  /** Cost of this call in USD */
+  costUSD: number;
 }
 
 /**
@@ -554,6 +593,41 @@ export interface AIAnswer {
   reasoning: string;
 }
 
+/**
+ * Post metadata shown to the AI with the current post's text
+ * All fields are optional (comments have none of them)
+ */
+export interface AIPostMetadata {
+  /** Post type (text, link, image, video, gallery, poll) */
+  type?: string;
+  /** Post flair text */
+  flairText?: string;
+  /** Whether post is marked NSFW */
+  nsfw?: boolean;
+  /** Whether post is marked as a spoiler */
+  spoiler?: boolean;
+  /** Subreddit of the original post, for crossposts */
+  crosspostSubreddit?: string;
+  /** Path of the link URL, for link posts (e.g. "/watch") */
+  linkPath?: string;
+  /** Number of gallery items */
+  galleryCount?: number;
+}
+
+/**
+ * Thread a comment belongs to, included in question prompts for comments
+ */
+export interface AIThreadContext {
+  /** Title of the post the comment is on */
+  postTitle: string;
+  /** Body of the post the comment is on */
+  postBody: string;
+  /** Body of the comment being replied to (absent for top-level comments) */
+  parentCommentBody?: string;
+  /** Whether the comment author also wrote the post */
+  authorIsOP: boolean;
+}
+
 /**
  * Input data for custom question-based AI analysis request
  * Contains user data and array of custom questions to answer
@@ -575,6 +649,10 @@ export interface AIQuestionRequest {
     body: string;
     /** Subreddit where post was submitted */
     subreddit: string;
+    /** Post metadata (flair, NSFW, spoiler, crosspost, link, gallery) */
+    metadata?: AIPostMetadata;
+    /** Thread the comment belongs to (comments only) */
+    thread?: AIThreadContext;
   };
   /** Array of custom questions to answer */
   questions: AIQuestion[];
@@ -614,4 +692,10 @@ export interface AIQuestionBatchResult {
   costUSD: number;
   /** Request latency in milliseconds */
   latencyMs: number;
+  /**
+   * Per-call breakdown when questions were split across providers/models
+   * (provider, model, tokensUsed and costUSD then describe the whole batch,
+   * with provider/model taken from the first call)
+   */
+  groups?: AIQuestionGroupResult[];
 }
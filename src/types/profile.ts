@@ -142,6 +142,20 @@ export interface CurrentPost {
   linkUrl?: string;
   /** Whether post has been edited */
   isEdited: boolean;
+  /** Post flair text (posts only) */
+  flairText?: string;
+  /** Post flair template ID (posts only) */
+  flairTemplateId?: string;
+  /** Whether post is marked NSFW (posts only) */
+  nsfw?: boolean;
+  /** Whether post is marked as a spoiler (posts only) */
+  spoiler?: boolean;
+  /** Subreddit of the original post, for crossposts */
+  crosspostSubreddit?: string;
+  /** Path of the link URL for link posts (e.g. "/watch") */
+  linkPath?: string;
+  /** Number of gallery items (0 for non-gallery posts) */
+  galleryCount?: number;
 }
 
 /**
@@ -27,7 +27,7 @@
  */
 
 import { UserProfile, UserPostHistory, CurrentPost } from './profile.js';
-import { AIQuestionBatchResult } from './ai.js';
+import { AIQuestionBatchResult, AIProviderType } from './ai.js';
 
 /**
  * Comparison operators for numeric fields
@@ -38,19 +38,42 @@ export type ComparisonOperator = '<' | '>' | '<=' | '>=' | '==' | '!=';
  * Text matching operators
  * - contains/not_contains: Case-sensitive substring matching
  * - contains_i/not_contains_i: Case-insensitive substring matching
+ * - starts_with/ends_with: Case-sensitive prefix/suffix matching
+ * - starts_with_i/ends_with_i: Case-insensitive prefix/suffix matching
+ * - contains_word: Case-insensitive whole-word matching
+ * - contains_any/contains_all: Case-insensitive matching against a list of terms
  */
 export type TextOperator =
   | 'contains'
   | 'not_contains'
   | 'contains_i'
-  | 'not_contains_i';
+  | 'not_contains_i'
+  | 'starts_with'
+  | 'ends_with'
+  | 'starts_with_i'
+  | 'ends_with_i'
+  | 'contains_word'
+  | 'contains_any'
+  | 'contains_all';
 
 /**
  * Array membership operators
  * - in: Value is in array
  * - not_in: Value is not in array
+ * - intersects: Array field shares at least one item with the list
+ * - subset_of: Every item of the array field is in the list
  */
-export type ArrayOperator = 'in' | 'not_in';
+export type ArrayOperator = 'in' | 'not_in' | 'intersects' | 'subset_of';
+
+/**
+ * Length operators for strings (characters) and arrays (items)
+ */
+export type LengthOperator = 'length_eq' | 'length_lt' | 'length_lte' | 'length_gt' | 'length_gte';
+
+/**
+ * Range operator: number within [min, max] (inclusive)
+ */
+export type RangeOperator = 'between';
 
 /**
  * Regular expression operators
@@ -59,10 +82,21 @@ export type ArrayOperator = 'in' | 'not_in';
  */
 export type RegexOperator = 'regex' | 'regex_i';
 
+/**
+ * Existence operators (no 'value' needed)
+ * - exists: Field has a value (not null/undefined)
+ * - not_exists: Field is null/undefined
+ * - is_empty: Field is missing, a blank string, or an empty array
+ */
+export type ExistenceOperator = 'exists' | 'not_exists' | 'is_empty';
+
 /**
  * Logical operators for combining conditions
+ * - AND: All child conditions match
+ * - OR: At least one child condition matches
+ * - NOT: None of the child conditions match
  */
-export type LogicalOperator = 'AND' | 'OR';
+export type LogicalOperator = 'AND' | 'OR' | 'NOT';
 
 /**
  * All supported condition operators
@@ -71,7 +105,10 @@ export type ConditionOperator =
   | ComparisonOperator
   | TextOperator
   | ArrayOperator
-  | RegexOperator;
+  | LengthOperator
+  | RangeOperator
+  | RegexOperator
+  | ExistenceOperator;
 
 /**
  * Moderation actions that can be taken
@@ -79,8 +116,141 @@ export type ConditionOperator =
  * - FLAG: Flag post for manual moderator review
  * - REMOVE: Automatically remove the post
  * - COMMENT: Post an automated comment (can be combined with other actions)
+ * - BAN: Ban the author from the subreddit (configured via actionConfig.ban)
+ * - MUTE: Mute the author in modmail
+ * - LOCK: Lock the post/comment so no new replies can be made
+ * - SPAM: Remove as spam (trains Reddit's spam filter, no removal comment)
+ * - SET_FLAIR: Set post or user flair (configured via actionConfig.flair)
+ * - TAG: Attach tags (configured via actionConfig.tags) and keep evaluating; never acts on the content
  */
-export type ModerationAction = 'APPROVE' | 'FLAG' | 'REMOVE' | 'COMMENT';
+export type ModerationAction =
+  | 'APPROVE'
+  | 'FLAG'
+  | 'REMOVE'
+  | 'COMMENT'
+  | 'BAN'
+  | 'MUTE'
+  | 'LOCK'
+  | 'SPAM'
+  | 'SET_FLAIR'
+  | 'TAG';
+
+/**
+ * Severity ranking for moderation actions (higher = more severe)
+ * Used to pick the primary action when a rule declares several actions
+ */
+export const ACTION_SEVERITY: Record<ModerationAction, number> = {
+  TAG: 0, // Never a taken action (TAG rules don't end evaluation)
+  APPROVE: 0,
+  SET_FLAIR: 1,
+  COMMENT: 2,
+  FLAG: 3,
+  LOCK: 4,
+  MUTE: 5,
+  REMOVE: 6,
+  SPAM: 7,
+  BAN: 8,
+};
+
+/**
+ * Recurring UTC time window in which a rule is active
+ */
+export interface ActiveWindow {
+  /** UTC weekdays (0 = Sunday ... 6 = Saturday); all days if omitted */
+  days?: number[];
+  /** First UTC hour of the window (0-23, inclusive; defaults to 0) */
+  startHour?: number;
+  /** UTC hour the window ends (1-24, exclusive; defaults to 24). Wraps past midnight if before startHour */
+  endHour?: number;
+}
+
+/**
+ * Time fields available to conditions as `now.*` (UTC)
+ */
+export interface TimeContext {
+  /** Current UTC hour (0-23) */
+  hourUTC: number;
+  /** Current UTC weekday (0 = Sunday ... 6 = Saturday) */
+  dayOfWeek: number;
+}
+
+/**
+ * Author's activity in the subreddit, available to conditions as `activity.*`
+ * Counts over rolling windows, including the content being evaluated
+ */
+export interface ActivityContext {
+  /** Posts in the last hour */
+  postsLastHour: number;
+  /** Posts in the last 24 hours */
+  postsLast24h: number;
+  /** Posts in the last 7 days */
+  postsLast7d: number;
+  /** Comments in the last hour */
+  commentsLastHour: number;
+  /** Comments in the last 24 hours */
+  commentsLast24h: number;
+  /** Comments in the last 7 days */
+  commentsLast7d: number;
+}
+
+/**
+ * Thread a comment belongs to, available to conditions as `thread.*`
+ * Only set for comments
+ */
+export interface ThreadContext {
+  /** Title of the post the comment is on */
+  postTitle: string;
+  /** Body of the post the comment is on */
+  postBody: string;
+  /** Body of the comment being replied to (absent for top-level comments) */
+  parentCommentBody?: string;
+  /** Reply depth (0 = top-level comment; capped at THREAD_MAX_DEPTH) */
+  depth: number;
+  /** Whether the comment replies to the post directly */
+  isTopLevel: boolean;
+  /** Whether the comment author also wrote the post */
+  authorIsOP: boolean;
+  /** Hours between the post and the comment */
+  ageInHours: number;
+}
+
+/**
+ * Text-quality features of the content (title + body), available to conditions as `textStats.*`
+ */
+export interface TextStats {
+  /** Share of letters that are uppercase (0-1; 0 without letters) */
+  capsRatio: number;
+  /** Number of emoji */
+  emojiCount: number;
+  /** Longest run of one repeated character, ignoring whitespace (e.g. 5 for "!!!!!") */
+  longestCharRun: number;
+  /** Number of runs of 4 or more identical characters (e.g. "soooo", "$$$$") */
+  repeatedCharRuns: number;
+  /** Number of non-blank lines */
+  lineCount: number;
+  /** Share of the text made up of links (0-1) */
+  linkToTextRatio: number;
+  /** Number of markdown links ([text](url)) */
+  markdownLinkCount: number;
+  /** Detected language (ISO 639-1 code, e.g. "en"), or "unknown" */
+  language: string;
+}
+
+/**
+ * Deepest reply depth looked up for `thread.depth` (deeper replies report this value)
+ */
+export const THREAD_MAX_DEPTH = 10;
+
+/**
+ * Prefix of condition values that reference a named list (e.g. "@list:scam_domains")
+ */
+export const LIST_REFERENCE_PREFIX = '@list:';
+
+/**
+ * Text normalization of a condition: true folds Unicode look-alikes,
+ * 'leetspeak' also reads digits and symbols as letters
+ */
+export type NormalizeMode = boolean | 'leetspeak';
 
 /**
  * Condition structure supporting both leaf and nested conditions
@@ -95,11 +265,13 @@ export interface Condition {
   field?: string;
   /** Comparison operator */
   operator?: ConditionOperator;
-  /** Expected value to compare against */
+  /** Expected value to compare against (or "@list:<name>" for a named list) */
   value?: any;
+  /** Fold look-alike text (Unicode tricks, optionally leetspeak) before comparing (see rules/textNormalizer) */
+  normalize?: NormalizeMode;
 
   // Nested condition fields
-  /** Child conditions (for AND/OR logic) */
+  /** Child conditions (for AND/OR/NOT logic) */
   rules?: Condition[];
   /** Logical operator combining child conditions */
   logicalOperator?: LogicalOperator;
@@ -116,6 +288,93 @@ export interface ActionConfig {
   modlog?: string | null;
   /** Custom variables for substitution in reason/modlog text */
   variables?: Record<string, string>;
+  /** Options for the BAN action */
+  ban?: BanConfig;
+  /** Options for the SET_FLAIR action */
+  flair?: FlairConfig;
+  /** Tags attached by the TAG action (letters, digits, '-' and '_') */
+  tags?: string[];
+}
+
+/**
+ * BAN action options
+ */
+export interface BanConfig {
+  /** Ban length in days (1-999), omit for a permanent ban */
+  duration?: number;
+  /** Explicit permanent ban (can't be combined with duration) */
+  permanent?: boolean;
+  /** Message sent to the user in the ban notification (supports variable substitution, defaults to reason) */
+  message?: string;
+}
+
+/**
+ * SET_FLAIR action options
+ * At least one of text or templateId is required
+ */
+export interface FlairConfig {
+  /** Whether to flair the post or the author (defaults to 'post') */
+  target?: 'post' | 'user';
+  /** Flair text (supports variable substitution) */
+  text?: string;
+  /** Flair template ID */
+  templateId?: string;
+  /** Flair CSS class */
+  cssClass?: string;
+}
+
+/**
+ * Rule run mode
+ * - live: Matching rule acts normally
+ * - shadow: Matching rule is logged with what it would have done, but never
+ *   acts and never stops evaluation of later rules
+ */
+export type RuleMode = 'live' | 'shadow';
+
+/**
+ * Single step in a multi-action rule
+ * Steps are executed in the order they are declared
+ */
+export interface RuleActionStep {
+  /** Action to execute */
+  action: ModerationAction;
+  /** Optional per-step overrides of the rule's actionConfig */
+  actionConfig?: Partial<ActionConfig>;
+}
+
+/**
+ * One rung of an escalation ladder
+ * Shape matches a rule's own action fields; actionConfig overrides the rule's
+ */
+export interface EscalationStep {
+  /** Action for this strike (primary action when 'actions' is set) */
+  action: ModerationAction;
+  /** Optional ordered list of actions for this strike */
+  actions?: RuleActionStep[];
+  /** Optional overrides of the rule's actionConfig for this strike */
+  actionConfig?: Partial<ActionConfig>;
+}
+
+/**
+ * Strike-based escalation for repeat offenders
+ * Each match is a strike for the author; step N applies to strike N and the
+ * last step repeats. Strikes expire after expireDays.
+ */
+export interface EscalationConfig {
+  /** Steps for the 1st, 2nd, 3rd... strike */
+  steps: EscalationStep[];
+  /** Days after which a strike no longer counts (defaults to 30) */
+  expireDays: number;
+}
+
+/**
+ * Strike applied by a match on an escalating rule
+ */
+export interface StrikeInfo {
+  /** Strike number of this match (1 = first strike within the expiry period) */
+  count: number;
+  /** Days the strike counts for */
+  expireDays: number;
 }
 
 /**
@@ -135,18 +394,32 @@ export interface BaseRule {
   type: 'HARD' | 'AI';
   /** Whether this rule is enabled (defaults to true) */
   enabled: boolean;
+  /** 'live' rules act; 'shadow' rules are only logged (defaults to 'live') */
+  mode?: RuleMode;
   /** Rule priority (defaults to array index * 10) */
   priority: number;
+  /** ISO 8601 date/time the rule starts applying (inclusive) */
+  activeFrom?: string;
+  /** ISO 8601 date/time the rule stops applying (exclusive) */
+  activeUntil?: string;
+  /** Recurring UTC windows the rule applies in (any window; always if omitted) */
+  activeWindows?: ActiveWindow[];
   /** Content type this rule applies to */
   contentType: 'submission' | 'post' | 'comment' | 'any' | 'all';
   /** Subreddit this rule applies to (null = global rule) */
   subreddit?: string | null;
   /** Root condition tree */
   conditions: Condition;
-  /** Action to take if rule matches */
+  /** Action to take if rule matches (primary action when 'actions' is set) */
   action: ModerationAction;
+  /** Optional ordered list of actions to execute when the rule matches */
+  actions?: RuleActionStep[];
   /** Action configuration */
   actionConfig: ActionConfig;
+  /** Optional escalation ladder: the step is picked from the author's strike count */
+  escalation?: EscalationConfig;
+  /** Points added to the total score when the rule matches ('score' mode only; may be negative) */
+  points?: number;
   /** Creation timestamp (milliseconds since epoch) */
   createdAt: number;
   /** Last update timestamp (milliseconds since epoch) */
@@ -184,6 +457,10 @@ export interface AIRule extends BaseRule {
     question: string;
     /** Optional additional context for the question */
     context?: string;
+    /** Preferred AI provider (optional - defaults to the primary provider setting) */
+    provider?: AIProviderType;
+    /** Preferred model of that provider (optional - defaults to the provider's model) */
+    model?: string;
   };
 }
 
@@ -192,6 +469,27 @@ export interface AIRule extends BaseRule {
  */
 export type Rule = HardRule | AIRule;
 
+/**
+ * How a rule set picks the result when several rules match
+ * - first_match: Stop at the highest-priority matching rule (default)
+ * - most_severe: Evaluate all rules, use the match with the most severe action
+ * - collect_all: Like most_severe, but combine the reasons of every match
+ * - score: Every matching rule adds its points; the rule set's thresholds pick the action
+ */
+export type EvaluationMode = 'first_match' | 'most_severe' | 'collect_all' | 'score';
+
+/**
+ * Action taken once the total score reaches a threshold ('score' mode)
+ */
+export interface ScoreThreshold {
+  /** Minimum total score (inclusive) */
+  score: number;
+  /** Action to take */
+  action: ModerationAction;
+  /** Reason, modlog and action options (text supports {score}) */
+  actionConfig?: Partial<ActionConfig>;
+}
+
 /**
  * Rule set for a subreddit
  * Contains all rules applicable to a specific subreddit
@@ -204,6 +502,12 @@ export interface RuleSet {
   version?: string;
   /** Subreddit name ('global' for global rules) */
   subreddit?: string;
+  /** How matching rules are combined (defaults to 'first_match') */
+  evaluationMode?: EvaluationMode;
+  /** Score thresholds for 'score' mode (the highest threshold reached applies) */
+  thresholds?: ScoreThreshold[];
+  /** Named lists referenced from condition values as "@list:<name>" */
+  lists?: Record<string, string[]>;
   /** Array of rules sorted by priority */
   rules: Rule[];
   /** Last update timestamp (milliseconds since epoch) */
@@ -225,6 +529,63 @@ export interface RuleEvaluationContext {
   aiAnalysis?: AIQuestionBatchResult;
   /** Subreddit name */
   subreddit: string;
+  /** Author's activity counters in this subreddit (absent if unavailable) */
+  activity?: ActivityContext;
+  /** Thread the comment belongs to (comments only) */
+  thread?: ThreadContext;
+  /** Text-quality features of the content (computed by PostBuilder.buildTextStats) */
+  textStats?: TextStats;
+  /** Current UTC time fields (set by the rules engine at evaluation time) */
+  now?: TimeContext;
+  /** Tags attached by TAG rules evaluated so far (conditions read them as `tags.<name>`) */
+  tags?: string[];
+  /** Total score in 'score' mode (set once every rule is evaluated, for {score} in text) */
+  score?: number;
+}
+
+/**
+ * Action step resolved by the rules engine (variables substituted)
+ */
+export interface ResolvedActionStep {
+  /** Action to execute */
+  action: ModerationAction;
+  /** User-facing reason for this step */
+  reason: string;
+  /** Optional mod log text for this step */
+  modlog?: string | null;
+  /** BAN options for this step (variables substituted) */
+  ban?: BanConfig;
+  /** SET_FLAIR options for this step (variables substituted) */
+  flair?: FlairConfig;
+}
+
+/**
+ * A single rule that matched during evaluation
+ * Holds the rule's own action and text before dry-run conversion
+ */
+export interface MatchedRule {
+  /** ID of the matched rule */
+  ruleId: string;
+  /** Name of the matched rule */
+  ruleName: string;
+  /** Rule's action (primary action for multi-action rules) */
+  action: ModerationAction;
+  /** Ordered action steps for multi-action rules */
+  actions?: ResolvedActionStep[];
+  /** User-facing reason (variables substituted) */
+  reason: string;
+  /** Mod log text (variables substituted) */
+  modlog?: string | null;
+  /** BAN options (variables substituted) */
+  ban?: BanConfig;
+  /** SET_FLAIR options (variables substituted) */
+  flair?: FlairConfig;
+  /** Confidence score (0-100, always 100 for hard rules) */
+  confidence: number;
+  /** Compact condition trace showing why the rule matched */
+  explanation?: ConditionTrace;
+  /** Strike for escalating rules (the step taken was picked from it) */
+  strike?: StrikeInfo;
 }
 
 /**
@@ -232,20 +593,101 @@ export interface RuleEvaluationContext {
  * Returned after evaluating all rules for a post
  */
 export interface RuleEvaluationResult {
-  /** Action to take */
+  /** Action to take (primary action for multi-action rules) */
   action: ModerationAction;
+  /** Ordered action steps for multi-action rules (undefined for single-action rules) */
+  actions?: ResolvedActionStep[];
   /** User-facing reason shown in comments (with variables substituted) */
   reason: string;
   /** Optional: Detailed mod log information (with variables substituted) */
   modlog?: string | null;
-  /** ID of the rule that matched */
+  /** BAN options (with variables substituted) */
+  ban?: BanConfig;
+  /** SET_FLAIR options (with variables substituted) */
+  flair?: FlairConfig;
+  /** ID of the rule that matched (the rule the action came from; in 'score' mode the top contributor) */
   matchedRule: string;
+  /** Every rule that matched, in priority order (only the first in 'first_match' mode; empty in 'score' mode below every threshold) */
+  matchedRules?: MatchedRule[];
+  /** Evaluation mode the rule set used */
+  evaluationMode?: EvaluationMode;
+  /** Shadow rules that matched (what they would have done; never executed) */
+  shadowMatches?: MatchedRule[];
+  /** Compact condition trace of the matched rule (why it fired) */
+  explanation?: ConditionTrace;
+  /** Strike of the matched rule, if it escalates (recorded once the action is taken) */
+  strike?: StrikeInfo;
+  /** Tags attached by matching TAG rules, in the order they were attached */
+  tags?: string[];
+  /** Score breakdown ('score' mode only) */
+  score?: ScoreBreakdown;
   /** Confidence score (0-100, always 100 for hard rules) */
   confidence: number;
   /** Whether this is a dry-run (no action taken) */
   dryRun: boolean;
 }
 
+/**
+ * Total score and how it was reached ('score' mode)
+ */
+export interface ScoreBreakdown {
+  /** Sum of the points of every matching live rule */
+  total: number;
+  /** Threshold that was reached (null if the score is below every threshold) */
+  threshold: number | null;
+  /** Points per matching rule, in priority order */
+  contributions: Array<{
+    ruleId: string;
+    ruleName: string;
+    points: number;
+  }>;
+}
+
+/**
+ * Evaluation trace of a condition tree
+ * Mirrors the condition structure with the outcome of every node
+ */
+export interface ConditionTrace {
+  /** Whether this node matched */
+  matched: boolean;
+  /** Leaf: field path */
+  field?: string;
+  /** Leaf: comparison operator */
+  operator?: ConditionOperator;
+  /** Leaf: expected value from the rule */
+  expected?: any;
+  /** Leaf: resolved field value (undefined if missing or not accessible) */
+  actual?: any;
+  /** Nested: logical operator combining the children */
+  logicalOperator?: LogicalOperator;
+  /** Nested: child traces (every child is evaluated, no short-circuit) */
+  children?: ConditionTrace[];
+}
+
+/**
+ * Per-rule outcome of a traced evaluation
+ */
+export interface RuleTrace {
+  /** Rule ID */
+  ruleId: string;
+  /** Rule name */
+  ruleName: string;
+  /** Rule priority */
+  priority: number;
+  /** Rule's action (primary action for multi-action rules) */
+  action: ModerationAction;
+  /** Rule run mode */
+  mode: RuleMode;
+  /** Points the rule contributes ('score' mode) */
+  points?: number;
+  /** Evaluation outcome */
+  status: 'matched' | 'not_matched' | 'disabled' | 'inactive' | 'skipped_ai' | 'error';
+  /** Condition trace (only for evaluated rules) */
+  trace?: ConditionTrace;
+  /** Error message (only for status 'error') */
+  error?: string;
+}
+
 /**
  * Result of executing a moderation action
  */
@@ -266,7 +708,14 @@ export interface ActionExecutionResult {
     commentAdded?: boolean;
     /** For COMMENT: comment text posted */
     commentText?: string;
+    /** For BAN: ban length in days (undefined = permanent) */
+    banDuration?: number;
+    /** For SET_FLAIR: what was flaired and the flair text used */
+    flairTarget?: 'post' | 'user';
+    flairText?: string;
   };
+  /** Per-step results for multi-action rules, in execution order */
+  subActions?: ActionExecutionResult[];
 }
 
 /**
@@ -405,6 +854,41 @@ export const AVAILABLE_FIELDS: Record<string, FieldTypeInfo> = {
     path: 'currentPost.isEdited',
     description: 'Whether post has been edited',
   },
+  'currentPost.flairText': {
+    type: 'string',
+    path: 'currentPost.flairText',
+    description: 'Post flair text',
+  },
+  'currentPost.flairTemplateId': {
+    type: 'string',
+    path: 'currentPost.flairTemplateId',
+    description: 'Post flair template ID',
+  },
+  'currentPost.nsfw': {
+    type: 'boolean',
+    path: 'currentPost.nsfw',
+    description: 'Whether post is marked NSFW',
+  },
+  'currentPost.spoiler': {
+    type: 'boolean',
+    path: 'currentPost.spoiler',
+    description: 'Whether post is marked as a spoiler',
+  },
+  'currentPost.crosspostSubreddit': {
+    type: 'string',
+    path: 'currentPost.crosspostSubreddit',
+    description: 'Subreddit of the original post (crossposts only)',
+  },
+  'currentPost.linkPath': {
+    type: 'string',
+    path: 'currentPost.linkPath',
+    description: 'Path of the link URL for link posts',
+  },
+  'currentPost.galleryCount': {
+    type: 'number',
+    path: 'currentPost.galleryCount',
+    description: 'Number of gallery items',
+  },
 
   // Post history fields
   'postHistory.totalPosts': {
@@ -423,9 +907,135 @@ export const AVAILABLE_FIELDS: Record<string, FieldTypeInfo> = {
     description: 'Subreddits user has posted in',
   },
 
+  // Activity fields (author's posts/comments in this subreddit, incl. the current one)
+  'activity.postsLastHour': {
+    type: 'number',
+    path: 'activity.postsLastHour',
+    description: 'Posts by the author in this subreddit in the last hour',
+  },
+  'activity.postsLast24h': {
+    type: 'number',
+    path: 'activity.postsLast24h',
+    description: 'Posts by the author in this subreddit in the last 24 hours',
+  },
+  'activity.postsLast7d': {
+    type: 'number',
+    path: 'activity.postsLast7d',
+    description: 'Posts by the author in this subreddit in the last 7 days',
+  },
+  'activity.commentsLastHour': {
+    type: 'number',
+    path: 'activity.commentsLastHour',
+    description: 'Comments by the author in this subreddit in the last hour',
+  },
+  'activity.commentsLast24h': {
+    type: 'number',
+    path: 'activity.commentsLast24h',
+    description: 'Comments by the author in this subreddit in the last 24 hours',
+  },
+  'activity.commentsLast7d': {
+    type: 'number',
+    path: 'activity.commentsLast7d',
+    description: 'Comments by the author in this subreddit in the last 7 days',
+  },
+
+  // Thread fields (comments only)
+  'thread.postTitle': {
+    type: 'string',
+    path: 'thread.postTitle',
+    description: 'Title of the post the comment is on',
+  },
+  'thread.postBody': {
+    type: 'string',
+    path: 'thread.postBody',
+    description: 'Body of the post the comment is on',
+  },
+  'thread.parentCommentBody': {
+    type: 'string',
+    path: 'thread.parentCommentBody',
+    description: 'Body of the comment being replied to (empty for top-level comments)',
+  },
+  'thread.depth': {
+    type: 'number',
+    path: 'thread.depth',
+    description: 'Reply depth (0 = top-level comment)',
+  },
+  'thread.isTopLevel': {
+    type: 'boolean',
+    path: 'thread.isTopLevel',
+    description: 'Whether the comment replies to the post directly',
+  },
+  'thread.authorIsOP': {
+    type: 'boolean',
+    path: 'thread.authorIsOP',
+    description: 'Whether the comment author also wrote the post',
+  },
+  'thread.ageInHours': {
+    type: 'number',
+    path: 'thread.ageInHours',
+    description: 'Hours between the post and the comment',
+  },
+
+  // Text-quality fields (title + body)
+  'textStats.capsRatio': {
+    type: 'number',
+    path: 'textStats.capsRatio',
+    description: 'Share of letters that are uppercase (0-1)',
+  },
+  'textStats.emojiCount': {
+    type: 'number',
+    path: 'textStats.emojiCount',
+    description: 'Number of emoji',
+  },
+  'textStats.longestCharRun': {
+    type: 'number',
+    path: 'textStats.longestCharRun',
+    description: 'Longest run of one repeated character',
+  },
+  'textStats.repeatedCharRuns': {
+    type: 'number',
+    path: 'textStats.repeatedCharRuns',
+    description: 'Number of runs of 4 or more identical characters',
+  },
+  'textStats.lineCount': {
+    type: 'number',
+    path: 'textStats.lineCount',
+    description: 'Number of non-blank lines',
+  },
+  'textStats.linkToTextRatio': {
+    type: 'number',
+    path: 'textStats.linkToTextRatio',
+    description: 'Share of the text made up of links (0-1)',
+  },
+  'textStats.markdownLinkCount': {
+    type: 'number',
+    path: 'textStats.markdownLinkCount',
+    description: 'Number of markdown links',
+  },
+  'textStats.language': {
+    type: 'string',
+    path: 'textStats.language',
+    description: 'Detected language (ISO 639-1 code, e.g. "en"), or "unknown"',
+  },
+
+  // Time fields (UTC, at evaluation time)
+  'now.hourUTC': {
+    type: 'number',
+    path: 'now.hourUTC',
+    description: 'Current hour in UTC (0-23)',
+  },
+  'now.dayOfWeek': {
+    type: 'number',
+    path: 'now.dayOfWeek',
+    description: 'Current UTC weekday (0 = Sunday ... 6 = Saturday)',
+  },
+
   // AI analysis fields are dynamically validated
   // Format: aiAnalysis.answers.{questionId}.{field}
   // where field can be: answer, confidence, reasoning
+
+  // Tag fields are dynamic as well
+  // Format: tags.{tag} (boolean, true if a TAG rule attached the tag)
 };
 
 /**
@@ -456,6 +1066,8 @@ export interface ValidationResult<T> {
   error?: string;
   /** Non-fatal warnings that don't prevent validation success */
   warnings?: string[];
+  /** Structural problems (also listed in warnings) that reject the rules when they are saved */
+  errors?: string[];
   /** Additional validation details for debugging */
   details?: string;
 }
@@ -30,6 +30,9 @@ export enum ModAction {
   FLAG = 'FLAG',
   COMMENT = 'COMMENT',
   BAN = 'BAN',
+  MUTE = 'MUTE',
+  LOCK = 'LOCK',
+  SET_FLAIR = 'SET_FLAIR',
   IGNORE = 'IGNORE',
 }
 
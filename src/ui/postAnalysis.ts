@@ -27,6 +27,7 @@
 
 import { Context } from '@devvit/public-api';
 import { getAnalysisHistory, AnalysisHistoryEntry } from '../storage/analysisHistory.js';
+import { formatConditionTrace } from '../rules/explanation.js';
 
 /**
  * Fetch and format analysis for a specific post
@@ -87,6 +88,12 @@ function formatAnalysisDetailed(entry: AnalysisHistoryEntry): string {
     'FLAG': '🚩',
     'COMMENT': '💬',
     'APPROVE': '✅',
+    'BAN': '🔨',
+    'MUTE': '🔇',
+    'LOCK': '🔒',
+    'SPAM': '🗑️',
+    'SET_FLAIR': '🏷️',
+    'TAG': '🏷️',
   }[entry.action] || '❓';
 
   lines.push(`${actionEmoji} Action: ${entry.action}`);
@@ -122,6 +129,28 @@ function formatAnalysisDetailed(entry: AnalysisHistoryEntry): string {
     lines.push('');
   }
 
+  // Condition path that fired
+  if (entry.explanation) {
+    lines.push(`🔍 Why It Matched:`);
+    lines.push(...formatConditionTrace(entry.explanation));
+    lines.push('');
+  }
+
+  // Shadow rules
+  if (entry.shadowMatches && entry.shadowMatches.length > 0) {
+    lines.push(`👻 Shadow Rules (not acted on):`);
+    for (const match of entry.shadowMatches) {
+      lines.push(`• ${match.ruleName}: would ${match.action} - ${match.reason}`);
+    }
+    lines.push('');
+  }
+
+  // Tags from TAG rules
+  if (entry.tags && entry.tags.length > 0) {
+    lines.push(`🏷️ Tags: ${entry.tags.join(', ')}`);
+    lines.push('');
+  }
+
   // Timestamp
   const date = new Date(entry.timestamp);
   lines.push(`🕐 Processed: ${date.toLocaleString()}`);
@@ -0,0 +1,101 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Rule Performance UI Helper
+ *
+ * Combines the current rules with their per-rule statistics for the
+ * "Rule Performance" menu item:
+ * - hit rate: matches / evaluations
+ * - override rate: mod overrides / actions taken
+ *
+ * @module ui/rulePerformance
+ */
+
+import { Context } from '@devvit/public-api';
+import { loadRulesFromSettings } from '../rules/schemaValidator.js';
+import { getRuleStats, RuleStats } from '../storage/ruleStats.js';
+import { ModerationAction } from '../types/rules.js';
+
+/**
+ * Statistics of one current rule
+ */
+export interface RulePerformance extends RuleStats {
+  /** Rule name */
+  ruleName: string;
+  /** Rule's primary action */
+  action: ModerationAction;
+  /** Whether the rule is enabled */
+  enabled: boolean;
+  /** Whether the rule is a shadow rule */
+  shadow: boolean;
+}
+
+/**
+ * Load the statistics of every current rule, in priority order
+ *
+ * @param context - Devvit context
+ * @returns One entry per rule (highest priority first)
+ */
+export async function getRulePerformance(context: Context): Promise<RulePerformance[]> {
+  const ruleSet = await loadRulesFromSettings(context, context.subredditName ?? 'unknown');
+  const rules = [...ruleSet.rules].sort((a, b) => b.priority - a.priority);
+  const stats = await getRuleStats(context.redis, rules.map((rule) => rule.id));
+
+  return rules.map((rule, index) => ({
+    ...stats[index],
+    ruleName: rule.name,
+    action: rule.action,
+    enabled: rule.enabled,
+    shadow: rule.mode === 'shadow',
+  }));
+}
+
+/**
+ * Format rule statistics as multi-line text
+ *
+ * @param rules - Rule statistics in priority order
+ * @returns One block per rule with counters and rates
+ */
+export function formatRulePerformance(rules: RulePerformance[]): string {
+  if (rules.length === 0) {
+    return 'No rules configured.';
+  }
+
+  return rules
+    .map((rule) => {
+      const flags = [!rule.enabled && 'disabled', rule.shadow && 'shadow'].filter(Boolean);
+      const header = `${rule.ruleName} → ${rule.action}${flags.length > 0 ? ` [${flags.join(', ')}]` : ''}`;
+      const overrides = rule.overrideApprovals + rule.overrideRemovals;
+
+      return [
+        header,
+        `  Hit rate: ${formatRate(rule.matches, rule.evaluations)} (${rule.matches} of ${rule.evaluations} evaluations)`,
+        `  Override rate: ${formatRate(overrides, rule.actions)} (${overrides} of ${rule.actions} actions)`,
+        `  Overrides: ${rule.overrideApprovals} removals approved, ${rule.overrideRemovals} approvals removed`,
+      ].join('\n');
+    })
+    .join('\n\n');
+}
+
+/**
+ * Format a ratio as a percentage ('-' without data)
+ */
+function formatRate(count: number, total: number): string {
+  return total > 0 ? `${((count / total) * 100).toFixed(1)}%` : '-';
+}
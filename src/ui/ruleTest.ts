@@ -0,0 +1,190 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Rule Test UI Helper
+ *
+ * Runs the moderation pipeline and custom rules against an existing post or
+ * comment without taking any action. Used by the "Test Rules" menu items.
+ *
+ * Nothing is executed, audited, or stored in analysis history, and no AI
+ * questions are asked (AI rules are reported as skipped). Profile and history
+ * fetches go through the normal caches; activity counters are read, not recorded.
+ *
+ * @module ui/ruleTest
+ */
+
+import { Context } from '@devvit/public-api';
+import { UserProfileFetcher } from '../profile/fetcher';
+import { PostHistoryAnalyzer } from '../profile/historyAnalyzer';
+import { RateLimiter } from '../profile/rateLimiter';
+import { PostBuilder } from '../handlers/postBuilder.js';
+import { ThreadBuilder } from '../handlers/threadBuilder.js';
+import { executeModerationPipeline } from '../moderation/pipeline.js';
+import { RulesEngine } from '../rules/engine.js';
+import { PipelineResult } from '../types/moderation.js';
+import { RuleEvaluationResult, RuleTrace, ThreadContext } from '../types/rules.js';
+import { CurrentPost } from '../types/profile.js';
+import { formatConditionTrace } from '../rules/explanation.js';
+import { getSettingsVersion } from '../storage/keyBuilder.js';
+import { getActivityCounts } from '../storage/activityTracker.js';
+
+// Shared rate limiter for profile fetches made by rule tests
+const rateLimiter = new RateLimiter();
+
+/**
+ * Display labels for rule trace statuses
+ */
+const STATUS_LABELS: Record<RuleTrace['status'], string> = {
+  matched: '✅ MATCHED',
+  not_matched: '⬜ no match',
+  disabled: '⏸️ disabled',
+  inactive: '🕐 inactive (outside its schedule)',
+  skipped_ai: '🤖 skipped (needs AI analysis)',
+  error: '⚠️ error',
+};
+
+/**
+ * Outcome of testing the rules against one post or comment
+ */
+export interface RuleTestReport {
+  /** Post or comment ID (with t3_ or t1_ prefix) */
+  contentId: string;
+  /** Content type that was evaluated */
+  contentType: 'submission' | 'comment';
+  /** Author username */
+  authorName: string;
+  /** Layer 1/2 outcome (layerTriggered 'none' means Layer 3 would run) */
+  pipeline: PipelineResult;
+  /** Layer 3 result the rules engine would return */
+  result: RuleEvaluationResult;
+  /** Per-rule outcome and condition trace, highest priority first */
+  rules: RuleTrace[];
+}
+
+/**
+ * Evaluate the current rules against an existing post or comment
+ *
+ * @param context - Devvit context
+ * @param targetId - Post (t3_) or comment (t1_) ID from the menu event
+ * @returns Test report
+ * @throws Error with a user-facing message if the content can't be tested
+ */
+export async function runRuleTest(context: Context, targetId: string): Promise<RuleTestReport> {
+  const { reddit, redis } = context;
+  const contentType = targetId.startsWith('t1_') ? 'comment' : 'submission';
+
+  // Build CurrentPost the same way the submit handlers do
+  let authorId: string | undefined;
+  let authorName: string | undefined;
+  let currentPost: CurrentPost;
+  let thread: ThreadContext | undefined;
+  if (contentType === 'comment') {
+    const comment = await reddit.getCommentById(targetId);
+    authorId = comment.authorId;
+    authorName = comment.authorName;
+    currentPost = PostBuilder.buildCurrentComment(comment);
+    thread = await ThreadBuilder.buildThreadContext(reddit, comment);
+  } else {
+    const post = await reddit.getPostById(targetId);
+    authorId = post.authorId;
+    authorName = post.authorName;
+    currentPost = PostBuilder.buildCurrentPost(post, await PostBuilder.getCrosspostSubreddit(reddit, post));
+  }
+
+  if (!authorId || !authorName || authorName === '[deleted]') {
+    throw new Error('Author is deleted - nothing to test.');
+  }
+
+  const settingsVersion = await getSettingsVersion(context);
+  const profileFetcher = new UserProfileFetcher(redis, reddit, rateLimiter, settingsVersion);
+  const historyAnalyzer = new PostHistoryAnalyzer(redis, reddit, rateLimiter, settingsVersion);
+
+  const [profile, history, activity] = await Promise.all([
+    profileFetcher.getUserProfile(authorId),
+    historyAnalyzer.getPostHistory(authorId, authorName),
+    getActivityCounts(redis, authorId, currentPost.subreddit, settingsVersion),
+  ]);
+
+  if (!profile) {
+    throw new Error(`Could not fetch profile for u/${authorName}.`);
+  }
+
+  // Layers 1-2 (read-only: settings + OpenAI Moderation check)
+  const pipeline = await executeModerationPipeline(context, profile, currentPost, contentType);
+
+  // Layer 3 is traced even if Layers 1-2 would have acted, so rules can still be checked
+  const engine = RulesEngine.getInstance(context);
+  const { result, rules } = await engine.traceRules(
+    {
+      profile,
+      postHistory: history,
+      currentPost,
+      activity,
+      thread,
+      textStats: PostBuilder.buildTextStats(currentPost),
+      subreddit: currentPost.subreddit,
+    },
+    contentType
+  );
+
+  console.log(`[RuleTest] Tested rules on ${targetId}:`, {
+    pipelineLayer: pipeline.layerTriggered,
+    pipelineAction: pipeline.action,
+    action: result.action,
+    matchedRules: rules.filter((rule) => rule.status === 'matched').map((rule) => rule.ruleName),
+  });
+
+  return {
+    contentId: targetId,
+    contentType,
+    authorName,
+    pipeline,
+    result,
+    rules,
+  };
+}
+
+/**
+ * Format per-rule traces as multi-line text
+ *
+ * @param rules - Rule traces in priority order
+ * @returns One block per rule with its condition tree
+ */
+export function formatRuleTraces(rules: RuleTrace[]): string {
+  if (rules.length === 0) {
+    return 'No rules apply to this content type.';
+  }
+
+  return rules
+    .map((rule) => {
+      const shadow = rule.mode === 'shadow' ? ' [shadow]' : '';
+      const outcome = rule.points !== undefined ? `${rule.points >= 0 ? '+' : ''}${rule.points} points` : rule.action;
+      const header = `${STATUS_LABELS[rule.status]} ${rule.ruleName} → ${outcome}${shadow} (priority ${rule.priority})`;
+      const lines = [header];
+
+      if (rule.trace) {
+        lines.push(...formatConditionTrace(rule.trace, 1));
+      } else if (rule.error) {
+        lines.push(`  Error: ${rule.error}`);
+      }
+
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
@@ -0,0 +1,118 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Rules History UI Helper
+ *
+ * Records rules edits made in the settings and backs the "Rules History"
+ * menu item (browse versions, roll back to one).
+ *
+ * @module ui/rulesHistory
+ */
+
+import { Context } from '@devvit/public-api';
+import { RuleHistory, RuleVersion } from '../rules/history.js';
+
+/**
+ * Versions shown in the Rules History form
+ */
+export interface RulesHistoryView {
+  /** Stored versions, newest first */
+  versions: RuleVersion[];
+  /** Version active through a rollback (null if the rulesJson setting applies) */
+  rollbackVersion: number | null;
+}
+
+/**
+ * Snapshot the rulesJson setting when a moderator saves the settings
+ *
+ * Never blocks saving: errors are logged and ignored.
+ *
+ * @param context - Devvit context of the settings save
+ * @param rulesJson - New value of the rulesJson setting
+ */
+export async function recordRulesEdit(context: Context, rulesJson: string): Promise<void> {
+  try {
+    const user = await context.reddit.getCurrentUser();
+    await new RuleHistory(context.redis).recordVersion(rulesJson, user?.username ?? 'unknown');
+  } catch (error) {
+    console.error('[RulesHistory] Failed to record rules edit:', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Load the stored versions for the Rules History form
+ *
+ * @param context - Devvit context
+ * @returns Versions and the active rollback
+ */
+export async function getRulesHistory(context: Context): Promise<RulesHistoryView> {
+  const history = new RuleHistory(context.redis);
+  const [versions, rollbackVersion] = await Promise.all([
+    history.listVersions(),
+    history.getRollbackVersion(),
+  ]);
+
+  return { versions, rollbackVersion };
+}
+
+/**
+ * Roll back to a stored version on behalf of the current moderator
+ *
+ * @param context - Devvit context
+ * @param version - Version number to restore
+ * @returns The new version recording the rollback
+ * @throws Error with a user-facing message if the version doesn't exist, or if
+ *   the rules come from a wiki page (the rollback would have no effect)
+ */
+export async function rollbackRules(context: Context, version: number): Promise<RuleVersion> {
+  const [user, settingsRulesJson, wikiPage] = await Promise.all([
+    context.reddit.getCurrentUser(),
+    context.settings.get<string>('rulesJson'),
+    context.settings.get<string>('rulesWikiPage'),
+  ]);
+
+  if (wikiPage?.trim()) {
+    throw new Error(
+      `Rules come from the wiki page '${wikiPage.trim()}'; revert the page revision instead.`
+    );
+  }
+
+  return new RuleHistory(context.redis).rollback(version, settingsRulesJson ?? '', user?.username ?? 'unknown');
+}
+
+/**
+ * Format stored versions as multi-line text
+ *
+ * @param view - Versions and the active rollback
+ * @returns One line per version
+ */
+export function formatRuleVersions(view: RulesHistoryView): string {
+  if (view.versions.length === 0) {
+    return 'No versions recorded yet. Versions are recorded when the rules setting is saved.';
+  }
+
+  return view.versions
+    .map((version) => {
+      const active = version.version === view.rollbackVersion ? ' [active rollback]' : '';
+      return `v${version.version}${active} - ${new Date(version.timestamp).toISOString()} by u/${version.editor}\n  ${version.summary}`;
+    })
+    .join('\n\n');
+}
@@ -0,0 +1,78 @@
+/**
+ * AI Automod - AI Automod for Reddit
+ * Copyright (C) 2025 CoinsTax LLC
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as published
+ * by the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE. See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program. If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Tagged Content UI Helper
+ *
+ * Backs the "Find Tagged Content" menu item: lists recent content that TAG
+ * rules labelled with a given tag (from analysis history).
+ *
+ * @module ui/taggedContent
+ */
+
+import { Context } from '@devvit/public-api';
+import { loadRulesFromSettings } from '../rules/schemaValidator.js';
+import { findTaggedAnalysisHistory, AnalysisHistoryEntry } from '../storage/analysisHistory.js';
+
+/**
+ * List the tags attached by the current TAG rules
+ *
+ * @param context - Devvit context
+ * @returns Tag names, sorted
+ */
+export async function getRuleTags(context: Context): Promise<string[]> {
+  const ruleSet = await loadRulesFromSettings(context, context.subredditName ?? 'unknown');
+  const tags = ruleSet.rules
+    .filter((rule) => rule.action === 'TAG')
+    .flatMap((rule) => rule.actionConfig.tags ?? []);
+
+  return [...new Set(tags)].sort();
+}
+
+/**
+ * Find recent content labelled with a tag
+ *
+ * @param context - Devvit context
+ * @param tag - Tag name (a leading "tags." is ignored)
+ * @returns Analysis history entries with the tag, newest first
+ */
+export async function getTaggedContent(context: Context, tag: string): Promise<AnalysisHistoryEntry[]> {
+  return findTaggedAnalysisHistory(context.redis, tag.trim().replace(/^tags\./, ''));
+}
+
+/**
+ * Format tagged content as multi-line text
+ *
+ * @param entries - Analysis history entries, newest first
+ * @returns One block per content item
+ */
+export function formatTaggedContent(entries: AnalysisHistoryEntry[]): string {
+  if (entries.length === 0) {
+    return 'No content with this tag in the last 90 days. Tags are only stored when actions are taken (not in dry-run mode).';
+  }
+
+  return entries
+    .map((entry) =>
+      [
+        `${entry.contentId} - ${new Date(entry.timestamp).toISOString().slice(0, 16).replace('T', ' ')} by u/${entry.authorName}`,
+        `  ${entry.action} (${entry.ruleName})`,
+        `  Tags: ${(entry.tags ?? []).join(', ')}`,
+      ].join('\n')
+    )
+    .join('\n\n');
+}